@@ -1,12 +1,69 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { processLectureMedia } from './services/geminiService';
-import { generatePDF } from './utils/pdfGenerator';
-import { SmartNotes, AppStatus, PageView, QuizItem, Flashcard } from './types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { processLectureFile } from './services/notesService';
+import { createProvider, PROVIDER_LABELS } from './services/notesProvider';
+import { loadSettings, saveSettings } from './services/settingsStore';
+import { runSectionAction, SectionAction, SECTION_ACTION_LABELS } from './services/sectionService';
+import { askAboutNote } from './services/chatService';
+import { generateVariantQuestions, gradeShortAnswer } from './services/quizService';
+import { synthesizeCourse } from './services/courseService';
+import { clearCourses, deleteCourse, listCourses, putCourse, putCourses } from './services/courseStore';
+import { clearMedia, deleteMedia, getMedia, putMedia } from './services/mediaStore';
+import { clearNotes, deleteNote, listNotes, putNote, putNotes } from './services/noteStore';
+import { deleteImportJobs, listImportJobs, putImportJobs, updateImportJob } from './services/importStore';
+import { clearStudyEvents, listStudyEvents, putStudyEvent, putStudyEvents } from './services/statsStore';
+import { appendRecordingChunk, deleteRecording, listRecordings, loadRecordingAudio, putRecording } from './services/recordingStore';
+import { createBackup, mergeBackup, parseBackup, ConflictPolicy, ImportReportItem } from './utils/backup';
+import { downloadBlob, safeFilename } from './utils/download';
+import { dueStatus, toISODate } from './utils/actionItems';
+import { buildCalendar } from './utils/calendar';
+import { readApkg } from './utils/anki';
+import { parseQuizletExport } from './utils/quizlet';
+import { mergeImportedCards } from './utils/deck';
+import { collectDroppedFiles, fetchUrlAsFile, IMPORT_ACCEPT, selectedFiles } from './utils/importFiles';
+import { ProcessingError, toProcessingError } from './utils/errors';
+import { AudioRecorder, startAudioRecorder } from './utils/audioRecorder';
+import { formatTimestamp } from './utils/mediaSegmenter';
+import { TextRange } from './utils/textMatch';
+import { conceptKey, normalize } from './utils/concepts';
+import { annotatedText, createAnchor, resolveAnnotations } from './utils/annotations';
+import { MAX_ITEM_MS } from './utils/studyStats';
+import { buildPracticeSession, collectWeakSpots, PracticeItem, shuffle } from './utils/practice';
+import { buildConceptGraph, buildConceptIndex, relatedConcepts, relatedNotes } from './utils/knowledgeGraph';
+import { annotationLocation, exportNotes, noteToMarkdown, NoteExportFormat } from './utils/noteExport';
+import { applyContent, changedFields, commitRevision, CONTENT_FIELD_LABELS, fieldAuthors, noteContent } from './utils/revisions';
+import { collectDueCards, scheduleReview } from './utils/spacedRepetition';
+import { buildSearchIndex, searchNotes, SearchFilters, SEARCH_FIELD_LABELS, UNFILED_COURSE } from './utils/searchIndex';
+import { FlashcardsComponent, ReviewDeck } from './components/Flashcards';
+import { QuizComponent } from './components/Quiz';
+import { HighlightedText } from './components/HighlightedText';
+import { NoteChat } from './components/NoteChat';
+import { CourseView } from './components/CourseView';
+import { TagEditor } from './components/TagEditor';
+import { TranscriptFocus, TranscriptPlayer } from './components/TranscriptPlayer';
+import { ActionItemRow, AssignmentList } from './components/Assignments';
+import { DeckExportDialog } from './components/DeckExportDialog';
+import { PdfExportDialog } from './components/PdfExportDialog';
+import { ImportQueue } from './components/ImportQueue';
+import { ProcessingErrorView } from './components/ProcessingErrorView';
+import { RecordingPanel } from './components/RecordingPanel';
+import { ActionItemsEditor, ConceptsEditor, EditableText, EditedBadge, StudyItemsEditor } from './components/NoteEditors';
+import { RevisionHistory } from './components/RevisionHistory';
+import { AnnotatedText, AnnotationList, readTextSelection, SelectionMenu, TextMark, TextSelection } from './components/Annotations';
+import { KnowledgeGraph } from './components/KnowledgeGraph';
+import { ConceptPage } from './components/ConceptPage';
+import { StatsDashboard } from './components/StatsDashboard';
+import { PracticeResult, PracticeSession } from './components/PracticeSession';
+import { SmartNotes, AppStatus, PageView, DueCard, Flashcard, ReviewGrade, ProcessingProgress, AppSettings, ProviderId, ChatMessage, Course, ActionItem, QuizAttempt, ImportJob, RecordingSession, NoteContent, NoteRevision, Annotation, AnnotationTarget, StudyEvent } from './types';
 
 // --- Components ---
 
-const Navbar = ({ currentView, setView }: { currentView: PageView, setView: (v: PageView) => void }) => (
+const Navbar = ({ currentView, setView, dueCount, urgentCount }: {
+  currentView: PageView,
+  setView: (v: PageView) => void,
+  dueCount: number,
+  urgentCount: number
+}) => (
   <nav className="w-full h-16 glass-morphism sticky top-0 z-50 flex items-center px-8 justify-between shadow-sm">
     <div className="flex items-center gap-2 cursor-pointer" onClick={() => setView('HOME')}>
       <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center text-white font-bold">S</div>
@@ -15,7 +72,7 @@ const Navbar = ({ currentView, setView }: { currentView: PageView, setView: (v:
       </h1>
     </div>
     <div className="flex gap-4 md:gap-8 text-sm font-medium">
-      {(['HOME', 'HISTORY', 'RESOURCES', 'SETTINGS'] as PageView[]).map((v) => (
+      {(['HOME', 'HISTORY', 'REVIEW', 'ASSIGNMENTS', 'CONCEPTS', 'STATS', 'RESOURCES', 'SETTINGS'] as PageView[]).map((v) => (
         <button
           key={v}
           onClick={() => setView(v)}
@@ -24,16 +81,32 @@ const Navbar = ({ currentView, setView }: { currentView: PageView, setView: (v:
           }`}
         >
           {v.replace('_', ' ').toLowerCase().replace(/\b\w/g, c => c.toUpperCase())}
+          {v === 'REVIEW' && dueCount > 0 && (
+            <span className="ml-1 px-1.5 py-0.5 bg-indigo-600 text-white rounded-full text-[10px] font-bold">{dueCount}</span>
+          )}
+          {v === 'ASSIGNMENTS' && urgentCount > 0 && (
+            <span className="ml-1 px-1.5 py-0.5 bg-red-500 text-white rounded-full text-[10px] font-bold">{urgentCount}</span>
+          )}
         </button>
       ))}
     </div>
   </nav>
 );
 
-const PomodoroTimer = () => {
-  const [timeLeft, setTimeLeft] = useState(25 * 60);
+const FOCUS_SECONDS = 25 * 60;
+// Weak spots sent to the model for variants in one practice session.
+const MAX_VARIANT_SOURCES = 10;
+
+// Finished focus sessions are logged against the chosen note, if any.
+const PomodoroTimer = ({ notes, defaultNoteId, onFocusComplete }: {
+  notes: SmartNotes[],
+  defaultNoteId?: string,
+  onFocusComplete: (noteId: string | undefined, durationMs: number) => void
+}) => {
+  const [timeLeft, setTimeLeft] = useState(FOCUS_SECONDS);
   const [isActive, setIsActive] = useState(false);
   const [mode, setMode] = useState<'FOCUS' | 'BREAK'>('FOCUS');
+  const [noteId, setNoteId] = useState(defaultNoteId || '');
 
   useEffect(() => {
     let interval: number;
@@ -41,9 +114,10 @@ const PomodoroTimer = () => {
       interval = window.setInterval(() => setTimeLeft(t => t - 1), 1000);
     } else if (timeLeft === 0) {
       setIsActive(false);
+      if (mode === 'FOCUS') onFocusComplete(noteId || undefined, FOCUS_SECONDS * 1000);
       const nextMode = mode === 'FOCUS' ? 'BREAK' : 'FOCUS';
       setMode(nextMode);
-      setTimeLeft(nextMode === 'FOCUS' ? 25 * 60 : 5 * 60);
+      setTimeLeft(nextMode === 'FOCUS' ? FOCUS_SECONDS : 5 * 60);
     }
     return () => clearInterval(interval);
   }, [isActive, timeLeft, mode]);
@@ -66,109 +140,28 @@ const PomodoroTimer = () => {
           {isActive ? 'Pause' : 'Start'}
         </button>
         <button 
-          onClick={() => { setTimeLeft(mode === 'FOCUS' ? 25 * 60 : 5 * 60); setIsActive(false); }}
+          onClick={() => { setTimeLeft(mode === 'FOCUS' ? FOCUS_SECONDS : 5 * 60); setIsActive(false); }}
           className="px-4 py-1.5 bg-slate-700 rounded-full text-xs hover:bg-slate-600"
         >
           Reset
         </button>
       </div>
+      {notes.length > 0 && (
+        <select
+          value={noteId}
+          onChange={e => setNoteId(e.target.value)}
+          className="w-full text-xs bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-slate-300"
+        >
+          <option value="">Studying: nothing in particular</option>
+          {notes.map(n => <option key={n.id} value={n.id}>Studying: {n.title}</option>)}
+        </select>
+      )}
     </div>
   );
 };
 
-const QuizComponent = ({ quiz }: { quiz: QuizItem[] }) => {
-  const [currentIdx, setCurrentIdx] = useState(0);
-  const [score, setScore] = useState(0);
-  const [selected, setSelected] = useState<string | null>(null);
-  const [showResult, setShowResult] = useState(false);
-
-  const handleNext = () => {
-    if (selected === quiz[currentIdx].answer) setScore(s => s + 1);
-    if (currentIdx < quiz.length - 1) {
-      setCurrentIdx(i => i + 1);
-      setSelected(null);
-    } else {
-      setShowResult(true);
-    }
-  };
-
-  if (showResult) {
-    return (
-      <div className="text-center p-8 space-y-4">
-        <h4 className="text-2xl font-bold text-slate-800">Quiz Finished!</h4>
-        <p className="text-4xl font-black text-indigo-600">{score} / {quiz.length}</p>
-        <button onClick={() => { setShowResult(false); setCurrentIdx(0); setScore(0); setSelected(null); }} className="text-indigo-600 font-bold underline">Try Again</button>
-      </div>
-    );
-  }
-
-  const q = quiz[currentIdx];
-  return (
-    <div className="space-y-6">
-      <div className="text-xs text-slate-400">Question {currentIdx + 1} of {quiz.length}</div>
-      <h4 className="text-lg font-bold text-slate-800">{q.question}</h4>
-      <div className="space-y-2">
-        {q.options.map((opt, i) => (
-          <button
-            key={i}
-            onClick={() => setSelected(opt)}
-            className={`w-full p-4 text-left rounded-xl border-2 transition-all ${selected === opt ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-100 hover:border-slate-200'}`}
-          >
-            {opt}
-          </button>
-        ))}
-      </div>
-      <button 
-        disabled={!selected}
-        onClick={handleNext}
-        className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold disabled:opacity-50"
-      >
-        {currentIdx === quiz.length - 1 ? 'Finish' : 'Next Question'}
-      </button>
-    </div>
-  );
-};
-
-const FlashcardsComponent = ({ flashcards }: { flashcards: Flashcard[] }) => {
-  const [currentIdx, setCurrentIdx] = useState(0);
-  const [isFlipped, setIsFlipped] = useState(false);
-
-  const next = () => {
-    setCurrentIdx((i) => (i + 1) % flashcards.length);
-    setIsFlipped(false);
-  };
-
-  const prev = () => {
-    setCurrentIdx((i) => (i - 1 + flashcards.length) % flashcards.length);
-    setIsFlipped(false);
-  };
-
-  const card = flashcards[currentIdx];
-
-  return (
-    <div className="space-y-8 flex flex-col items-center">
-      <div 
-        onClick={() => setIsFlipped(!isFlipped)}
-        className="w-full max-w-md h-64 cursor-pointer perspective-1000 group"
-      >
-        <div className={`relative w-full h-full transition-transform duration-500 transform-style-3d ${isFlipped ? 'rotate-y-180' : ''}`}>
-          <div className="absolute inset-0 bg-white border border-slate-200 rounded-3xl shadow-lg flex items-center justify-center p-8 text-center backface-hidden">
-            <p className="text-xl font-bold text-slate-800">{card.front}</p>
-          </div>
-          <div className="absolute inset-0 bg-indigo-600 text-white rounded-3xl shadow-lg flex items-center justify-center p-8 text-center backface-hidden rotate-y-180">
-            <p className="text-xl leading-relaxed">{card.back}</p>
-          </div>
-        </div>
-      </div>
-      <div className="flex items-center gap-6">
-        <button onClick={prev} className="p-3 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors">←</button>
-        <span className="text-sm font-bold text-slate-400">{currentIdx + 1} / {flashcards.length}</span>
-        <button onClick={next} className="p-3 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors">→</button>
-      </div>
-      <p className="text-xs text-slate-400">Click the card to flip</p>
-    </div>
-  );
-};
+// Imports analysed at once; more mostly trips provider rate limits.
+const IMPORT_CONCURRENCY = 2;
 
 // --- Main App ---
 
@@ -177,74 +170,617 @@ const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [notes, setNotes] = useState<SmartNotes | null>(null);
   const [history, setHistory] = useState<SmartNotes[]>([]);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [deepAnalysis, setDeepAnalysis] = useState(false);
+  // The latest history, for code that resumes after an await.
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [newCourseName, setNewCourseName] = useState('');
+  const [synthesizingCourseId, setSynthesizingCourseId] = useState<string | null>(null);
+  const [courseError, setCourseError] = useState<string | null>(null);
+  const [processingError, setProcessingError] = useState<ProcessingError | null>(null);
+  const processingAbortRef = useRef<AbortController | null>(null);
+  // Kept until the file is processed, so a failure can be retried.
+  const lastFileRef = useRef<{ file: Blob; recordingId?: string } | null>(null);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [sectionBusy, setSectionBusy] = useState<SectionAction | null>(null);
+  const [sectionError, setSectionError] = useState<string | null>(null);
+  const [showDeckExport, setShowDeckExport] = useState(false);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [cardImport, setCardImport] = useState<{ text: string; failed: boolean } | null>(null);
+  const [editingList, setEditingList] = useState<'concepts' | 'actions' | null>(null);
+  const [showStudyEditor, setShowStudyEditor] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [transcriptFocus, setTranscriptFocus] = useState<TextRange | null>(null);
+  const [segmentFocus, setSegmentFocus] = useState<TranscriptFocus | null>(null);
+  // Where to scroll once a note opened from elsewhere has switched in.
+  const pendingSegmentRef = useRef<TranscriptFocus | null>(null);
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
   const [studyTab, setStudyTab] = useState<'QUIZ' | 'FLASHCARDS'>('QUIZ');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('keep-newer');
+  const [importReport, setImportReport] = useState<ImportReportItem[] | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [imports, setImports] = useState<ImportJob[]>([]);
+  const [importProgress, setImportProgress] = useState<Record<string, ProcessingProgress>>({});
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [importUrl, setImportUrl] = useState('');
+  const [fetchingUrl, setFetchingUrl] = useState(false);
+  const [openConceptKey, setOpenConceptKey] = useState<string | null>(null);
+  const [conceptCourseId, setConceptCourseId] = useState<string | undefined>(undefined);
+  const [sharedConceptsOnly, setSharedConceptsOnly] = useState(true);
+  const [conceptQuery, setConceptQuery] = useState('');
+  const [studyEvents, setStudyEvents] = useState<StudyEvent[]>([]);
+  // `run` keys the session, so "practise again" starts from a clean slate.
+  const [practice, setPractice] = useState<{ items: PracticeItem[]; run: number } | null>(null);
+  const [practiceNotice, setPracticeNotice] = useState<string | null>(null);
+  const startedImportsRef = useRef(new Set<string>());
+  const importAbortsRef = useRef(new Map<string, AbortController>());
   
-  const [isRecording, setIsRecording] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  const [recording, setRecording] = useState<{ id: string; recorder: AudioRecorder } | null>(null);
+  const [interruptedRecordings, setInterruptedRecordings] = useState<RecordingSession[]>([]);
+
+  useEffect(() => {
+    setTranscriptFocus(null);
+    setSegmentFocus(pendingSegmentRef.current);
+    pendingSegmentRef.current = null;
+    setCardImport(null);
+    setEditingList(null);
+    setShowStudyEditor(false);
+    setShowRevisions(false);
+    setTextSelection(null);
+    setActiveAnnotationId(null);
+  }, [notes?.id]);
+
+  useEffect(() => {
+    if (!notes?.mediaType) return;
+    let url: string | null = null;
+    let cancelled = false;
+    getMedia(notes.id)
+      .then(blob => {
+        if (!blob || cancelled) return;
+        url = URL.createObjectURL(blob);
+        setMediaUrl(url);
+      })
+      .catch(err => console.error("Failed to load media:", err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setMediaUrl(null);
+    };
+  }, [notes?.id, notes?.mediaType]);
 
   useEffect(() => {
-    const saved = localStorage.getItem('smart_notes_v2');
-    if (saved) setHistory(JSON.parse(saved));
+    transcriptRef.current?.querySelector('mark[data-focus]')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [transcriptFocus]);
+
+  useEffect(() => {
+    if (activeAnnotationId) document.querySelector(`mark[data-annotation="${activeAnnotationId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeAnnotationId]);
+
+  useEffect(() => {
+    listNotes()
+      .then(setHistory)
+      .catch(err => console.error("Failed to load vault:", err));
+    listCourses()
+      .then(setCourses)
+      .catch(err => console.error("Failed to load courses:", err));
+    listStudyEvents()
+      .then(setStudyEvents)
+      .catch(err => console.error("Failed to load study stats:", err));
+    listImportJobs()
+      .then(setImports)
+      .catch(err => console.error("Failed to load import queue:", err));
+    listRecordings()
+      .then(setInterruptedRecordings)
+      .catch(err => console.error("Failed to look for interrupted recordings:", err));
   }, []);
 
+  useEffect(() => {
+    const running = imports.filter(j => j.status === 'uploading' || j.status === 'processing').length;
+    imports
+      .filter(j => j.status === 'queued' && j.file && !startedImportsRef.current.has(j.id))
+      .slice(0, Math.max(0, IMPORT_CONCURRENCY - running))
+      .forEach(runImport);
+  }, [imports]);
+
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  };
+
   const saveToHistory = (note: SmartNotes) => {
-    const updated = [note, ...history].slice(0, 30);
-    setHistory(updated);
-    localStorage.setItem('smart_notes_v2', JSON.stringify(updated));
+    setHistory(prev => [note, ...prev.filter(h => h.id !== note.id)]);
+    putNote(note).catch(err => console.error("Failed to save note:", err));
+  };
+
+  const updateNote = (changed: SmartNotes) => {
+    const note = { ...changed, updatedAt: Date.now() };
+    historyRef.current = historyRef.current.map(h => h.id === note.id ? note : h);
+    setHistory(prev => prev.map(h => h.id === note.id ? note : h));
+    setNotes(current => current?.id === note.id ? note : current);
+    putNote(note).catch(err => console.error("Failed to save note:", err));
+  };
+
+  // For results that arrive after an await: the change is applied to the
+  // note as it is now, not to the copy the request started from.
+  const updateLatestNote = (id: string, change: (current: SmartNotes) => SmartNotes) => {
+    const current = historyRef.current.find(h => h.id === id);
+    if (current) updateNote(change(current));
+  };
+
+  // A person's changes to the open note, saved as a new revision.
+  const editNote = (changes: Partial<NoteContent>) => {
+    if (!notes) return;
+    const before = noteContent(notes);
+    const after = { ...before, ...changes };
+    const fields = changedFields(before, after);
+    if (fields.length === 0) return;
+    const label = `Edited ${fields.map(f => CONTENT_FIELD_LABELS[f].toLowerCase()).join(', ')}`;
+    updateNote(commitRevision(notes, applyContent(notes, after), 'user', label));
+  };
+
+  const restoreRevision = (revision: NoteRevision) => {
+    if (!notes) return;
+    const label = `Restored version from ${new Date(revision.timestamp).toLocaleString()}`;
+    updateNote(commitRevision(notes, applyContent(notes, revision.content), 'user', label));
+    setShowRevisions(false);
+  };
+
+  const closeSelection = () => {
+    setTextSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const addAnnotation = (comment?: string) => {
+    if (!notes || !textSelection) return;
+    const { target, range } = textSelection;
+    const annotation: Annotation = {
+      id: crypto.randomUUID(),
+      target,
+      anchor: createAnchor(annotatedText(notes, target), range),
+      ...(comment && { note: comment }),
+      createdAt: Date.now()
+    };
+    updateNote({ ...notes, annotations: [...(notes.annotations || []), annotation] });
+    setActiveAnnotationId(annotation.id);
+    closeSelection();
+  };
+
+  const changeAnnotationNote = (id: string, comment: string) => {
+    if (!notes) return;
+    updateNote({
+      ...notes,
+      annotations: (notes.annotations || []).map(({ note, ...a }) => a.id === id
+        ? { ...a, ...(comment && { note: comment }), updatedAt: Date.now() }
+        : { ...a, ...(note && { note }) })
+    });
+  };
+
+  const removeAnnotation = (id: string) => {
+    if (!notes) return;
+    updateNote({ ...notes, annotations: (notes.annotations || []).filter(a => a.id !== id) });
+    setActiveAnnotationId(null);
+  };
+
+  const flashcardFromSelection = (front: string, back: string) => {
+    if (!notes) return;
+    editNote({ flashcards: [...noteContent(notes).flashcards, { front, back }] });
+    closeSelection();
+  };
+
+  const removeNote = (id: string) => {
+    setHistory(prev => prev.filter(h => h.id !== id));
+    deleteNote(id).catch(err => console.error("Failed to delete note:", err));
+    deleteMedia(id).catch(err => console.error("Failed to delete media:", err));
   };
 
-  const processFile = async (file: Blob) => {
+  const resetVault = () => {
+    if (!confirm("Delete every note, course and study stat in your vault? This cannot be undone.")) return;
+    setHistory([]);
+    setCourses([]);
+    setStudyEvents([]);
+    setSearchFilters(f => ({ ...f, courseId: undefined }));
+    clearNotes().catch(err => console.error("Failed to clear vault:", err));
+    clearCourses().catch(err => console.error("Failed to clear courses:", err));
+    clearMedia().catch(err => console.error("Failed to clear media:", err));
+    clearStudyEvents().catch(err => console.error("Failed to clear study stats:", err));
+    // Finished jobs would point at deleted notes; imports already running are left to finish.
+    removeImports(imports.filter(j => !startedImportsRef.current.has(j.id)).map(j => j.id));
+  };
+
+  const saveCourse = (changed: Course) => {
+    const course = { ...changed, updatedAt: Date.now() };
+    setCourses(prev => [...prev.filter(c => c.id !== course.id), course].sort((a, b) => a.name.localeCompare(b.name)));
+    putCourse(course).catch(err => console.error("Failed to save course:", err));
+  };
+
+  const createCourse = () => {
+    const name = newCourseName.trim();
+    if (!name) return;
+    const course: Course = { id: crypto.randomUUID(), name, tags: [], createdAt: Date.now() };
+    saveCourse(course);
+    setNewCourseName('');
+    setSearchFilters(f => ({ ...f, courseId: course.id }));
+  };
+
+  const removeCourse = async (course: Course) => {
+    if (!confirm(`Delete the course "${course.name}"? Its lectures stay in your vault, unfiled.`)) return;
+    const unfiled = history.filter(h => h.courseId === course.id).map(h => ({ ...h, courseId: undefined, updatedAt: Date.now() }));
+    setCourses(prev => prev.filter(c => c.id !== course.id));
+    setHistory(prev => prev.map(h => unfiled.find(u => u.id === h.id) || h));
+    setSearchFilters(f => ({ ...f, courseId: undefined }));
+    try {
+      await putNotes(unfiled);
+      await deleteCourse(course.id);
+    } catch (err) {
+      console.error("Failed to delete course:", err);
+    }
+  };
+
+  const buildCourseSynthesis = async (course: Course) => {
+    setSynthesizingCourseId(course.id);
+    setCourseError(null);
+    try {
+      const lectures = history.filter(h => h.courseId === course.id);
+      const synthesis = await synthesizeCourse(createProvider(settings), course.name, lectures, settings.deepAnalysis);
+      saveCourse({ ...course, synthesis });
+    } catch (err: any) {
+      console.error("Course synthesis failed:", err);
+      setCourseError(`Could not build the study guide: ${err.message}`);
+    } finally {
+      setSynthesizingCourseId(null);
+    }
+  };
+
+  const logStudyEvent = (event: StudyEvent) => {
+    setStudyEvents(prev => [...prev, event]);
+    putStudyEvent(event).catch(err => console.error("Failed to log study session:", err));
+  };
+
+  const gradeFlashcard = (noteId: string, cardIndex: number, grade: ReviewGrade, elapsedMs: number) => {
+    const target = historyRef.current.find(h => h.id === noteId);
+    const card = target?.flashcards?.[cardIndex];
+    if (!target || !card) return;
+    const schedule = scheduleReview(card.schedule, grade);
+    updateNote({ ...target, flashcards: target.flashcards!.map((c, i) => (i === cardIndex ? { ...c, schedule } : c)) });
+    logStudyEvent({
+      kind: 'review', id: crypto.randomUUID(), timestamp: schedule.lastReviewed!, noteId,
+      durationMs: Math.min(elapsedMs, MAX_ITEM_MS), card: card.front, grade, interval: schedule.interval
+    });
+  };
+
+  const recordQuizAttempt = (noteId: string, attempt: QuizAttempt) => {
+    const target = historyRef.current.find(h => h.id === noteId);
+    if (!target) return;
+    updateNote({ ...target, quizAttempts: [...(target.quizAttempts || []), attempt] });
+    logStudyEvent({
+      kind: 'quiz', id: crypto.randomUUID(), timestamp: attempt.timestamp, noteId, attemptId: attempt.id,
+      durationMs: Math.min(attempt.timestamp - (attempt.startedAt ?? attempt.timestamp), attempt.results.length * MAX_ITEM_MS),
+      results: attempt.results.map(({ question, correct }) => ({ question, correct }))
+    });
+  };
+
+  // Gathers every weak spot in the vault and has the model write fresh
+  // variants of a sample of them; without variants the session still runs.
+  const startPractice = async () => {
+    setView('PRACTICE');
+    setPractice(null);
+    setPracticeNotice(null);
+    const weak = collectWeakSpots(history);
+    const titleOf = (id: string) => history.find(h => h.id === id)?.title || '';
+    const sampled = shuffle<PracticeItem>([...weak.questions, ...weak.cards]).slice(0, MAX_VARIANT_SOURCES);
+    let variants: Extract<PracticeItem, { kind: 'question' }>[] = [];
+    try {
+      const generated = await generateVariantQuestions(createProvider(settings), sampled.map(p => (p.kind === 'question'
+        ? { prompt: p.item.question, answer: p.item.answer, noteTitle: titleOf(p.noteId) }
+        : { prompt: p.card.front, answer: p.card.back, noteTitle: titleOf(p.noteId) })));
+      variants = generated.map(v => {
+        const source = sampled[v.source];
+        const segmentId = source.kind === 'question' ? source.item.segmentId : undefined;
+        return { kind: 'question', noteId: source.noteId, item: { ...v.item, ...(segmentId && { segmentId }) }, variant: true };
+      });
+    } catch (err) {
+      console.error("Failed to generate variant questions:", err);
+      setPracticeNotice("Couldn't write new variant questions this time, so this session only revisits past mistakes.");
+    }
+    setPractice({ items: buildPracticeSession(weak, variants), run: Date.now() });
+  };
+
+  // Practice cards are found again by their front, as cards may have been
+  // edited, removed or reordered since the session began.
+  const gradePracticeCard = (noteId: string, card: Flashcard, grade: ReviewGrade, elapsedMs: number) => {
+    const cardIndex = historyRef.current.find(h => h.id === noteId)?.flashcards
+      ?.findIndex(c => normalize(c.front) === normalize(card.front)) ?? -1;
+    if (cardIndex >= 0) gradeFlashcard(noteId, cardIndex, grade, elapsedMs);
+  };
+
+  // Each note's share of a practice session is saved as one of its quiz attempts.
+  const finishPractice = (results: PracticeResult[]) => {
+    const now = Date.now();
+    [...new Set(results.map(r => r.noteId))].forEach(noteId => {
+      const own = results.filter(r => r.noteId === noteId);
+      const spent = own.reduce((sum, r) => sum + Math.min(r.elapsedMs, MAX_ITEM_MS), 0);
+      recordQuizAttempt(noteId, { id: crypto.randomUUID(), timestamp: now, mode: 'practice', results: own.map(r => r.result), startedAt: now - spent });
+    });
+  };
+
+  const logFocusSession = (noteId: string | undefined, durationMs: number) => {
+    logStudyEvent({ kind: 'focus', id: crypto.randomUUID(), timestamp: Date.now(), durationMs, ...(noteId && { noteId }) });
+  };
+
+  const importCards = async (file: File) => {
+    if (!notes) return;
+    setCardImport(null);
+    try {
+      const imported = /\.apkg$/i.test(file.name) ? await readApkg(file) : parseQuizletExport(await file.text(), file.name);
+      const { flashcards, added, skipped } = mergeImportedCards(notes.flashcards || [], imported);
+      updateNote(commitRevision(notes, { ...notes, flashcards }, 'user', 'Imported cards'));
+      setCardImport({ text: `Imported ${added} cards${skipped > 0 ? `; skipped ${skipped} duplicate or empty ones` : ''}.`, failed: false });
+    } catch (err: any) {
+      setCardImport({ text: err.message, failed: true });
+    }
+  };
+
+  const updateActionItem = (item: ActionItem, changes: Partial<ActionItem>) => {
+    const target = history.find(h => h.id === item.noteId);
+    if (!target) return;
+    const changed = { ...target, actionItems: target.actionItems.map(a => a.id === item.id ? { ...a, ...changes } : a) };
+    // Ticking an item off is not an edit; changing its due date is.
+    updateNote(commitRevision(target, changed, 'user', 'Edited action items'));
+  };
+
+  const exportCalendar = (source: SmartNotes[], filename: string) => {
+    const entries = source.flatMap(n => n.actionItems.map(item => ({ item, noteTitle: n.title })));
+    downloadBlob(new Blob([buildCalendar(entries)], { type: 'text/calendar' }), `${safeFilename(filename)}.ics`);
+  };
+
+  const downloadBackup = () => {
+    const backup = createBackup(history, courses, studyEvents);
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `smartnotes-backup-${backup.exportedAt.slice(0, 10)}.json`);
+  };
+
+  const importBackup = async (file: File) => {
+    setImportError(null);
+    setImportReport(null);
+    try {
+      const incoming = parseBackup(await file.text());
+      const merged = mergeBackup({ notes: history, courses, stats: studyEvents }, incoming, conflictPolicy);
+      if (merged.courses.length > 0) {
+        await putCourses(merged.courses);
+        setCourses(await listCourses());
+      }
+      if (merged.notes.length > 0) {
+        await putNotes(merged.notes);
+        setHistory(await listNotes());
+      }
+      if (merged.stats.length > 0) {
+        await putStudyEvents(merged.stats);
+        setStudyEvents(await listStudyEvents());
+      }
+      setImportReport(merged.report);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  const dueCards = collectDueCards(history);
+  const urgentCount = history.flatMap(n => n.actionItems).filter(a => !a.done && ['overdue', 'today'].includes(dueStatus(a))).length;
+  const searchIndex = useMemo(() => buildSearchIndex(history), [history]);
+  const conceptIndex = useMemo(() => buildConceptIndex(history), [history]);
+  const conceptGraph = useMemo(
+    () => buildConceptGraph(history.filter(h => !conceptCourseId || h.courseId === conceptCourseId), conceptIndex, sharedConceptsOnly ? 2 : 1),
+    [history, conceptIndex, conceptCourseId, sharedConceptsOnly]
+  );
+  const searchResults = useMemo(
+    () => searchNotes(searchIndex, searchQuery, searchFilters),
+    [searchIndex, searchQuery, searchFilters]
+  );
+  // Re-anchored only when the marks or the text they sit in change, not on every selection.
+  const annotations = useMemo(
+    () => (notes ? resolveAnnotations(notes) : []),
+    [notes?.annotations, notes?.summary, notes?.transcription, notes?.segments]
+  );
+
+  // Turns a file into a note and files it in the vault, media included.
+  const analyzeFile = async (file: Blob, onProgress: (progress: ProcessingProgress) => void, signal: AbortSignal) => {
+    const result = await processLectureFile(createProvider(settings), file, settings.deepAnalysis, onProgress, signal);
+    if (file.type.startsWith('audio/') || file.type.startsWith('video/')) {
+      await putMedia(result.id, file).catch(err => console.error("Failed to keep media:", err));
+    }
+    saveToHistory(result);
+    return result;
+  };
+
+  // A recording's saved chunks are kept until its note is in the vault.
+  const processFile = async (file: Blob, recordingId?: string) => {
+    const controller = new AbortController();
+    processingAbortRef.current = controller;
+    lastFileRef.current = { file, recordingId };
     setStatus(AppStatus.PROCESSING);
-    setErrorMessage(null);
+    setProcessingError(null);
+    setProgress(null);
+    try {
+      const result = await analyzeFile(file, setProgress, controller.signal);
+      lastFileRef.current = null;
+      if (recordingId) discardRecording(recordingId);
+      setNotes(result);
+      setStatus(AppStatus.COMPLETED);
+    } catch (err) {
+      const error = toProcessingError(err);
+      if (error.kind === 'cancelled') {
+        setStatus(AppStatus.IDLE);
+      } else {
+        setProcessingError(error);
+        setStatus(AppStatus.ERROR);
+      }
+    } finally {
+      if (processingAbortRef.current === controller) processingAbortRef.current = null;
+    }
+  };
+
+  const cancelProcessing = () => processingAbortRef.current?.abort();
+
+  const changeImport = (id: string, changes: Partial<ImportJob>) => {
+    setImports(prev => prev.map(j => j.id === id ? { ...j, ...changes } : j));
+    updateImportJob(id, changes).catch(err => console.error("Failed to update import:", err));
+  };
+
+  const enqueueFiles = (files: File[], offered: number) => {
+    const skipped = offered - files.length;
+    setImportNotice(skipped > 0 ? `Skipped ${skipped} unsupported ${skipped === 1 ? 'file' : 'files'}.` : null);
+    if (files.length === 0) return;
+    const now = Date.now();
+    const jobs: ImportJob[] = files.map((file, i) => ({
+      id: crypto.randomUUID(),
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      file,
+      status: 'queued',
+      addedAt: now + i,
+      attempts: 0
+    }));
+    setImports(prev => [...prev, ...jobs]);
+    putImportJobs(jobs).catch(err => console.error("Failed to save import queue:", err));
+  };
+
+  const importFromUrl = async () => {
+    const address = importUrl.trim();
+    if (!address || fetchingUrl) return;
+    setFetchingUrl(true);
     try {
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        try {
-          const base64 = (reader.result as string).split(',')[1];
-          const result = await processLectureMedia(base64, file.type, deepAnalysis);
-          setNotes(result);
-          saveToHistory(result);
-          setStatus(AppStatus.COMPLETED);
-        } catch (err: any) {
-          setErrorMessage(err.message);
-          setStatus(AppStatus.ERROR);
+      enqueueFiles([await fetchUrlAsFile(address)], 1);
+      setImportUrl('');
+    } catch (err) {
+      setImportNotice(toProcessingError(err).message);
+    } finally {
+      setFetchingUrl(false);
+    }
+  };
+
+  const runImport = async (job: ImportJob) => {
+    const controller = new AbortController();
+    startedImportsRef.current.add(job.id);
+    importAbortsRef.current.set(job.id, controller);
+    changeImport(job.id, { status: 'uploading', attempts: job.attempts + 1, error: undefined });
+    let processing = false;
+    try {
+      const note = await analyzeFile(job.file!, progress => {
+        setImportProgress(prev => ({ ...prev, [job.id]: progress }));
+        if (!processing && progress.stage !== 'PREPARING') {
+          processing = true;
+          changeImport(job.id, { status: 'processing' });
         }
-      };
-      reader.readAsDataURL(file);
+      }, controller.signal);
+      changeImport(job.id, { status: 'done', noteId: note.id, file: undefined });
+    } catch (err) {
+      changeImport(job.id, { status: 'failed', error: toProcessingError(err).message });
+    } finally {
+      startedImportsRef.current.delete(job.id);
+      importAbortsRef.current.delete(job.id);
+      setImportProgress(({ [job.id]: _, ...rest }) => rest);
+    }
+  };
+
+  const removeImports = (ids: string[]) => {
+    setImports(prev => prev.filter(j => !ids.includes(j.id)));
+    deleteImportJobs(ids).catch(err => console.error("Failed to update import queue:", err));
+  };
+
+  const runSection = async (action: SectionAction) => {
+    if (!notes || sectionBusy) return;
+    setSectionBusy(action);
+    setSectionError(null);
+    try {
+      const apply = await runSectionAction(createProvider(settings), notes, action, settings.deepAnalysis);
+      updateLatestNote(notes.id, current => commitRevision(current, apply(current), 'ai', SECTION_ACTION_LABELS[action]));
     } catch (err: any) {
-      setErrorMessage(err.message);
-      setStatus(AppStatus.ERROR);
+      console.error("Section action failed:", err);
+      setSectionError(`${SECTION_ACTION_LABELS[action]} failed: ${err.message}`);
+    } finally {
+      setSectionBusy(null);
     }
   };
 
+  const askQuestion = async (question: string) => {
+    if (!notes) return;
+    const target = notes;
+    const asked: ChatMessage = { id: crypto.randomUUID(), role: 'user', text: question, timestamp: Date.now() };
+    const reply = await askAboutNote(createProvider(settings), target, target.chat || [], question, settings.deepAnalysis);
+    updateLatestNote(target.id, current => ({ ...current, chat: [...(current.chat || []), asked, reply] }));
+  };
+
   const startRecording = async () => {
+    const id = crypto.randomUUID();
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mr = new MediaRecorder(stream);
-      mediaRecorderRef.current = mr;
-      audioChunksRef.current = [];
-      mr.ondataavailable = e => audioChunksRef.current.push(e.data);
-      mr.onstop = () => processFile(new Blob(audioChunksRef.current, { type: 'audio/wav' }));
-      mr.start();
-      setIsRecording(true);
+      const recorder = await startAudioRecorder((chunk, sequence, elapsedMs) => {
+        appendRecordingChunk(id, sequence, chunk, elapsedMs).catch(err => console.error("Failed to save recording chunk:", err));
+      });
+      const now = Date.now();
+      putRecording({ id, mimeType: recorder.mimeType, startedAt: now, updatedAt: now, durationMs: 0 })
+        .catch(err => console.error("Failed to save recording:", err));
+      setRecording({ id, recorder });
       setStatus(AppStatus.RECORDING);
-    } catch (e) { setErrorMessage("Mic error"); }
+    } catch (err) {
+      console.error("Microphone error:", err);
+      setProcessingError(new ProcessingError('unknown', "Could not access the microphone. Allow microphone access for this site and try again."));
+      setStatus(AppStatus.ERROR);
+    }
+  };
+
+  const stopRecording = async () => {
+    if (!recording) return;
+    setRecording(null);
+    const audio = await recording.recorder.stop();
+    processFile(audio, recording.id);
+  };
+
+  const discardRecording = (id: string) => {
+    setInterruptedRecordings(prev => prev.filter(r => r.id !== id));
+    deleteRecording(id).catch(err => console.error("Failed to delete recording:", err));
+  };
+
+  const cancelRecording = async () => {
+    if (!recording || !confirm("Discard this recording? The audio will be deleted.")) return;
+    setRecording(null);
+    setStatus(AppStatus.IDLE);
+    await recording.recorder.stop().catch(() => undefined);
+    discardRecording(recording.id);
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
+  const recoverRecording = async (session: RecordingSession, action: 'process' | 'download') => {
+    try {
+      const audio = await loadRecordingAudio(session);
+      if (action === 'download') {
+        const extension = session.mimeType.split('/')[1] || 'webm';
+        downloadBlob(audio, `recording-${toISODate(new Date(session.startedAt))}.${extension}`);
+      } else {
+        setInterruptedRecordings(prev => prev.filter(r => r.id !== session.id));
+        processFile(audio, session.id);
+      }
+    } catch (err) {
+      console.error("Failed to recover recording:", err);
     }
-    setIsRecording(false);
   };
 
   const copyAsMarkdown = () => {
     if (!notes) return;
-    const md = `# ${notes.title}\n\n## Summary\n${notes.summary}\n\n## Concepts\n${notes.keyConcepts.join('\n')}\n\n## Actions\n${notes.actionItems.join('\n')}`;
-    navigator.clipboard.writeText(md);
+    navigator.clipboard.writeText(noteToMarkdown(notes, courses.find(c => c.id === notes.courseId)));
+  };
+
+  const downloadNotes = (selected: SmartNotes[], format: NoteExportFormat) => {
+    if (selected.length === 0) return;
+    const { blob, filename } = exportNotes(selected, format, courses);
+    downloadBlob(blob, filename);
   };
 
   // --- Views ---
@@ -257,15 +793,29 @@ const App: React.FC = () => {
       </div>
 
       <div className="flex flex-col md:flex-row gap-6 justify-center">
-        <div className="w-full max-w-xs group relative">
-          <input type="file" accept="audio/*,video/mp4,application/pdf" onChange={e => e.target.files?.[0] && processFile(e.target.files[0])} className="absolute inset-0 opacity-0 cursor-pointer z-10" />
+        <div
+          className="w-full max-w-xs group relative"
+          onDragOver={e => e.preventDefault()}
+          onDrop={e => {
+            e.preventDefault();
+            const offered = e.dataTransfer.files.length;
+            collectDroppedFiles(e.dataTransfer)
+              .then(files => enqueueFiles(files, Math.max(offered, files.length)))
+              .catch(err => console.error("Failed to read dropped files:", err));
+          }}
+        >
+          <input type="file" multiple accept={IMPORT_ACCEPT} onChange={e => { const list = e.target.files; if (list) enqueueFiles(selectedFiles(list), list.length); e.target.value = ''; }} className="absolute inset-0 opacity-0 cursor-pointer z-10" />
           <div className="p-8 border-2 border-dashed border-slate-200 bg-white rounded-3xl flex flex-col items-center gap-4 transition-all group-hover:border-indigo-400 group-hover:shadow-lg">
             <div className="text-4xl">📄</div>
             <div className="text-center">
               <p className="font-bold text-slate-800">Import Content</p>
-              <p className="text-xs text-slate-400">Audio, Video, PDF</p>
+              <p className="text-xs text-slate-400">Audio, video, PDF, slides, Word, images, text or subtitles — drop files or a whole folder</p>
             </div>
           </div>
+          <label className="absolute -bottom-7 inset-x-0 z-20 text-center text-xs font-bold text-indigo-600 cursor-pointer hover:underline">
+            or choose a folder…
+            <input type="file" multiple webkitdirectory="" onChange={e => { const list = e.target.files; if (list) enqueueFiles(selectedFiles(list), list.length); e.target.value = ''; }} className="hidden" />
+          </label>
         </div>
         <button onClick={startRecording} className="w-full max-w-xs p-8 bg-white border-2 border-slate-200 rounded-3xl flex flex-col items-center gap-4 hover:border-red-400 hover:shadow-lg transition-all">
           <div className="text-4xl">🎙️</div>
@@ -275,13 +825,45 @@ const App: React.FC = () => {
           </div>
         </button>
       </div>
+      <form onSubmit={e => { e.preventDefault(); importFromUrl(); }} className="max-w-md mx-auto flex gap-2 pt-4">
+        <input
+          type="text"
+          inputMode="url"
+          value={importUrl}
+          onChange={e => setImportUrl(e.target.value)}
+          placeholder="…or paste a link to a web page or file"
+          className="flex-1 px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-indigo-400"
+        />
+        <button type="submit" disabled={!importUrl.trim() || fetchingUrl} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 disabled:opacity-50">
+          {fetchingUrl ? 'Fetching…' : 'Import'}
+        </button>
+      </form>
+      {importNotice && <p className="text-center text-xs text-amber-600">{importNotice}</p>}
+
+      {interruptedRecordings.length > 0 && (
+        <div className="max-w-2xl mx-auto space-y-2">
+          {interruptedRecordings.map(r => (
+            <div key={r.id} className="p-4 bg-amber-50 border border-amber-100 rounded-2xl flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-[12rem]">
+                <p className="text-sm font-bold text-amber-900">Unprocessed recording found</p>
+                <p className="text-xs text-amber-700">
+                  Started {new Date(r.startedAt).toLocaleString()} · {formatTimestamp(r.durationMs / 1000)} saved
+                </p>
+              </div>
+              <button onClick={() => recoverRecording(r, 'process')} className="px-4 py-2 bg-amber-600 text-white rounded-xl text-xs font-bold hover:bg-amber-700">Process</button>
+              <button onClick={() => recoverRecording(r, 'download')} className="px-3 py-2 text-xs font-bold text-amber-700 hover:underline">Download</button>
+              <button onClick={() => { if (confirm("Delete this recording?")) discardRecording(r.id); }} className="px-3 py-2 text-xs font-bold text-slate-400 hover:text-red-500">Discard</button>
+            </div>
+          ))}
+        </div>
+      )}
 
       {history.length > 0 && (
         <div className="pt-12">
           <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-6">Recent Activity</h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
             {history.slice(0, 4).map(h => (
-              <div key={h.id} onClick={() => { setNotes(h); setStatus(AppStatus.COMPLETED); }} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md cursor-pointer transition-all">
+              <div key={h.id} onClick={() => openNote(h)} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md cursor-pointer transition-all">
                 <p className="text-xs text-slate-400 mb-1">{new Date(h.timestamp).toLocaleDateString()}</p>
                 <h4 className="font-bold text-slate-800 line-clamp-1">{h.title}</h4>
               </div>
@@ -292,32 +874,165 @@ const App: React.FC = () => {
     </div>
   );
 
-  const renderHistory = () => (
-    <div className="space-y-6 animate-in slide-in-from-left-4">
-      <div className="flex justify-between items-center">
-        <h2 className="text-3xl font-black text-slate-900">Your Vault</h2>
-        <button onClick={() => { localStorage.removeItem('smart_notes_v2'); setHistory([]); }} className="text-xs text-red-500 font-bold hover:underline">Reset All</button>
-      </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {history.map(h => (
-          <div key={h.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex justify-between items-center shadow-sm">
-            <div>
-              <p className="text-xs text-indigo-600 font-bold">{new Date(h.timestamp).toDateString()}</p>
-              <h4 className="text-lg font-bold text-slate-800">{h.title}</h4>
+  const openNote = (note: SmartNotes) => {
+    setNotes(note);
+    setStatus(AppStatus.COMPLETED);
+  };
+
+  const openNoteAt = (note: SmartNotes, segmentId?: string) => {
+    const focus = segmentId ? { segmentId } : null;
+    if (note.id === notes?.id) setSegmentFocus(focus);
+    else pendingSegmentRef.current = focus;
+    openNote(note);
+    setView('HOME');
+  };
+
+  const openConcept = (key: string) => {
+    setOpenConceptKey(key);
+    setView('CONCEPTS');
+  };
+
+  const renderHistory = () => {
+    const activeCourse = courses.find(c => c.id === searchFilters.courseId);
+    const courseFilters: { id?: string; label: string; count: number }[] = [
+      { id: undefined, label: 'All notes', count: history.length },
+      ...courses.map(c => ({ id: c.id, label: c.name, count: history.filter(h => h.courseId === c.id).length })),
+      { id: UNFILED_COURSE, label: 'Unfiled', count: history.filter(h => !h.courseId).length }
+    ];
+    return (
+      <div className="space-y-6 animate-in slide-in-from-left-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-3xl font-black text-slate-900">Your Vault</h2>
+          <button onClick={resetVault} className="text-xs text-red-500 font-bold hover:underline">Reset All</button>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <aside className="space-y-2">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Courses</h3>
+            {courseFilters.map(f => (
+              <button
+                key={f.id || 'all'}
+                onClick={() => setSearchFilters(prev => ({ ...prev, courseId: f.id }))}
+                className={`w-full flex justify-between px-4 py-2 rounded-xl text-sm text-left transition-colors ${searchFilters.courseId === f.id ? 'bg-indigo-600 text-white font-bold' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                <span className="truncate">{f.id && f.id !== UNFILED_COURSE ? '📁 ' : ''}{f.label}</span>
+                <span className="opacity-60">{f.count}</span>
+              </button>
+            ))}
+            <form onSubmit={e => { e.preventDefault(); createCourse(); }} className="flex gap-1 pt-2">
+              <input
+                value={newCourseName}
+                onChange={e => setNewCourseName(e.target.value)}
+                placeholder="New course"
+                className="flex-1 min-w-0 px-3 py-2 bg-white border border-slate-100 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <button type="submit" disabled={!newCourseName.trim()} className="px-3 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-sm font-bold disabled:opacity-40">+</button>
+            </form>
+          </aside>
+          <div className="lg:col-span-3 space-y-6">
+            {activeCourse && (
+              <CourseView
+                course={activeCourse}
+                notes={history.filter(h => h.courseId === activeCourse.id)}
+                isSynthesizing={synthesizingCourseId === activeCourse.id}
+                error={courseError}
+                onSynthesize={() => buildCourseSynthesis(activeCourse)}
+                onChange={saveCourse}
+                onDelete={() => removeCourse(activeCourse)}
+                onOpenNote={openNote}
+              />
+            )}
+            <div className="p-4 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-3">
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+                placeholder="Search titles, summaries, concepts, to-dos and transcripts..."
+                className="w-full px-4 py-3 bg-slate-50 rounded-2xl text-sm outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <label className="flex items-center gap-1 text-slate-400">
+                  From
+                  <input type="date" value={searchFilters.from || ''} onChange={e => setSearchFilters(f => ({ ...f, from: e.target.value || undefined }))} className="px-2 py-1 bg-slate-50 rounded-lg text-slate-600" />
+                </label>
+                <label className="flex items-center gap-1 text-slate-400">
+                  To
+                  <input type="date" value={searchFilters.to || ''} onChange={e => setSearchFilters(f => ({ ...f, to: e.target.value || undefined }))} className="px-2 py-1 bg-slate-50 rounded-lg text-slate-600" />
+                </label>
+                {([['hasQuiz', 'Has quiz'], ['hasFlashcards', 'Has flashcards'], ['hasSources', 'Has sources']] as [keyof SearchFilters, string][]).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => setSearchFilters(f => ({ ...f, [key]: !f[key] || undefined }))}
+                    className={`px-3 py-1 rounded-full font-bold transition-colors ${searchFilters[key] ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                <span className="ml-auto text-slate-400">{searchResults.length} of {history.length} notes</span>
+                <button
+                  onClick={() => downloadNotes(searchResults.map(r => r.note), 'markdown')}
+                  disabled={searchResults.length === 0}
+                  title="One Markdown file per note, foldered by course, for an Obsidian vault"
+                  className="font-bold text-indigo-600 hover:text-indigo-800 disabled:opacity-40"
+                >
+                  ⇩ Obsidian (.zip)
+                </button>
+                <button
+                  onClick={() => downloadNotes(searchResults.map(r => r.note), 'html')}
+                  disabled={searchResults.length === 0}
+                  className="font-bold text-indigo-600 hover:text-indigo-800 disabled:opacity-40"
+                >
+                  ⇩ HTML
+                </button>
+              </div>
             </div>
-            <div className="flex gap-2">
-              <button onClick={() => { setNotes(h); setStatus(AppStatus.COMPLETED); }} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-bold text-sm">Review</button>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {searchResults.map(({ note: h, snippet }) => (
+                <div key={h.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex justify-between items-center gap-4 shadow-sm">
+                  <div className="min-w-0">
+                    <p className="text-xs text-indigo-600 font-bold">{new Date(h.timestamp).toDateString()}</p>
+                    <h4 className="text-lg font-bold text-slate-800">{h.title}</h4>
+                    {h.tags && h.tags.length > 0 && (
+                      <p className="text-[10px] text-slate-400">{h.tags.map(t => `#${t}`).join(' ')}</p>
+                    )}
+                    {snippet && (
+                      <p className="text-xs text-slate-500 mt-2 line-clamp-3">
+                        <span className="font-bold text-slate-400 uppercase mr-1">{SEARCH_FIELD_LABELS[snippet.field]}</span>
+                        <HighlightedText text={snippet.text} highlights={snippet.highlights} />
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-2 shrink-0">
+                    <div className="flex gap-2">
+                      <button onClick={() => openNote(h)} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-bold text-sm">Review</button>
+                      <button onClick={() => confirm(`Delete "${h.title}"?`) && removeNote(h.id)} className="px-3 py-2 text-slate-300 hover:text-red-500 rounded-xl text-sm">✕</button>
+                    </div>
+                    {courses.length > 0 && (
+                      <select
+                        value={h.courseId || ''}
+                        onChange={e => updateNote({ ...h, courseId: e.target.value || undefined })}
+                        className="max-w-[10rem] text-xs bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-slate-500"
+                      >
+                        <option value="">No course</option>
+                        {courses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                      </select>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {searchResults.length === 0 && (
+                <p className="text-sm text-slate-400 italic">{history.length === 0 ? 'Your vault is empty.' : 'No notes match your search.'}</p>
+              )}
             </div>
           </div>
-        ))}
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   const renderResources = () => (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-8 animate-in fade-in">
       <div className="md:col-span-1 space-y-6">
-        <PomodoroTimer />
+        <PomodoroTimer notes={history} defaultNoteId={notes?.id} onFocusComplete={logFocusSession} />
         <div className="p-6 bg-white border border-slate-100 rounded-3xl space-y-4 shadow-sm">
           <h4 className="font-bold text-slate-800">Study Tip</h4>
           <p className="text-sm text-slate-500 leading-relaxed">Try the <strong>Feynman Technique</strong>: Explain your lecture notes to someone else in simple terms. If you get stuck, re-read that section.</p>
@@ -327,13 +1042,16 @@ const App: React.FC = () => {
         <h2 className="text-3xl font-black text-slate-900">Learning Toolkit</h2>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
           {[
-            { title: "Zettelkasten Method", desc: "Link notes together to form a web of knowledge.", color: "bg-amber-100 text-amber-800" },
+            { title: "Zettelkasten Method", desc: "Link notes together to form a web of knowledge.", color: "bg-amber-100 text-amber-800", action: { label: "Explore the concept map →", view: 'CONCEPTS' as PageView } },
             { title: "Spaced Repetition", desc: "Review notes at 1, 3, and 7-day intervals.", color: "bg-green-100 text-green-800" },
             { title: "Active Recall", desc: "Use the built-in AI Quiz to test your memory.", color: "bg-blue-100 text-blue-800" }
           ].map(tool => (
             <div key={tool.title} className="p-6 bg-white border border-slate-100 rounded-3xl space-y-2">
               <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${tool.color}`}>{tool.title}</span>
               <p className="text-sm text-slate-500">{tool.desc}</p>
+              {tool.action && (
+                <button onClick={() => { setOpenConceptKey(null); setView(tool.action.view); }} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">{tool.action.label}</button>
+              )}
             </div>
           ))}
         </div>
@@ -345,19 +1063,79 @@ const App: React.FC = () => {
     <div className="max-w-xl mx-auto py-10 space-y-8 animate-in slide-in-from-bottom-4">
       <h2 className="text-3xl font-bold text-slate-900">Preferences</h2>
       <div className="bg-white p-8 rounded-3xl border border-slate-100 space-y-6 shadow-sm">
-        <div className="flex items-center justify-between">
+        <div className="space-y-3">
           <div>
-            <h4 className="font-bold text-slate-800">Advanced AI (Gemini Pro)</h4>
+            <h4 className="font-bold text-slate-800">AI Provider</h4>
+            <p className="text-sm text-slate-500">Which backend turns your materials into notes.</p>
+          </div>
+          <select
+            value={settings.provider}
+            onChange={e => updateSettings({ provider: e.target.value as ProviderId })}
+            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700"
+          >
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+              <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+          {settings.provider === 'openai' && (
+            <div className="grid grid-cols-1 gap-2">
+              {([['baseUrl', 'Base URL', 'text'], ['model', 'Model', 'text'], ['apiKey', 'API key (optional)', 'password']] as const).map(([key, label, type]) => (
+                <label key={key} className="text-xs font-bold text-slate-400">
+                  {label}
+                  <input
+                    type={type}
+                    value={settings.openAI[key]}
+                    onChange={e => updateSettings({ openAI: { ...settings.openAI, [key]: e.target.value } })}
+                    className="mt-1 w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-normal text-slate-700"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          {settings.provider === 'mock' && (
+            <p className="text-xs text-amber-700 bg-amber-50 rounded-xl p-3">Returns fixed sample notes without any network access. Useful for development.</p>
+          )}
+        </div>
+        <div className="flex items-center justify-between pt-6 border-t border-slate-100">
+          <div>
+            <h4 className="font-bold text-slate-800">Advanced AI (Deep Analysis)</h4>
             <p className="text-sm text-slate-500">More detailed summaries and complex quizzes.</p>
           </div>
-          <button onClick={() => setDeepAnalysis(!deepAnalysis)} className={`w-12 h-6 rounded-full transition-all relative ${deepAnalysis ? 'bg-indigo-600' : 'bg-slate-200'}`}>
-            <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-all ${deepAnalysis ? 'translate-x-6' : ''}`} />
+          <button onClick={() => updateSettings({ deepAnalysis: !settings.deepAnalysis })} className={`w-12 h-6 rounded-full transition-all relative ${settings.deepAnalysis ? 'bg-indigo-600' : 'bg-slate-200'}`}>
+            <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-all ${settings.deepAnalysis ? 'translate-x-6' : ''}`} />
           </button>
         </div>
         <div className="pt-6 border-t border-slate-100">
           <h4 className="font-bold text-slate-800 mb-2">Browser Storage</h4>
           <p className="text-sm text-slate-500 mb-4">Everything is stored locally on this machine.</p>
-          <button onClick={() => alert("Backup coming soon!")} className="text-sm text-indigo-600 font-bold">Download Backup (.json)</button>
+          <div className="flex flex-wrap items-center gap-4">
+            <button onClick={downloadBackup} className="text-sm text-indigo-600 font-bold">Download Backup (.json)</button>
+            <label className="text-sm text-indigo-600 font-bold cursor-pointer">
+              Restore from Backup
+              <input type="file" accept="application/json,.json" onChange={e => { const f = e.target.files?.[0]; e.target.value = ''; if (f) importBackup(f); }} className="hidden" />
+            </label>
+            <select value={conflictPolicy} onChange={e => setConflictPolicy(e.target.value as ConflictPolicy)} className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-slate-600">
+              <option value="keep-newer">On conflict: keep newer</option>
+              <option value="keep-both">On conflict: keep both</option>
+              <option value="overwrite">On conflict: overwrite</option>
+            </select>
+          </div>
+          {importError && <p className="mt-4 text-sm text-red-600">{importError}</p>}
+          {importReport && (
+            <div className="mt-4 p-4 bg-slate-50 rounded-2xl space-y-2">
+              <p className="text-xs font-bold text-slate-500">
+                {(['added', 'updated', 'skipped', 'rejected'] as const).map(o => `${importReport.filter(r => r.outcome === o).length} ${o}`).join(' • ')}
+              </p>
+              <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+                {importReport.map((r, i) => (
+                  <li key={i} className="flex gap-2">
+                    <span className={`font-bold uppercase w-16 shrink-0 ${r.outcome === 'rejected' ? 'text-red-500' : r.outcome === 'skipped' ? 'text-slate-400' : 'text-green-600'}`}>{r.outcome}</span>
+                    <span className="text-slate-600 truncate">{r.kind === 'course' && '📁 '}{r.kind === 'stats' && '📊 '}{r.title}{r.reason && <span className="text-slate-400"> — {r.reason}</span>}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -387,60 +1165,478 @@ const App: React.FC = () => {
 
         <div className="bg-white p-12 rounded-[40px] border border-slate-100 shadow-xl">
           {studyTab === 'QUIZ' ? (
-            <QuizComponent quiz={notes.quiz || []} />
+            <QuizComponent
+              quiz={notes.quiz || []}
+              attempts={notes.quizAttempts}
+              onComplete={attempt => recordQuizAttempt(notes.id, attempt)}
+              gradeShortAnswer={(item, response) => gradeShortAnswer(createProvider(settings), item, response)}
+              onShowSource={notes.segments ? (segmentId => { setView('HOME'); setSegmentFocus({ segmentId }); }) : undefined}
+            />
           ) : (
-            <FlashcardsComponent flashcards={notes.flashcards || []} />
+            <FlashcardsComponent
+              flashcards={notes.flashcards || []}
+              onGrade={(cardIndex, grade, elapsedMs) => gradeFlashcard(notes.id, cardIndex, grade, elapsedMs)}
+            />
           )}
         </div>
       </div>
     );
   };
 
+  const practiceButton = () => {
+    const { questions, cards } = collectWeakSpots(history);
+    return (
+      <button
+        onClick={startPractice}
+        disabled={questions.length + cards.length === 0}
+        title="Questions you got wrong and cards you found hard, plus new variants of them"
+        className="px-4 py-2 bg-violet-600 text-white rounded-xl text-xs font-bold hover:bg-violet-700 disabled:opacity-40"
+      >
+        🎯 Practise weak spots ({questions.length + cards.length})
+      </button>
+    );
+  };
+
+  const renderPractice = () => (
+    <div className="max-w-4xl mx-auto space-y-8 py-6 animate-in fade-in">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900">Weak Spots</h2>
+          <p className="text-slate-500 text-sm">Past mistakes and hard cards from across your vault, mixed with fresh questions on the same ideas.</p>
+        </div>
+        <button onClick={() => setView('REVIEW')} className="text-slate-400 hover:text-indigo-600 font-bold text-sm">← Back to Review</button>
+      </div>
+      {practiceNotice && <p className="p-4 bg-amber-50 text-amber-800 rounded-2xl text-sm">{practiceNotice}</p>}
+      <div className="bg-white p-12 rounded-[40px] border border-slate-100 shadow-xl">
+        {practice ? (
+          <div key={practice.run}>
+            <PracticeSession
+              items={practice.items}
+              noteTitle={id => history.find(h => h.id === id)?.title || 'Removed lecture'}
+              gradeShortAnswer={(item, response) => gradeShortAnswer(createProvider(settings), item, response)}
+              onShowSource={(noteId, segmentId) => {
+                const note = history.find(h => h.id === noteId);
+                if (note) openNoteAt(note, segmentId);
+              }}
+              onGradeCard={gradePracticeCard}
+              onComplete={finishPractice}
+              onRestart={startPractice}
+            />
+          </div>
+        ) : (
+          <div className="text-center py-12 space-y-3">
+            <div className="w-10 h-10 mx-auto border-4 border-violet-200 border-t-violet-600 rounded-full animate-spin" />
+            <p className="text-sm text-slate-500">Writing fresh questions on the topics you've found hardest…</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderReview = () => (
+    <div className="max-w-4xl mx-auto space-y-8 py-6 animate-in fade-in">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900">Due Today</h2>
+          <p className="text-slate-500 text-sm">Spaced-repetition review across every note in your vault.</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{dueCards.length} due</span>
+          {practiceButton()}
+        </div>
+      </div>
+      <div className="bg-white p-12 rounded-[40px] border border-slate-100 shadow-xl">
+        <ReviewDeck
+          dueCards={dueCards}
+          onGrade={(due: DueCard, grade: ReviewGrade, elapsedMs: number) => gradeFlashcard(due.noteId, due.cardIndex, grade, elapsedMs)}
+        />
+      </div>
+    </div>
+  );
+
+  const renderAssignments = () => {
+    const datedCount = history.flatMap(n => n.actionItems).filter(a => a.due && !a.done).length;
+    return (
+      <div className="max-w-4xl mx-auto space-y-8 py-6 animate-in fade-in">
+        <div className="flex justify-between items-end">
+          <div>
+            <h2 className="text-3xl font-black text-slate-900">Assignments</h2>
+            <p className="text-slate-500 text-sm">Homework, readings and deadlines from every lecture, soonest first.</p>
+          </div>
+          <button
+            onClick={() => exportCalendar(history, `smartnotes-assignments-${toISODate(new Date())}`)}
+            disabled={datedCount === 0}
+            title="Dated, unfinished items as all-day calendar events"
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 disabled:opacity-40"
+          >
+            📅 Export to Calendar (.ics)
+          </button>
+        </div>
+        <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-xl">
+          <AssignmentList
+            notes={history}
+            onChange={updateActionItem}
+            onOpenNote={id => {
+              const note = history.find(h => h.id === id);
+              if (note) { openNote(note); setView('HOME'); }
+            }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderStats = () => (
+    <div className="space-y-8 py-6 animate-in fade-in">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900">Stats</h2>
+          <p className="text-slate-500 text-sm">How your quizzes, flashcard reviews and focus sessions are going, and what to revisit next.</p>
+        </div>
+        {practiceButton()}
+      </div>
+      <StatsDashboard
+        events={studyEvents}
+        notes={history}
+        conceptIndex={conceptIndex}
+        onOpenNote={note => openNoteAt(note)}
+        onOpenConcept={openConcept}
+      />
+    </div>
+  );
+
+  const renderConcepts = () => {
+    const concept = openConceptKey ? conceptIndex.get(openConceptKey) : undefined;
+    if (concept) {
+      return (
+        <ConceptPage
+          concept={concept}
+          notes={history}
+          courses={courses}
+          related={relatedConcepts(concept.key, history, conceptIndex)}
+          onOpenMention={openNoteAt}
+          onOpenConcept={setOpenConceptKey}
+          onBack={() => setOpenConceptKey(null)}
+        />
+      );
+    }
+    const query = conceptQuery.trim().toLowerCase();
+    const listed = [...conceptIndex.values()]
+      .filter(c => !query || c.term.toLowerCase().includes(query) || c.definition.toLowerCase().includes(query))
+      .sort((a, b) => b.mentions.length - a.mentions.length || a.term.localeCompare(b.term));
+    return (
+      <div className="space-y-8 py-6 animate-in fade-in">
+        <div className="flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h2 className="text-3xl font-black text-slate-900">Concepts</h2>
+            <p className="text-slate-500 text-sm">Every key term across your lectures, linked to where it comes up.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <select
+              value={conceptCourseId || ''}
+              onChange={e => setConceptCourseId(e.target.value || undefined)}
+              className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-slate-600"
+            >
+              <option value="">All courses</option>
+              {courses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+              <input type="checkbox" checked={sharedConceptsOnly} onChange={e => setSharedConceptsOnly(e.target.checked)} />
+              Shared concepts only
+            </label>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <div className="lg:col-span-3 bg-white p-4 rounded-[40px] border border-slate-100 shadow-xl">
+            <KnowledgeGraph
+              graph={conceptGraph}
+              onOpenConcept={setOpenConceptKey}
+              onOpenNote={id => {
+                const note = history.find(h => h.id === id);
+                if (note) openNoteAt(note);
+              }}
+            />
+          </div>
+          <div className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+            <input
+              value={conceptQuery}
+              onChange={e => setConceptQuery(e.target.value)}
+              placeholder={`Search ${conceptIndex.size} concepts`}
+              className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 focus:outline-none focus:border-indigo-400"
+            />
+            <ul className="max-h-[32rem] overflow-y-auto space-y-1 pr-1">
+              {listed.map(c => (
+                <li key={c.key}>
+                  <button onClick={() => setOpenConceptKey(c.key)} className="w-full flex justify-between gap-2 px-3 py-2 rounded-xl text-left text-sm hover:bg-slate-50">
+                    <span className="font-medium text-slate-700 truncate">{c.term}</span>
+                    <span className="shrink-0 text-[10px] font-bold text-slate-400">{c.mentions.length}</span>
+                  </button>
+                </li>
+              ))}
+              {listed.length === 0 && <li className="text-xs text-slate-400 italic">No matching concepts.</li>}
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const renderCompleted = () => {
     if (!notes) return null;
+    const course = courses.find(c => c.id === notes.courseId);
+    const authors = fieldAuthors(notes);
+    const related = relatedNotes(notes, history, conceptIndex);
+    const marksFor = (target: AnnotationTarget): TextMark[] => annotations
+      .filter(a => a.annotation.target === target && a.range)
+      .map(a => ({ ...a.range!, annotationId: a.annotation.id, note: a.annotation.note, active: a.annotation.id === activeAnnotationId }));
+    const editButton = (onClick: () => void, label: string = '✎ Edit') => (
+      <button onClick={onClick} className="text-xs font-bold text-slate-400 hover:text-indigo-600">{label}</button>
+    );
+    const sectionButton = (action: SectionAction, label: string = SECTION_ACTION_LABELS[action]) => (
+      <button
+        onClick={() => runSection(action)}
+        disabled={sectionBusy !== null || !notes.transcription}
+        className="text-xs font-bold text-indigo-600 hover:text-indigo-800 disabled:opacity-40"
+      >
+        {sectionBusy === action ? 'Working…' : label}
+      </button>
+    );
     return (
       <div className="space-y-8 animate-in fade-in">
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 pb-6 border-b border-slate-200">
           <div>
             <span className="text-[10px] font-black uppercase text-indigo-500 tracking-widest">Analysis Result</span>
-            <h2 className="text-3xl font-black text-slate-900">{notes.title}</h2>
+            <EditableText value={notes.title} onSave={title => editNote({ title })}>
+              <h2 className="text-3xl font-black text-slate-900">
+                {notes.title} {authors.title === 'user' && <EditedBadge />}
+              </h2>
+            </EditableText>
+            <div className="flex flex-wrap items-center gap-3 mt-2">
+              <select
+                value={notes.courseId || ''}
+                onChange={e => updateNote({ ...notes, courseId: e.target.value || undefined })}
+                className="text-xs bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-slate-500"
+              >
+                <option value="">No course</option>
+                {courses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <TagEditor tags={notes.tags || []} onChange={tags => updateNote({ ...notes, tags })} />
+            </div>
           </div>
           <div className="flex gap-2">
-            <button onClick={() => generatePDF(notes)} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-bold shadow-lg hover:bg-black transition-colors">PDF Export</button>
-            <button onClick={copyAsMarkdown} className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-sm font-bold hover:bg-slate-50">Markdown</button>
+            <button onClick={() => setShowPdfExport(true)} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-bold shadow-lg hover:bg-black transition-colors">PDF Export</button>
+            {showPdfExport && <PdfExportDialog note={notes} course={course} onClose={() => setShowPdfExport(false)} />}
+            <details className="relative">
+              <summary className="list-none cursor-pointer px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-sm font-bold hover:bg-slate-50">Export ▾</summary>
+              <div className="absolute right-0 mt-2 w-56 bg-white border border-slate-100 rounded-2xl shadow-xl p-2 z-20 flex flex-col text-sm">
+                <button onClick={copyAsMarkdown} className="px-3 py-2 text-left rounded-xl hover:bg-slate-50">Copy as Markdown</button>
+                <button onClick={() => downloadNotes([notes], 'markdown')} className="px-3 py-2 text-left rounded-xl hover:bg-slate-50">Markdown / Obsidian (.md)</button>
+                <button onClick={() => downloadNotes([notes], 'html')} className="px-3 py-2 text-left rounded-xl hover:bg-slate-50">Web page (.html)</button>
+              </div>
+            </details>
+            <button onClick={() => setShowRevisions(true)} className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-sm font-bold hover:bg-slate-50">History</button>
+            {showRevisions && <RevisionHistory note={notes} onRestore={restoreRevision} onClose={() => setShowRevisions(false)} />}
             <button onClick={() => setView('STUDY_MODE')} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold shadow-lg hover:bg-indigo-700">Study Mode</button>
             <button onClick={() => setStatus(AppStatus.IDLE)} className="px-4 py-2 text-slate-400 hover:text-slate-600">✕</button>
           </div>
         </div>
 
+        {sectionError && (
+          <div className="p-4 bg-red-50 border border-red-100 rounded-2xl text-sm text-red-700 flex justify-between">
+            <span>{sectionError}</span>
+            <button onClick={() => setSectionError(null)} className="font-bold">✕</button>
+          </div>
+        )}
+
+        {notes.warnings && notes.warnings.length > 0 && (
+          <details className="p-4 bg-amber-50 border border-amber-100 rounded-2xl text-sm text-amber-800">
+            <summary className="font-bold cursor-pointer">⚠️ {notes.warnings.length} issue{notes.warnings.length === 1 ? '' : 's'} in the AI output were repaired or removed</summary>
+            <ul className="mt-2 space-y-1 list-disc list-inside text-xs">
+              {notes.warnings.map((w, i) => <li key={i}>{w}</li>)}
+            </ul>
+          </details>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          <div className="lg:col-span-2 space-y-8">
+          <div className="lg:col-span-2 space-y-8" onMouseUp={() => setTextSelection(readTextSelection())}>
             <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm hover:shadow-md transition-shadow">
-              <h3 className="text-xl font-bold text-slate-800 mb-4">Lecture Summary</h3>
-              <p className="text-slate-600 leading-relaxed whitespace-pre-line">{notes.summary}</p>
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">Lecture Summary {authors.summary === 'user' && <EditedBadge />}</h3>
+                {sectionButton('REGENERATE_SUMMARY', '↻ Regenerate')}
+              </div>
+              <EditableText value={notes.summary} onSave={summary => editNote({ summary })} multiline>
+                <p data-annotation-target="summary" className="text-slate-600 leading-relaxed whitespace-pre-line">
+                  <AnnotatedText text={notes.summary} marks={marksFor('summary')} onMarkClick={setActiveAnnotationId} />
+                </p>
+              </EditableText>
             </section>
             <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
               <h3 className="text-xl font-bold text-slate-800 mb-4">Full Content Extract</h3>
-              <div className="bg-slate-50 p-6 rounded-2xl h-80 overflow-y-auto text-sm text-slate-500 font-mono leading-relaxed">{notes.transcription}</div>
+              {notes.segments && notes.segments.length > 0 ? (
+                <div data-annotation-target="transcription">
+                  <TranscriptPlayer
+                    segments={notes.segments}
+                    mediaUrl={mediaUrl}
+                    mediaType={notes.mediaType}
+                    highlight={transcriptFocus}
+                    focus={segmentFocus}
+                    marks={marksFor('transcription')}
+                    onMarkClick={setActiveAnnotationId}
+                  />
+                </div>
+              ) : (
+                <div ref={transcriptRef} data-annotation-target="transcription" className="bg-slate-50 p-6 rounded-2xl h-80 overflow-y-auto text-sm text-slate-500 font-mono leading-relaxed">
+                  <AnnotatedText
+                    text={notes.transcription}
+                    marks={[...marksFor('transcription'), ...(transcriptFocus ? [{ ...transcriptFocus, focus: true }] : [])]}
+                    onMarkClick={setActiveAnnotationId}
+                  />
+                </div>
+              )}
+            </section>
+            <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
+              <h3 className="text-xl font-bold text-slate-800 mb-4">Ask This Lecture</h3>
+              <NoteChat
+                thread={notes.chat || []}
+                onAsk={askQuestion}
+                onClear={() => updateNote({ ...notes, chat: [] })}
+                onCite={c => setTranscriptFocus({ start: c.start, end: c.end })}
+              />
             </section>
           </div>
           <div className="space-y-6">
             <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
-              <h3 className="text-lg font-bold text-slate-800 mb-4">Key Terms</h3>
-              <div className="flex flex-wrap gap-2">
-                {notes.keyConcepts.map((c, i) => (
-                  <span key={i} className="px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-medium">{c}</span>
-                ))}
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">Key Terms {authors.keyConcepts === 'user' && <EditedBadge />}</h3>
+                {editingList !== 'concepts' && editButton(() => setEditingList('concepts'))}
               </div>
+              {editingList === 'concepts' ? (
+                <ConceptsEditor
+                  concepts={notes.keyConcepts}
+                  onSave={keyConcepts => { editNote({ keyConcepts }); setEditingList(null); }}
+                  onCancel={() => setEditingList(null)}
+                />
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {notes.keyConcepts.map((c, i) => {
+                    const key = conceptKey(c);
+                    const segmentId = notes.conceptSegments?.[key];
+                    const lectures = conceptIndex.get(key)?.mentions.length || 0;
+                    return (
+                      <span key={i} className="inline-flex items-stretch bg-indigo-50 text-indigo-700 rounded-full text-xs font-medium">
+                        {segmentId ? (
+                          <button onClick={() => setSegmentFocus({ segmentId })} title="Jump to where this is discussed" className="pl-3 pr-2 py-1 rounded-l-full text-left hover:bg-indigo-100">📍 {c}</button>
+                        ) : (
+                          <span className="pl-3 pr-2 py-1">{c}</span>
+                        )}
+                        {key && (
+                          <button
+                            onClick={() => openConcept(key)}
+                            title={lectures > 1 ? `In ${lectures} lectures` : 'Concept page'}
+                            className="pl-2 pr-3 py-1 border-l border-indigo-100 rounded-r-full font-bold hover:bg-indigo-100"
+                          >
+                            {lectures > 1 ? `↗ ${lectures}` : '↗'}
+                          </button>
+                        )}
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
             </section>
             <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
-              <h3 className="text-lg font-bold text-slate-800 mb-4">To-Do List</h3>
-              <ul className="space-y-2">
-                {notes.actionItems.map((a, i) => (
-                  <li key={i} className="flex gap-2 text-sm text-slate-600"><input type="checkbox" className="mt-1" /> <span>{a}</span></li>
-                ))}
-                {notes.actionItems.length === 0 && <li className="text-slate-400 text-xs italic">No items found.</li>}
-              </ul>
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">To-Do List {authors.actionItems === 'user' && <EditedBadge />}</h3>
+                <div className="flex gap-3">
+                  {editingList !== 'actions' && editButton(() => setEditingList('actions'))}
+                  {notes.actionItems.some(a => a.due && !a.done) && (
+                    <button onClick={() => exportCalendar([notes], notes.title)} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">📅 .ics</button>
+                  )}
+                  {sectionButton('REEXTRACT_ACTIONS', '↻ Re-extract')}
+                </div>
+              </div>
+              {editingList === 'actions' ? (
+                <ActionItemsEditor
+                  items={noteContent(notes).actionItems}
+                  onSave={actionItems => { editNote({ actionItems }); setEditingList(null); }}
+                  onCancel={() => setEditingList(null)}
+                />
+              ) : (
+                <ul className="space-y-2">
+                  {notes.actionItems.map(a => (
+                    <li key={a.id}><ActionItemRow item={a} onChange={changes => updateActionItem(a, changes)} /></li>
+                  ))}
+                  {notes.actionItems.length === 0 && <li className="text-slate-400 text-xs italic">No items found.</li>}
+                </ul>
+              )}
+            </section>
+            {related.length > 0 && (
+              <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
+                <h3 className="text-lg font-bold text-slate-800 mb-4">Related Lectures</h3>
+                <ul className="space-y-3">
+                  {related.map(r => (
+                    <li key={r.note.id}>
+                      <button onClick={() => openNote(r.note)} className="block w-full text-left text-sm font-bold text-slate-700 hover:text-indigo-600 truncate">{r.note.title}</button>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {r.shared.slice(0, 4).map(key => (
+                          <button key={key} onClick={() => openConcept(key)} className="px-2 py-0.5 bg-amber-50 text-amber-800 rounded-full text-[10px] font-medium hover:bg-amber-100">
+                            {conceptIndex.get(key)?.term}
+                          </button>
+                        ))}
+                        {r.shared.length > 4 && <span className="text-[10px] text-slate-400 py-0.5">+{r.shared.length - 4} more</span>}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+            <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
+              <h3 className="text-lg font-bold text-slate-800 mb-4">Annotations</h3>
+              <AnnotationList
+                annotations={annotations}
+                activeId={activeAnnotationId}
+                location={annotationLocation}
+                onSelect={id => setActiveAnnotationId(current => (current === id ? null : id))}
+                onChangeNote={changeAnnotationNote}
+                onDelete={removeAnnotation}
+              />
+            </section>
+            <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                  Study Tools {(authors.quiz === 'user' || authors.flashcards === 'user') && <EditedBadge />}
+                </h3>
+                {editButton(() => setShowStudyEditor(true))}
+              </div>
+              <p className="text-xs text-slate-400 mb-4">{notes.quiz?.length || 0} quiz questions • {notes.flashcards?.length || 0} flashcards</p>
+              {showStudyEditor && (
+                <StudyItemsEditor
+                  quiz={notes.quiz || []}
+                  flashcards={noteContent(notes).flashcards}
+                  transcript={notes.transcription}
+                  onSave={(quiz, flashcards) => { editNote({ quiz, flashcards }); setShowStudyEditor(false); }}
+                  onClose={() => setShowStudyEditor(false)}
+                />
+              )}
+              <div className="flex flex-col items-start gap-2">
+                {sectionButton('MORE_QUIZ', '+ 10 more quiz questions')}
+                {sectionButton('HARDER_FLASHCARDS', '+ Harder flashcards')}
+              </div>
+              <div className="flex flex-wrap gap-4 mt-4 pt-4 border-t border-slate-100">
+                <button onClick={() => setShowDeckExport(true)} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">⇪ Export to Anki / Quizlet</button>
+                <label className="text-xs font-bold text-indigo-600 hover:text-indigo-800 cursor-pointer">
+                  ⇩ Import cards
+                  <input type="file" accept=".apkg,.csv,.tsv,.txt" onChange={e => { const f = e.target.files?.[0]; e.target.value = ''; if (f) importCards(f); }} className="hidden" />
+                </label>
+              </div>
+              {cardImport && <p className={`text-xs mt-2 ${cardImport.failed ? 'text-red-600' : 'text-green-700'}`}>{cardImport.text}</p>}
+              {showDeckExport && (
+                <DeckExportDialog
+                  notes={[notes]}
+                  defaultName={course ? `${course.name}::${notes.title}` : notes.title}
+                  onClose={() => setShowDeckExport(false)}
+                />
+              )}
             </section>
             {notes.sources && notes.sources.length > 0 && (
               <section className="bg-slate-900 p-8 rounded-3xl text-white">
@@ -454,42 +1650,62 @@ const App: React.FC = () => {
             )}
           </div>
         </div>
+        {textSelection && (
+          <div key={`${textSelection.target}:${textSelection.range.start}:${textSelection.range.end}`}>
+            <SelectionMenu
+              selection={textSelection}
+              quote={annotatedText(notes, textSelection.target).slice(textSelection.range.start, textSelection.range.end)}
+              onHighlight={addAnnotation}
+              onFlashcard={flashcardFromSelection}
+              onClose={closeSelection}
+            />
+          </div>
+        )}
       </div>
     );
   };
 
   return (
     <div className="min-h-screen flex flex-col">
-      <Navbar currentView={view} setView={setView} />
+      <Navbar currentView={view} setView={setView} dueCount={dueCards.length} urgentCount={urgentCount} />
       <main className="flex-1 max-w-6xl mx-auto w-full px-4 py-12">
         {status === AppStatus.PROCESSING ? (
           <div className="flex flex-col items-center justify-center py-20 space-y-8 animate-in zoom-in-95">
             <div className="w-16 h-16 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin" />
             <div className="text-center space-y-2">
-              <h3 className="text-2xl font-bold text-slate-800 italic">Processing Materials...</h3>
-              <p className="text-slate-500">Gemini is transcribing, summarizing, and building your study tools.</p>
+              <h3 className="text-2xl font-bold text-slate-800 italic">
+                {progress?.stage === 'PREPARING' ? 'Preparing Materials...' : progress?.stage === 'MERGING' ? 'Merging Segments...' : 'Processing Materials...'}
+              </h3>
+              <p className="text-slate-500">{PROVIDER_LABELS[settings.provider]} is transcribing, summarizing, and building your study tools.</p>
             </div>
+            <button onClick={cancelProcessing} className="px-6 py-2 bg-white border border-slate-200 text-slate-600 rounded-full text-sm font-bold hover:bg-slate-50">Cancel</button>
+            {progress && progress.segments.length > 1 && (
+              <div className="w-full max-w-md space-y-2">
+                <div className="flex justify-between text-xs font-bold text-slate-400">
+                  <span>Segments</span>
+                  <span>{progress.segments.filter(s => s.status === 'done').length} / {progress.segments.length}</span>
+                </div>
+                <ul className="max-h-64 overflow-y-auto space-y-1">
+                  {progress.segments.map((seg, i) => (
+                    <li key={i} className={`flex justify-between px-4 py-2 rounded-xl text-sm ${seg.status === 'processing' ? 'bg-indigo-50 text-indigo-700 font-bold' : 'bg-white text-slate-500'}`}>
+                      <span>{seg.label}</span>
+                      <span>{seg.status === 'done' ? '✓' : seg.status === 'processing' ? '…' : ''}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
-        ) : status === AppStatus.RECORDING ? (
-          <div className="flex flex-col items-center justify-center py-20 space-y-8">
-            <div className="relative">
-              <div className="absolute inset-0 bg-red-500 rounded-full animate-ping opacity-20" />
-              <div className="w-24 h-24 bg-red-500 rounded-full flex items-center justify-center text-white text-4xl shadow-xl relative z-10">🎙️</div>
-            </div>
-            <div className="text-center">
-              <h3 className="text-2xl font-bold text-slate-800">Listening to Lecture...</h3>
-              <p className="text-slate-500 mb-6">Capturing high-fidelity audio stream.</p>
-              <button onClick={stopRecording} className="px-8 py-3 bg-slate-900 text-white rounded-full font-bold shadow-lg hover:bg-black">Stop Recording</button>
-            </div>
-          </div>
-        ) : status === AppStatus.ERROR ? (
-          <div className="max-w-md mx-auto p-8 bg-red-50 text-center space-y-6 rounded-3xl border border-red-100 animate-in shake">
-            <div className="text-4xl">⚠️</div>
-            <h3 className="text-xl font-bold text-red-800">Processing Error</h3>
-            <p className="text-red-600 text-sm">{errorMessage}</p>
-            <button onClick={() => setStatus(AppStatus.IDLE)} className="px-6 py-2 bg-red-600 text-white rounded-full font-bold">Try Again</button>
-          </div>
-        ) : view === 'STUDY_MODE' ? renderStudyMode() : status === AppStatus.COMPLETED ? renderCompleted() : (
+        ) : status === AppStatus.RECORDING && recording ? (
+          <RecordingPanel recorder={recording.recorder} onStop={stopRecording} onDiscard={cancelRecording} />
+        ) : status === AppStatus.ERROR && processingError ? (
+          <ProcessingErrorView
+            error={processingError}
+            onRetry={lastFileRef.current ? () => processFile(lastFileRef.current!.file, lastFileRef.current!.recordingId) : undefined}
+            onOpenSettings={() => { setStatus(AppStatus.IDLE); setView('SETTINGS'); }}
+            onDismiss={() => { lastFileRef.current = null; setStatus(AppStatus.IDLE); }}
+          />
+        ) : view === 'STUDY_MODE' ? renderStudyMode() : view === 'REVIEW' ? renderReview() : view === 'ASSIGNMENTS' ? renderAssignments() : view === 'CONCEPTS' ? renderConcepts() : view === 'STATS' ? renderStats() : view === 'PRACTICE' ? renderPractice() : status === AppStatus.COMPLETED ? renderCompleted() : (
           <div>
             {view === 'HOME' && renderHome()}
             {view === 'HISTORY' && renderHistory()}
@@ -498,6 +1714,17 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+      <ImportQueue
+        jobs={imports}
+        progress={importProgress}
+        onRetry={job => changeImport(job.id, { status: 'queued', error: undefined })}
+        onCancel={job => importAbortsRef.current.get(job.id)?.abort()}
+        onRemove={removeImports}
+        onOpen={noteId => {
+          const note = history.find(h => h.id === noteId);
+          if (note) { openNote(note); setView('HOME'); }
+        }}
+      />
       <footer className="w-full py-8 border-t border-slate-100 text-center text-slate-400 text-xs">
         <p>&copy; {new Date().getFullYear()} SmartNotes AI • Optimized for Productivity</p>
       </footer>
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { AnnotationTarget } from '../types';
+import { ResolvedAnnotation } from '../utils/annotations';
+import { TextRange } from '../utils/textMatch';
+
+/** A range to mark in a text: an annotation, or a transient focus such as a chat citation. */
+export interface TextMark extends TextRange {
+  annotationId?: string;
+  note?: string;
+  focus?: boolean;
+  active?: boolean;
+}
+
+const markClass = (covering: TextMark[]) =>
+  covering.some(m => m.focus) ? 'bg-yellow-100 text-slate-900 rounded px-0.5'
+  : covering.some(m => m.active) ? 'bg-amber-300 text-slate-900 rounded-sm cursor-pointer'
+  : covering.some(m => m.note) ? 'bg-amber-100 text-slate-900 rounded-sm underline decoration-dotted decoration-amber-500 cursor-pointer'
+  : 'bg-amber-100 text-slate-900 rounded-sm cursor-pointer';
+
+/**
+ * Text with overlapping marks. `offset` is where the text starts in the
+ * annotated field, so a selection inside it can be mapped back.
+ */
+export const AnnotatedText = ({ text, offset = 0, marks, onMarkClick }: {
+  text: string,
+  offset?: number,
+  marks: TextMark[],
+  onMarkClick?: (annotationId: string) => void
+}) => {
+  const local = marks
+    .map(m => ({ ...m, start: Math.max(0, m.start - offset), end: Math.min(text.length, m.end - offset) }))
+    .filter(m => m.end > m.start);
+  const bounds = [...new Set([0, text.length, ...local.flatMap(m => [m.start, m.end])])].sort((a, b) => a - b);
+  const parts: React.ReactNode[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const [start, end] = [bounds[i], bounds[i + 1]];
+    const piece = text.slice(start, end);
+    const covering = local.filter(m => m.start < end && m.end > start);
+    if (covering.length === 0) {
+      parts.push(piece);
+      continue;
+    }
+    const annotation = covering.find(m => m.annotationId);
+    parts.push(
+      <mark
+        key={start}
+        className={markClass(covering)}
+        title={covering.map(m => m.note).filter(Boolean).join('\n') || undefined}
+        data-focus={covering.some(m => m.focus) ? '' : undefined}
+        data-annotation={annotation?.annotationId}
+        onClick={annotation && onMarkClick ? e => { e.stopPropagation(); onMarkClick(annotation.annotationId!); } : undefined}
+      >
+        {piece}
+      </mark>
+    );
+  }
+  return <span data-offset={offset}>{parts}</span>;
+};
+
+// Character offset of a DOM position within an AnnotatedText span.
+const offsetIn = (node: Node, offset: number): number | null => {
+  const element = node instanceof Element ? node : node.parentElement;
+  const container = element?.closest('[data-offset]');
+  if (!container) return null;
+  const range = document.createRange();
+  range.setStart(container, 0);
+  range.setEnd(node, offset);
+  return Number(container.getAttribute('data-offset')) + range.toString().length;
+};
+
+export interface TextSelection {
+  target: AnnotationTarget;
+  range: TextRange;
+  // Viewport position for the selection menu.
+  top: number;
+  left: number;
+}
+
+/**
+ * The current browser selection as a range of an annotatable field, or null
+ * when nothing (or text outside one field) is selected.
+ */
+export const readTextSelection = (): TextSelection | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  const targetOf = (node: Node | null) =>
+    (node instanceof Element ? node : node?.parentElement)?.closest('[data-annotation-target]');
+  const root = targetOf(selection.anchorNode);
+  if (!root || root !== targetOf(selection.focusNode)) return null;
+  const range = selection.getRangeAt(0);
+  const start = offsetIn(range.startContainer, range.startOffset);
+  const end = offsetIn(range.endContainer, range.endOffset);
+  if (start === null || end === null || end <= start) return null;
+  const rect = range.getBoundingClientRect();
+  return {
+    target: root.getAttribute('data-annotation-target') as AnnotationTarget,
+    range: { start, end },
+    top: rect.bottom + 8,
+    left: Math.max(8, Math.min(rect.left, window.innerWidth - 328))
+  };
+};
+
+const INPUT = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 focus:outline-none focus:border-indigo-400';
+
+/** Actions for a text selection: highlight it, add a margin note or make a flashcard from it. */
+export const SelectionMenu = ({ selection, quote, onHighlight, onFlashcard, onClose }: {
+  selection: TextSelection,
+  quote: string,
+  onHighlight: (note?: string) => void,
+  onFlashcard: (front: string, back: string) => void,
+  onClose: () => void
+}) => {
+  const [mode, setMode] = useState<'menu' | 'note' | 'card'>('menu');
+  const [note, setNote] = useState('');
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState(quote);
+  const button = 'px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-100';
+
+  return (
+    <div
+      className="fixed z-40 w-80 bg-white border border-slate-200 rounded-2xl shadow-xl p-2"
+      style={{ top: selection.top, left: selection.left }}
+      onMouseUp={e => e.stopPropagation()}
+    >
+      {mode === 'menu' && (
+        <div className="flex gap-1">
+          <button onClick={() => onHighlight()} className={`${button} text-amber-700`}>🖍 Highlight</button>
+          <button onClick={() => setMode('note')} className={`${button} text-slate-700`}>💬 Note</button>
+          <button onClick={() => setMode('card')} className={`${button} text-indigo-600`}>🃏 Flashcard</button>
+          <button onClick={onClose} className="ml-auto px-2 text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+      )}
+      {mode === 'note' && (
+        <div className="space-y-2 p-1">
+          <textarea value={note} onChange={e => setNote(e.target.value)} rows={3} placeholder="Margin note" className={INPUT} autoFocus />
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 text-xs font-bold text-slate-500">Cancel</button>
+            <button onClick={() => onHighlight(note.trim() || undefined)} className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700">Save</button>
+          </div>
+        </div>
+      )}
+      {mode === 'card' && (
+        <div className="space-y-2 p-1">
+          <input value={front} onChange={e => setFront(e.target.value)} placeholder="Front (question or term)" className={INPUT} autoFocus />
+          <textarea value={back} onChange={e => setBack(e.target.value)} rows={3} placeholder="Back" className={INPUT} />
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 text-xs font-bold text-slate-500">Cancel</button>
+            <button
+              onClick={() => onFlashcard(front.trim(), back.trim())}
+              disabled={!front.trim() || !back.trim()}
+              className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Add card
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** The margin: every annotation on a note, with its note editable in place. */
+export const AnnotationList = ({ annotations, activeId, location, onSelect, onChangeNote, onDelete }: {
+  annotations: ResolvedAnnotation[],
+  activeId: string | null,
+  location: (annotation: ResolvedAnnotation) => string,
+  onSelect: (id: string) => void,
+  onChangeNote: (id: string, note: string) => void,
+  onDelete: (id: string) => void
+}) => {
+  if (annotations.length === 0) {
+    return <p className="text-xs text-slate-400 italic">Select text in the summary or transcript to highlight it, add a note or make a flashcard.</p>;
+  }
+  return (
+    <ul className="space-y-2">
+      {annotations.map(a => {
+        const id = a.annotation.id;
+        const active = id === activeId;
+        return (
+          <li key={id} className={`p-3 rounded-xl border ${active ? 'border-amber-300 bg-amber-50' : 'border-slate-100'}`}>
+            <button onClick={() => onSelect(id)} className="block w-full text-left">
+              <span className="block text-[10px] font-bold text-slate-400 uppercase">
+                {location(a)}{a.range?.approximate ? ' · text changed' : ''}{!a.range ? ' · no longer found' : ''}
+              </span>
+              <span className="block text-xs text-slate-600 italic line-clamp-3">“{a.excerpt}”</span>
+            </button>
+            {active ? (
+              <textarea
+                defaultValue={a.annotation.note || ''}
+                onBlur={e => { if (e.target.value.trim() !== (a.annotation.note || '')) onChangeNote(id, e.target.value.trim()); }}
+                rows={2}
+                placeholder="Add a note"
+                className="mt-2 w-full px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+              />
+            ) : a.annotation.note && <p className="mt-1 text-xs text-slate-700 whitespace-pre-line">{a.annotation.note}</p>}
+            {active && <button onClick={() => onDelete(id)} className="mt-1 text-[10px] font-bold text-slate-400 hover:text-red-500">Delete</button>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
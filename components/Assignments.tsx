@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { ActionItem, SmartNotes } from '../types';
+import { compareByDue, dueStatus, DueStatus, formatDue } from '../utils/actionItems';
+
+const STATUS_STYLES: Record<DueStatus, string> = {
+  overdue: 'bg-red-50 text-red-600',
+  today: 'bg-amber-50 text-amber-700',
+  soon: 'bg-indigo-50 text-indigo-600',
+  later: 'bg-slate-100 text-slate-500',
+  undated: 'bg-slate-100 text-slate-400'
+};
+
+const GROUPS: { status: DueStatus; label: string }[] = [
+  { status: 'overdue', label: 'Overdue' },
+  { status: 'today', label: 'Due today' },
+  { status: 'soon', label: 'This week' },
+  { status: 'later', label: 'Later' },
+  { status: 'undated', label: 'No due date' }
+];
+
+export const ActionItemRow = ({ item, onChange, noteTitle, onOpenNote }: {
+  item: ActionItem,
+  onChange: (changes: Partial<ActionItem>) => void,
+  // Shown when the row is listed outside its note.
+  noteTitle?: string,
+  onOpenNote?: () => void
+}) => {
+  const status = dueStatus(item);
+  return (
+    <div className="flex gap-2 text-sm text-slate-600">
+      <input type="checkbox" checked={item.done} onChange={e => onChange({ done: e.target.checked })} className="mt-1" />
+      <div className="flex-1 min-w-0 space-y-1">
+        <span className={item.done ? 'line-through text-slate-400' : ''}>{item.text}</span>
+        <div className="flex flex-wrap items-center gap-2 text-[10px] font-bold">
+          {item.due && !item.done && (
+            <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}>
+              {status === 'overdue' ? 'Overdue · ' : ''}{formatDue(item.due)}
+            </span>
+          )}
+          <input
+            type="date"
+            value={item.due || ''}
+            onChange={e => onChange({ due: e.target.value || undefined })}
+            title="Set due date"
+            className="bg-transparent text-slate-400 hover:text-indigo-600"
+          />
+          {noteTitle && (
+            <button onClick={onOpenNote} className="text-indigo-500 hover:text-indigo-700 truncate">📄 {noteTitle}</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const AssignmentList = ({ notes, onChange, onOpenNote }: {
+  notes: SmartNotes[],
+  onChange: (item: ActionItem, changes: Partial<ActionItem>) => void,
+  onOpenNote: (noteId: string) => void
+}) => {
+  const [showDone, setShowDone] = useState(false);
+  const titles = new Map(notes.map(n => [n.id, n.title]));
+  const items = notes.flatMap(n => n.actionItems).sort(compareByDue);
+  const open = items.filter(item => !item.done);
+  const done = items.filter(item => item.done);
+
+  const renderItems = (list: ActionItem[]) => (
+    <ul className="space-y-3">
+      {list.map(item => (
+        <li key={item.id}>
+          <ActionItemRow
+            item={item}
+            onChange={changes => onChange(item, changes)}
+            noteTitle={titles.get(item.noteId)}
+            onOpenNote={() => onOpenNote(item.noteId)}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (items.length === 0) {
+    return <p className="text-center text-slate-400 py-12">No action items yet. Deadlines and homework mentioned in your lectures will show up here.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {GROUPS.map(({ status, label }) => {
+        const group = open.filter(item => dueStatus(item) === status);
+        if (group.length === 0) return null;
+        return (
+          <section key={status} className="space-y-3">
+            <h3 className="text-xs font-black uppercase tracking-widest text-slate-400">{label} <span className="text-slate-300">({group.length})</span></h3>
+            {renderItems(group)}
+          </section>
+        );
+      })}
+      {open.length === 0 && <p className="text-center text-slate-400 py-6">All caught up. 🎉</p>}
+      {done.length > 0 && (
+        <section className="space-y-3 pt-6 border-t border-slate-100">
+          <button onClick={() => setShowDone(!showDone)} className="text-xs font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600">
+            {showDone ? '▾' : '▸'} Completed ({done.length})
+          </button>
+          {showDone && renderItems(done)}
+        </section>
+      )}
+    </div>
+  );
+};
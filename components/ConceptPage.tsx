@@ -0,0 +1,80 @@
+import React from 'react';
+import { ConceptEntity, Course, SmartNotes } from '../types';
+
+/**
+ * One concept across the vault: its definition, how each lecture that
+ * mentions it puts it, and the concepts it is usually taught with.
+ */
+export const ConceptPage = ({ concept, notes, courses, related, onOpenMention, onOpenConcept, onBack }: {
+  concept: ConceptEntity,
+  notes: SmartNotes[],
+  courses: Course[],
+  related: ConceptEntity[],
+  onOpenMention: (note: SmartNotes, segmentId?: string) => void,
+  onOpenConcept: (key: string) => void,
+  onBack: () => void
+}) => {
+  const mentions = concept.mentions
+    .map(m => ({ ...m, note: notes.find(n => n.id === m.noteId) }))
+    .filter((m): m is typeof m & { note: SmartNotes } => !!m.note)
+    .sort((a, b) => a.note.timestamp - b.note.timestamp);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 py-6 animate-in fade-in">
+      <button onClick={onBack} className="text-slate-400 hover:text-indigo-600 font-bold flex items-center gap-2">← All concepts</button>
+      <div className="space-y-2">
+        <span className="px-2 py-1 bg-amber-100 text-amber-800 rounded text-[10px] font-bold uppercase">Concept</span>
+        <h2 className="text-4xl font-black text-slate-900">{concept.term}</h2>
+        {concept.definition && <p className="text-lg text-slate-600 leading-relaxed">{concept.definition}</p>}
+      </div>
+      <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+        <h3 className="text-lg font-bold text-slate-800">Mentioned in {mentions.length} lecture{mentions.length === 1 ? '' : 's'}</h3>
+        <ul className="space-y-3">
+          {mentions.map(m => {
+            const course = courses.find(c => c.id === m.note.courseId);
+            return (
+              <li key={m.noteId} className="p-4 border border-slate-100 rounded-2xl hover:border-indigo-200 transition-all">
+                <div className="flex justify-between items-start gap-4">
+                  <button onClick={() => onOpenMention(m.note)} className="text-left">
+                    <span className="block font-bold text-slate-800 hover:text-indigo-600">{m.note.title}</span>
+                    <span className="block text-[10px] text-slate-400 uppercase font-bold">
+                      {new Date(m.note.timestamp).toLocaleDateString()}{course ? ` · ${course.name}` : ''}
+                    </span>
+                  </button>
+                  {m.segmentId && (
+                    <button
+                      onClick={() => onOpenMention(m.note, m.segmentId)}
+                      className="shrink-0 text-xs font-bold text-indigo-600 hover:text-indigo-800"
+                    >
+                      📍 Where it's discussed
+                    </button>
+                  )}
+                </div>
+                {m.definition && m.definition !== concept.definition && (
+                  <p className="mt-2 text-sm text-slate-600 leading-relaxed">{m.definition}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+      {related.length > 0 && (
+        <section className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+          <h3 className="text-lg font-bold text-slate-800">Taught Alongside</h3>
+          <div className="flex flex-wrap gap-2">
+            {related.map(r => (
+              <button
+                key={r.key}
+                onClick={() => onOpenConcept(r.key)}
+                title={r.definition || undefined}
+                className="px-3 py-1 bg-amber-50 text-amber-800 rounded-full text-xs font-medium hover:bg-amber-100"
+              >
+                {r.term}
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
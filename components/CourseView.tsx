@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Course, SmartNotes } from '../types';
+import { DeckExportDialog } from './DeckExportDialog';
+import { QuizComponent } from './Quiz';
+import { TagEditor } from './TagEditor';
+
+type CourseTab = 'GUIDE' | 'GLOSSARY' | 'ACTIONS' | 'QUIZ';
+
+const TABS: { id: CourseTab; label: string }[] = [
+  { id: 'GUIDE', label: 'Study Guide' },
+  { id: 'GLOSSARY', label: 'Glossary' },
+  { id: 'ACTIONS', label: 'Action Items' },
+  { id: 'QUIZ', label: 'Exam Prep Quiz' }
+];
+
+export const CourseView = ({ course, notes, isSynthesizing, error, onSynthesize, onChange, onDelete, onOpenNote }: {
+  course: Course,
+  notes: SmartNotes[],
+  isSynthesizing: boolean,
+  error: string | null,
+  onSynthesize: () => void,
+  onChange: (course: Course) => void,
+  onDelete: () => void,
+  onOpenNote: (note: SmartNotes) => void
+}) => {
+  const [tab, setTab] = useState<CourseTab>('GUIDE');
+  const [showDeckExport, setShowDeckExport] = useState(false);
+  const synthesis = course.synthesis;
+  const titleOf = (id: string) => notes.find(n => n.id === id)?.title || 'Removed lecture';
+  const isStale = synthesis && (synthesis.noteIds.length !== notes.length || notes.some(n => !synthesis.noteIds.includes(n.id)));
+
+  return (
+    <div className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+      <div className="flex flex-wrap justify-between items-start gap-4">
+        <div className="space-y-1">
+          <h3 className="text-2xl font-black text-slate-900">{course.name}</h3>
+          <TagEditor tags={course.tags} onChange={tags => onChange({ ...course, tags })} placeholder="Add course tag" />
+        </div>
+        <div className="flex gap-2 items-center">
+          <button
+            onClick={onSynthesize}
+            disabled={isSynthesizing || notes.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold shadow-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isSynthesizing ? 'Synthesising…' : synthesis ? 'Rebuild Study Guide' : 'Build Study Guide'}
+          </button>
+          <button
+            onClick={() => setShowDeckExport(true)}
+            disabled={notes.length === 0}
+            className="px-3 py-2 text-xs text-indigo-600 font-bold hover:underline disabled:opacity-50"
+          >
+            Export deck
+          </button>
+          <button onClick={onDelete} className="px-3 py-2 text-xs text-red-500 font-bold hover:underline">Delete course</button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {showDeckExport && (
+        <DeckExportDialog notes={notes} defaultName={course.name} defaultTags={course.tags} onClose={() => setShowDeckExport(false)} />
+      )}
+      {isStale && <p className="text-xs text-amber-700 bg-amber-50 rounded-xl p-3">Lectures have changed since this study guide was built. Rebuild it to include them.</p>}
+
+      {synthesis && (
+        <div className="space-y-4 pt-2">
+          <div className="flex bg-slate-100 p-1 rounded-xl w-fit">
+            {TABS.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-all ${tab === t.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+          {tab === 'GUIDE' && (
+            <p className="text-sm text-slate-600 leading-relaxed whitespace-pre-line">{synthesis.studyGuide}</p>
+          )}
+          {tab === 'GLOSSARY' && (
+            <dl className="divide-y divide-slate-100 max-h-[32rem] overflow-y-auto">
+              {synthesis.glossary.map(entry => (
+                <div key={entry.term} className="py-3">
+                  <dt className="font-bold text-slate-800 text-sm">{entry.term}</dt>
+                  {entry.definition && <dd className="text-sm text-slate-500">{entry.definition}</dd>}
+                  <dd className="text-[10px] text-slate-400 mt-1">{entry.noteIds.map(titleOf).join(' • ')}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          {tab === 'ACTIONS' && (
+            <ul className="space-y-2">
+              {synthesis.actionItems.map((item, i) => (
+                <li key={i} className="text-sm text-slate-600 flex justify-between gap-4">
+                  <span>{item.text}</span>
+                  <span className="text-[10px] text-slate-400 shrink-0">{titleOf(item.noteId)}</span>
+                </li>
+              ))}
+              {synthesis.actionItems.length === 0 && <li className="text-slate-400 text-xs italic">No items found.</li>}
+            </ul>
+          )}
+          {tab === 'QUIZ' && <QuizComponent quiz={synthesis.quiz} />}
+        </div>
+      )}
+
+      <div className="pt-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Lectures ({notes.length})</h4>
+        <div className="flex flex-wrap gap-2">
+          {[...notes].sort((a, b) => a.timestamp - b.timestamp).map(n => (
+            <button key={n.id} onClick={() => onOpenNote(n)} className="px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-medium hover:bg-indigo-100">{n.title}</button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { SmartNotes } from '../types';
+import { buildApkg } from '../utils/anki';
+import { collectDeckCards } from '../utils/deck';
+import { downloadBlob, safeFilename } from '../utils/download';
+import { buildQuizletExport, QuizletFormat } from '../utils/quizlet';
+import { TagEditor } from './TagEditor';
+
+type DeckFormat = 'apkg' | QuizletFormat;
+
+const FORMATS: { id: DeckFormat; label: string; hint: string }[] = [
+  { id: 'apkg', label: 'Anki (.apkg)', hint: 'Opens straight into Anki as a new deck.' },
+  { id: 'tsv', label: 'Quizlet (.tsv)', hint: 'Paste or upload into Quizlet\'s import box with "Tab" between term and definition.' },
+  { id: 'csv', label: 'Spreadsheet (.csv)', hint: 'Term and definition columns, for Quizlet\'s "Comma" option or other apps.' }
+];
+
+export const DeckExportDialog = ({ notes, defaultName, defaultTags = [], onClose }: {
+  notes: SmartNotes[],
+  defaultName: string,
+  defaultTags?: string[],
+  onClose: () => void
+}) => {
+  const [name, setName] = useState(defaultName);
+  const [tags, setTags] = useState<string[]>(defaultTags);
+  const [includeQuiz, setIncludeQuiz] = useState(true);
+  const [format, setFormat] = useState<DeckFormat>('apkg');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cards = collectDeckCards(notes, { tags, includeQuiz });
+
+  const exportDeck = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const filename = safeFilename(name || defaultName);
+      const blob = format === 'apkg'
+        ? await buildApkg(cards, name.trim() || defaultName)
+        : new Blob([buildQuizletExport(cards, format)], { type: format === 'csv' ? 'text/csv' : 'text/tab-separated-values' });
+      downloadBlob(blob, `${filename}.${format}`);
+      onClose();
+    } catch (err: any) {
+      console.error("Deck export failed:", err);
+      setError(`Could not build the deck: ${err.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md p-8 space-y-5" onClick={e => e.stopPropagation()}>
+        <div>
+          <h3 className="text-xl font-black text-slate-900">Export Flashcards</h3>
+          <p className="text-xs text-slate-400">{cards.length} cards from {notes.length} {notes.length === 1 ? 'lecture' : 'lectures'}</p>
+        </div>
+        <label className="block space-y-1">
+          <span className="text-xs font-bold text-slate-500">Deck name</span>
+          <input value={name} onChange={e => setName(e.target.value)} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm" />
+          <span className="text-[10px] text-slate-400">Use "::" to nest decks in Anki, e.g. Biology::Lecture 3.</span>
+        </label>
+        <div className="space-y-1">
+          <span className="text-xs font-bold text-slate-500">Tags</span>
+          <TagEditor tags={tags} onChange={setTags} />
+          <span className="block text-[10px] text-slate-400">Each lecture's own tags are added too.</span>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input type="checkbox" checked={includeQuiz} onChange={e => setIncludeQuiz(e.target.checked)} />
+          Include quiz questions as cards
+        </label>
+        <div className="space-y-2">
+          {FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              className={`w-full p-3 text-left rounded-xl border-2 transition-all ${format === f.id ? 'border-indigo-600 bg-indigo-50' : 'border-slate-100 hover:border-slate-200'}`}
+            >
+              <span className="block text-sm font-bold text-slate-800">{f.label}</span>
+              <span className="block text-[10px] text-slate-500">{f.hint}</span>
+            </button>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-slate-500">Cancel</button>
+          <button
+            onClick={exportDeck}
+            disabled={busy || cards.length === 0}
+            className="px-5 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {busy ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useRef, useState } from 'react';
+import { DueCard, Flashcard, ReviewGrade } from '../types';
+import { formatInterval, scheduleReview } from '../utils/spacedRepetition';
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-50 text-red-600 hover:bg-red-100' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-50 text-amber-700 hover:bg-amber-100' },
+  { grade: 'good', label: 'Good', className: 'bg-green-50 text-green-700 hover:bg-green-100' },
+  { grade: 'easy', label: 'Easy', className: 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100' }
+];
+
+export const FlipCard = ({ card, isFlipped, onFlip }: { card: Flashcard, isFlipped: boolean, onFlip: () => void }) => (
+  <div
+    onClick={onFlip}
+    className="w-full max-w-md h-64 cursor-pointer perspective-1000 group"
+  >
+    <div className={`relative w-full h-full transition-transform duration-500 transform-style-3d ${isFlipped ? 'rotate-y-180' : ''}`}>
+      <div className="absolute inset-0 bg-white border border-slate-200 rounded-3xl shadow-lg flex items-center justify-center p-8 text-center backface-hidden">
+        <p className="text-xl font-bold text-slate-800">{card.front}</p>
+      </div>
+      <div className="absolute inset-0 bg-indigo-600 text-white rounded-3xl shadow-lg flex items-center justify-center p-8 text-center backface-hidden rotate-y-180">
+        <p className="text-xl leading-relaxed">{card.back}</p>
+      </div>
+    </div>
+  </div>
+);
+
+export const GradeButtons = ({ card, onGrade }: { card: Flashcard, onGrade: (grade: ReviewGrade) => void }) => {
+  const now = Date.now();
+  return (
+    <div className="grid grid-cols-4 gap-2 w-full max-w-md">
+      {GRADES.map(({ grade, label, className }) => (
+        <button
+          key={grade}
+          onClick={() => onGrade(grade)}
+          className={`py-2 rounded-xl text-sm font-bold transition-colors flex flex-col items-center ${className}`}
+        >
+          {label}
+          <span className="text-[10px] font-medium opacity-70">{formatInterval(scheduleReview(card.schedule, grade, now).interval)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export const FlashcardsComponent = ({ flashcards, onGrade }: {
+  flashcards: Flashcard[],
+  // `elapsedMs` is how long the card was on screen before grading.
+  onGrade?: (cardIndex: number, grade: ReviewGrade, elapsedMs: number) => void
+}) => {
+  const [currentIdx, setCurrentIdx] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const shownAtRef = useRef(Date.now());
+
+  const next = () => {
+    setCurrentIdx((i) => (i + 1) % flashcards.length);
+    setIsFlipped(false);
+    shownAtRef.current = Date.now();
+  };
+
+  const prev = () => {
+    setCurrentIdx((i) => (i - 1 + flashcards.length) % flashcards.length);
+    setIsFlipped(false);
+    shownAtRef.current = Date.now();
+  };
+
+  if (flashcards.length === 0) {
+    return <p className="text-center text-slate-400 italic">This note has no flashcards.</p>;
+  }
+
+  const card = flashcards[Math.min(currentIdx, flashcards.length - 1)];
+
+  return (
+    <div className="space-y-8 flex flex-col items-center">
+      <FlipCard card={card} isFlipped={isFlipped} onFlip={() => setIsFlipped(!isFlipped)} />
+      {onGrade && isFlipped && (
+        <GradeButtons card={card} onGrade={(grade) => { onGrade(currentIdx, grade, Date.now() - shownAtRef.current); next(); }} />
+      )}
+      <div className="flex items-center gap-6">
+        <button onClick={prev} className="p-3 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors">←</button>
+        <span className="text-sm font-bold text-slate-400">{currentIdx + 1} / {flashcards.length}</span>
+        <button onClick={next} className="p-3 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors">→</button>
+      </div>
+      <p className="text-xs text-slate-400">{onGrade ? 'Flip the card, then grade how well you remembered it' : 'Click the card to flip'}</p>
+    </div>
+  );
+};
+
+/**
+ * Works through a snapshot of the cards due today. Graded cards leave the
+ * queue, except "Again" which sends the card to the back for another pass.
+ */
+export const ReviewDeck = ({ dueCards, onGrade }: {
+  dueCards: DueCard[],
+  onGrade: (due: DueCard, grade: ReviewGrade, elapsedMs: number) => void
+}) => {
+  const [queue, setQueue] = useState<DueCard[]>(dueCards);
+  const [reviewed, setReviewed] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const shownAtRef = useRef(Date.now());
+
+  if (queue.length === 0) {
+    return (
+      <div className="text-center p-8 space-y-4">
+        <div className="text-4xl">🎉</div>
+        <h4 className="text-2xl font-bold text-slate-800">All caught up!</h4>
+        <p className="text-slate-500">{reviewed > 0 ? `You reviewed ${reviewed} cards today.` : 'No cards are due today.'}</p>
+      </div>
+    );
+  }
+
+  const current = queue[0];
+
+  const grade = (g: ReviewGrade) => {
+    onGrade(current, g, Date.now() - shownAtRef.current);
+    shownAtRef.current = Date.now();
+    setReviewed(r => r + 1);
+    setIsFlipped(false);
+    setQueue(([head, ...rest]) => g === 'again'
+      ? [...rest, { ...head, card: { ...head.card, schedule: scheduleReview(head.card.schedule, g) } }]
+      : rest);
+  };
+
+  return (
+    <div className="space-y-8 flex flex-col items-center">
+      <div className="text-xs text-slate-400">
+        <span className="font-bold text-indigo-600">{queue.length} left</span> • from <span className="font-bold">{current.noteTitle}</span>
+      </div>
+      <FlipCard card={current.card} isFlipped={isFlipped} onFlip={() => setIsFlipped(!isFlipped)} />
+      {isFlipped
+        ? <GradeButtons card={current.card} onGrade={grade} />
+        : <p className="text-xs text-slate-400">Click the card to reveal the answer</p>}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+
+export const HighlightedText = ({ text, highlights, className = 'bg-yellow-100 text-slate-900 rounded px-0.5' }: {
+  text: string,
+  highlights: [number, number][],
+  className?: string
+}) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={i} className={className}>{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
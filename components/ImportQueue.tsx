@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ImportJob, ImportStatus, ProcessingProgress } from '../types';
+
+const STATUS_STYLES: Record<ImportStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-slate-100 text-slate-500' },
+  uploading: { label: 'Uploading', className: 'bg-amber-100 text-amber-700' },
+  processing: { label: 'Processing', className: 'bg-indigo-100 text-indigo-700' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' }
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const progressLabel = (progress?: ProcessingProgress) => {
+  if (!progress || progress.segments.length <= 1) return null;
+  const done = progress.segments.filter(s => s.status === 'done').length;
+  return `${done}/${progress.segments.length} parts`;
+};
+
+/** Floating panel listing the batch import queue, visible on every page. */
+export const ImportQueue = ({ jobs, progress, onRetry, onCancel, onRemove, onOpen }: {
+  jobs: ImportJob[],
+  progress: Record<string, ProcessingProgress>,
+  onRetry: (job: ImportJob) => void,
+  onCancel: (job: ImportJob) => void,
+  onRemove: (ids: string[]) => void,
+  onOpen: (noteId: string) => void
+}) => {
+  const [collapsed, setCollapsed] = useState(false);
+  if (jobs.length === 0) return null;
+
+  const active = jobs.filter(j => j.status !== 'done' && j.status !== 'failed').length;
+  const failed = jobs.filter(j => j.status === 'failed');
+  const finished = jobs.filter(j => j.status === 'done');
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-80 bg-white border border-slate-100 rounded-3xl shadow-2xl overflow-hidden">
+      <button onClick={() => setCollapsed(c => !c)} className="w-full px-5 py-3 flex items-center justify-between bg-slate-900 text-white text-sm font-bold">
+        <span>
+          Imports
+          {active > 0 && <span className="ml-2 text-indigo-300">{active} in progress</span>}
+          {failed.length > 0 && <span className="ml-2 text-red-300">{failed.length} failed</span>}
+        </span>
+        <span>{collapsed ? '▴' : '▾'}</span>
+      </button>
+      {!collapsed && (
+        <div>
+          <ul className="max-h-72 overflow-y-auto divide-y divide-slate-50">
+            {jobs.map(job => {
+              const style = STATUS_STYLES[job.status];
+              const parts = job.status === 'processing' ? progressLabel(progress[job.id]) : null;
+              return (
+                <li key={job.id} className="px-5 py-3 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 text-sm font-medium text-slate-800 truncate" title={job.name}>{job.name}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${style.className}`}>{style.label}</span>
+                  </div>
+                  <div className="flex items-center gap-3 text-[10px] text-slate-400">
+                    <span>{formatSize(job.size)}</span>
+                    {parts && <span>{parts}</span>}
+                    {job.attempts > 1 && <span>attempt {job.attempts}</span>}
+                    <span className="flex-1" />
+                    {job.status === 'done' && job.noteId && (
+                      <button onClick={() => onOpen(job.noteId!)} className="font-bold text-indigo-600 hover:underline">Open</button>
+                    )}
+                    {job.status === 'failed' && job.file && (
+                      <button onClick={() => onRetry(job)} className="font-bold text-indigo-600 hover:underline">Retry</button>
+                    )}
+                    {(job.status === 'uploading' || job.status === 'processing') && (
+                      <button onClick={() => onCancel(job)} className="hover:text-red-500">Cancel</button>
+                    )}
+                    {(job.status === 'queued' || job.status === 'failed' || job.status === 'done') && (
+                      <button onClick={() => onRemove([job.id])} className="hover:text-red-500">Remove</button>
+                    )}
+                  </div>
+                  {job.error && <p className="text-[11px] text-red-600">{job.error}</p>}
+                </li>
+              );
+            })}
+          </ul>
+          {(finished.length > 0 || failed.length > 1) && (
+            <div className="px-5 py-2 flex justify-end gap-4 border-t border-slate-50 text-[11px] font-bold">
+              {failed.length > 1 && <button onClick={() => failed.forEach(onRetry)} className="text-indigo-600 hover:underline">Retry all failed</button>}
+              {finished.length > 0 && <button onClick={() => onRemove(finished.map(j => j.id))} className="text-slate-400 hover:text-slate-600">Clear finished</button>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
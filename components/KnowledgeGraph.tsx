@@ -0,0 +1,144 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ConceptGraph, GraphNode, layoutGraph } from '../utils/knowledgeGraph';
+
+const WIDTH = 900;
+const HEIGHT = 600;
+
+const shorten = (label: string, max: number) => (label.length > max ? `${label.slice(0, max - 1)}…` : label);
+
+/**
+ * Lectures and their concepts as a force-laid-out map. Drag to pan, scroll
+ * to zoom; hovering a node picks out its neighbours and clicking opens it.
+ */
+export const KnowledgeGraph = ({ graph, onOpenConcept, onOpenNote }: {
+  graph: ConceptGraph,
+  onOpenConcept: (key: string) => void,
+  onOpenNote: (noteId: string) => void
+}) => {
+  // Laid out again only when nodes or edges change, not on every edit to the vault.
+  const structure = `${graph.nodes.map(n => n.id).join('|')}#${graph.edges.map(e => `${e.source}>${e.target}`).join('|')}`;
+  const layout = useMemo(() => new Map(layoutGraph(graph, WIDTH, HEIGHT).map(n => [n.id, n])), [structure]);
+  const nodes = graph.nodes.map(n => ({ ...n, x: layout.get(n.id)?.x ?? WIDTH / 2, y: layout.get(n.id)?.y ?? HEIGHT / 2 }));
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [hovered, setHovered] = useState<string | null>(null);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const positions = new Map<string, GraphNode>(nodes.map(n => [n.id, n]));
+  const neighbours = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    graph.edges.forEach(e => {
+      map.set(e.source, (map.get(e.source) || new Set()).add(e.target));
+      map.set(e.target, (map.get(e.target) || new Set()).add(e.source));
+    });
+    return map;
+  }, [graph]);
+  const lit = hovered ? new Set([hovered, ...(neighbours.get(hovered) || [])]) : null;
+
+  // Screen pixels to viewBox units, as the SVG is scaled to its container.
+  const unitsPerPixel = () => WIDTH / (svgRef.current?.getBoundingClientRect().width || WIDTH);
+
+  const zoom = (factor: number) => setView(v => {
+    const scale = Math.min(4, Math.max(0.4, v.scale * factor));
+    // Keep the centre of the box where it is.
+    const ratio = scale / v.scale;
+    return { scale, x: WIDTH / 2 - (WIDTH / 2 - v.x) * ratio, y: HEIGHT / 2 - (HEIGHT / 2 - v.y) * ratio };
+  });
+
+  const open = (id: string) => {
+    if (dragRef.current?.moved) return;
+    if (id.startsWith('c:')) onOpenConcept(id.slice(2));
+    else onOpenNote(id.slice(2));
+  };
+
+  if (nodes.length === 0) {
+    return <p className="text-sm text-slate-400 italic text-center py-20">No concepts to map yet. Key terms from your notes appear here.</p>;
+  }
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto bg-slate-50 rounded-3xl cursor-grab active:cursor-grabbing select-none touch-none"
+        onWheel={e => zoom(e.deltaY < 0 ? 1.1 : 1 / 1.1)}
+        onPointerDown={e => { dragRef.current = { x: e.clientX, y: e.clientY, moved: false }; }}
+        onPointerMove={e => {
+          const drag = dragRef.current;
+          if (!drag || e.buttons === 0) return;
+          const [dx, dy] = [e.clientX - drag.x, e.clientY - drag.y];
+          if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+          const units = unitsPerPixel();
+          setView(v => ({ ...v, x: v.x + dx * units, y: v.y + dy * units }));
+          dragRef.current = { x: e.clientX, y: e.clientY, moved: true };
+        }}
+        onPointerUp={() => { setTimeout(() => { dragRef.current = null; }); }}
+        onPointerLeave={() => { dragRef.current = null; }}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {graph.edges.map(e => {
+            const [a, b] = [positions.get(e.source), positions.get(e.target)];
+            if (!a || !b) return null;
+            const active = lit?.has(e.source) && lit.has(e.target);
+            return (
+              <line
+                key={`${e.source}|${e.target}`}
+                x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                stroke={active ? '#6366f1' : '#cbd5e1'}
+                strokeWidth={active ? 1.5 : 1}
+                opacity={lit && !active ? 0.25 : 1}
+              />
+            );
+          })}
+          {nodes.map(n => {
+            const isNote = n.kind === 'note';
+            const radius = isNote ? 9 : 4 + Math.min(8, n.degree * 1.5);
+            const dimmed = lit && !lit.has(n.id);
+            const showLabel = isNote || n.degree > 1 || lit?.has(n.id);
+            return (
+              <g
+                key={n.id}
+                transform={`translate(${n.x} ${n.y})`}
+                opacity={dimmed ? 0.25 : 1}
+                className="cursor-pointer"
+                onPointerEnter={() => setHovered(n.id)}
+                onPointerLeave={() => setHovered(null)}
+                onClick={() => open(n.id)}
+              >
+                <title>{isNote ? `${n.label} · ${n.degree} concepts` : `${n.label} · ${n.degree} lecture${n.degree === 1 ? '' : 's'}`}</title>
+                {isNote
+                  ? <rect x={-radius} y={-radius} width={radius * 2} height={radius * 2} rx={3} fill="#4f46e5" />
+                  : <circle r={radius} fill={n.degree > 1 ? '#f59e0b' : '#fcd34d'} stroke="#fff" strokeWidth={1.5} />}
+                {showLabel && (
+                  <text
+                    y={radius + 12}
+                    textAnchor="middle"
+                    fontSize={isNote ? 11 : 10}
+                    fontWeight={isNote ? 700 : 500}
+                    fill={isNote ? '#312e81' : '#78350f'}
+                    stroke="#f8fafc"
+                    strokeWidth={3}
+                    paintOrder="stroke"
+                  >
+                    {shorten(n.label, isNote ? 28 : 22)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+      <div className="absolute top-3 right-3 flex gap-1">
+        <button onClick={() => zoom(1.25)} className="w-8 h-8 bg-white rounded-lg shadow-sm text-slate-600 font-bold hover:bg-slate-100">+</button>
+        <button onClick={() => zoom(0.8)} className="w-8 h-8 bg-white rounded-lg shadow-sm text-slate-600 font-bold hover:bg-slate-100">−</button>
+        <button onClick={() => setView({ x: 0, y: 0, scale: 1 })} className="px-2 h-8 bg-white rounded-lg shadow-sm text-xs text-slate-600 font-bold hover:bg-slate-100">Reset</button>
+      </div>
+      <div className="absolute bottom-3 left-3 flex gap-4 px-3 py-1.5 bg-white/90 rounded-lg text-[10px] font-bold text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-indigo-600" /> Lecture</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-amber-500" /> Shared concept</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-amber-300" /> Concept</span>
+        {graph.hiddenConcepts > 0 && <span>+{graph.hiddenConcepts} less-mentioned concepts not shown</span>}
+      </div>
+    </div>
+  );
+};
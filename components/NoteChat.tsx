@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatCitation, ChatMessage } from '../types';
+
+export const NoteChat = ({ thread, onAsk, onClear, onCite }: {
+  thread: ChatMessage[],
+  onAsk: (question: string) => Promise<void>,
+  onClear: () => void,
+  onCite: (citation: ChatCitation) => void
+}) => {
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [thread.length, isAsking]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = question.trim();
+    if (!q || isAsking) return;
+    setIsAsking(true);
+    setError(null);
+    try {
+      await onAsk(q);
+      setQuestion('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-96 overflow-y-auto space-y-3 pr-1">
+        {thread.length === 0 && (
+          <p className="text-sm text-slate-400 italic">Ask anything about this lecture. Answers come only from the transcription.</p>
+        )}
+        {thread.map(m => (
+          <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] px-4 py-3 rounded-2xl text-sm space-y-2 ${m.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-700'}`}>
+              <p className="whitespace-pre-line leading-relaxed">{m.text}</p>
+              {m.citations && m.citations.length > 0 && (
+                <div className="space-y-1 pt-1">
+                  {m.citations.map((c, i) => (
+                    <button
+                      key={i}
+                      onClick={() => onCite(c)}
+                      className="block w-full text-left px-3 py-2 bg-white border-l-4 border-indigo-300 rounded-lg text-xs text-slate-500 italic hover:bg-indigo-50"
+                    >
+                      “{c.quote}”
+                    </button>
+                  ))}
+                </div>
+              )}
+              {m.role === 'assistant' && m.citations?.length === 0 && (
+                <p className="text-[10px] uppercase font-bold text-amber-600">No supporting passage found</p>
+              )}
+            </div>
+          </div>
+        ))}
+        {isAsking && <p className="text-xs text-slate-400 animate-pulse">Reading the transcription…</p>}
+        <div ref={endRef} />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="What did the professor say about…?"
+          className="flex-1 px-4 py-2 bg-slate-50 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        <button type="submit" disabled={!question.trim() || isAsking} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold disabled:opacity-50">Ask</button>
+      </form>
+      {thread.length > 0 && (
+        <button onClick={onClear} className="text-xs text-slate-400 hover:text-red-500">Clear conversation</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { NoteContent, QuestionType, QuizItem } from '../types';
+import { validateQuizItem } from '../utils/notesValidator';
+
+const INPUT = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 focus:outline-none focus:border-indigo-400';
+
+const EditorButtons = ({ onSave, onCancel, disabled }: { onSave: () => void, onCancel: () => void, disabled?: boolean }) => (
+  <div className="flex justify-end gap-2">
+    <button onClick={onCancel} className="px-3 py-1.5 text-xs font-bold text-slate-500">Cancel</button>
+    <button onClick={onSave} disabled={disabled} className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50">Save</button>
+  </div>
+);
+
+/** Marks a section whose current content was written or changed by a person. */
+export const EditedBadge = () => (
+  <span title="Changed by you; see the revision history" className="px-2 py-0.5 bg-amber-50 text-amber-700 rounded-full text-[10px] font-bold">✎ Edited</span>
+);
+
+/** Shows `children`, or an input for `value` while editing. Empty text is not saved. */
+export const EditableText = ({ value, onSave, multiline = false, children }: {
+  value: string,
+  onSave: (value: string) => void,
+  multiline?: boolean,
+  children: React.ReactNode
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft === null) {
+    return (
+      <div className="group relative">
+        {children}
+        <button onClick={() => setDraft(value)} title="Edit" className="absolute -right-2 -top-2 opacity-0 group-hover:opacity-100 px-2 py-0.5 bg-white border border-slate-200 rounded-lg text-xs text-slate-500 hover:text-indigo-600">✎</button>
+      </div>
+    );
+  }
+  const save = () => {
+    if (draft.trim() && draft.trim() !== value) onSave(draft.trim());
+    setDraft(null);
+  };
+  return (
+    <div className="space-y-2">
+      {multiline
+        ? <textarea value={draft} onChange={e => setDraft(e.target.value)} rows={8} className={INPUT} autoFocus />
+        : <input value={draft} onChange={e => setDraft(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') save(); if (e.key === 'Escape') setDraft(null); }} className={INPUT} autoFocus />}
+      <EditorButtons onSave={save} onCancel={() => setDraft(null)} disabled={!draft.trim()} />
+    </div>
+  );
+};
+
+/** Key concepts, one "Term: definition" per row. */
+export const ConceptsEditor = ({ concepts, onSave, onCancel }: {
+  concepts: string[],
+  onSave: (concepts: string[]) => void,
+  onCancel: () => void
+}) => {
+  const [rows, setRows] = useState(concepts);
+  const change = (i: number, text: string) => setRows(prev => prev.map((r, j) => (j === i ? text : r)));
+  return (
+    <div className="space-y-2">
+      {rows.map((row, i) => (
+        <div key={i} className="flex gap-1">
+          <input value={row} onChange={e => change(i, e.target.value)} placeholder="Term: definition" className={INPUT} />
+          <button onClick={() => setRows(prev => prev.filter((_, j) => j !== i))} title="Delete" className="px-2 text-slate-400 hover:text-red-500">×</button>
+        </div>
+      ))}
+      <button onClick={() => setRows(prev => [...prev, ''])} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">+ Add concept</button>
+      <EditorButtons onSave={() => onSave(rows.map(r => r.trim()).filter(Boolean))} onCancel={onCancel} />
+    </div>
+  );
+};
+
+type ActionItemContent = NoteContent['actionItems'][number];
+
+export const ActionItemsEditor = ({ items, onSave, onCancel }: {
+  items: ActionItemContent[],
+  onSave: (items: ActionItemContent[]) => void,
+  onCancel: () => void
+}) => {
+  const [rows, setRows] = useState(items);
+  const change = (id: string, changes: Partial<ActionItemContent>) =>
+    setRows(prev => prev.map(r => (r.id === id ? { ...r, ...changes } : r)));
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.id} className="flex gap-1 items-center">
+          <input value={row.text} onChange={e => change(row.id, { text: e.target.value })} placeholder="What needs doing" className={INPUT} />
+          <input type="date" value={row.due || ''} onChange={e => change(row.id, { due: e.target.value || undefined })} className="text-xs text-slate-500 bg-transparent" />
+          <button onClick={() => setRows(prev => prev.filter(r => r.id !== row.id))} title="Delete" className="px-2 text-slate-400 hover:text-red-500">×</button>
+        </div>
+      ))}
+      <button onClick={() => setRows(prev => [...prev, { id: crypto.randomUUID(), text: '' }])} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">+ Add item</button>
+      <EditorButtons
+        onSave={() => onSave(rows.map(r => ({ ...r, text: r.text.trim() })).filter(r => r.text))}
+        onCancel={onCancel}
+      />
+    </div>
+  );
+};
+
+const QUESTION_TYPES: { id: QuestionType; label: string }[] = [
+  { id: 'multiple-choice', label: 'Multiple choice' },
+  { id: 'true-false', label: 'True / false' },
+  { id: 'multi-select', label: 'Multi-select' },
+  { id: 'short-answer', label: 'Short answer' },
+  { id: 'cloze', label: 'Cloze (fill in ____)' }
+];
+
+const lines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const QuizItemForm = ({ item, transcript, onSave, onCancel }: {
+  item: QuizItem,
+  transcript: string,
+  onSave: (item: QuizItem) => void,
+  onCancel: () => void
+}) => {
+  const [type, setType] = useState<QuestionType>(item.type || 'multiple-choice');
+  const [question, setQuestion] = useState(item.question);
+  const [options, setOptions] = useState(item.options.join('\n'));
+  const [answer, setAnswer] = useState(type === 'cloze' || type === 'multi-select' ? (item.answers || []).join('\n') : item.answer);
+  const [explanation, setExplanation] = useState(item.explanation || '');
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const hasOptions = type === 'multiple-choice' || type === 'multi-select';
+  const answerHint = type === 'multi-select' ? 'Correct options, one per line'
+    : type === 'cloze' ? 'The word for each ____ blank, one per line'
+    : type === 'true-false' ? 'True or False'
+    : type === 'short-answer' ? 'Reference answer'
+    : 'The correct option, exactly as written';
+
+  // The same checks as generated questions, so edits cannot break the quiz.
+  const save = () => {
+    const warnings: string[] = [];
+    const listed = type === 'multi-select' || type === 'cloze';
+    const validated = validateQuizItem({
+      type,
+      question,
+      options: hasOptions ? lines(options) : [],
+      answer: listed ? lines(answer).join('; ') : answer,
+      ...(listed && { answers: lines(answer) }),
+      explanation,
+      excerpt: item.excerpt
+    }, 0, warnings, { transcript });
+    if (!validated) {
+      setProblem(warnings[warnings.length - 1].replace(/^Quiz question 1 (\("[^"]*"\) )?/, 'This question ').replace(/ and was dropped\.$/, '.'));
+      return;
+    }
+    onSave({ ...validated, ...(item.segmentId && { segmentId: item.segmentId }) });
+  };
+
+  return (
+    <div className="space-y-2 p-4 bg-slate-50 rounded-2xl">
+      <select value={type} onChange={e => setType(e.target.value as QuestionType)} className="text-xs bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-600">
+        {QUESTION_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+      </select>
+      <textarea value={question} onChange={e => setQuestion(e.target.value)} rows={2} placeholder="Question" className={INPUT} />
+      {hasOptions && <textarea value={options} onChange={e => setOptions(e.target.value)} rows={4} placeholder="Options, one per line" className={INPUT} />}
+      <textarea value={answer} onChange={e => setAnswer(e.target.value)} rows={type === 'short-answer' || type === 'multi-select' || type === 'cloze' ? 3 : 1} placeholder={answerHint} className={INPUT} />
+      <textarea value={explanation} onChange={e => setExplanation(e.target.value)} rows={2} placeholder="Explanation (optional)" className={INPUT} />
+      {problem && <p className="text-xs text-red-600">{problem}</p>}
+      <EditorButtons onSave={save} onCancel={onCancel} />
+    </div>
+  );
+};
+
+const BLANK_QUESTION: QuizItem = { question: '', options: [], answer: '' };
+
+/** Quiz questions and flashcards, edited together and saved as one revision. */
+export const StudyItemsEditor = ({ quiz, flashcards, transcript, onSave, onClose }: {
+  quiz: QuizItem[],
+  flashcards: NoteContent['flashcards'],
+  transcript: string,
+  onSave: (quiz: QuizItem[], flashcards: NoteContent['flashcards']) => void,
+  onClose: () => void
+}) => {
+  const [tab, setTab] = useState<'quiz' | 'flashcards'>('quiz');
+  const [questions, setQuestions] = useState(quiz);
+  const [cards, setCards] = useState(flashcards);
+  // Index of the question being edited; questions.length for a new one.
+  const [editing, setEditing] = useState<number | null>(null);
+
+  const saveQuestion = (item: QuizItem) => {
+    setQuestions(prev => (editing === prev.length ? [...prev, item] : prev.map((q, i) => (i === editing ? item : q))));
+    setEditing(null);
+  };
+  const changeCard = (i: number, side: 'front' | 'back', text: string) =>
+    setCards(prev => prev.map((c, j) => (j === i ? { ...c, [side]: text } : c)));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col p-8 space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black text-slate-900">Edit Study Tools</h3>
+          <div className="flex bg-slate-100 rounded-xl p-1 text-xs font-bold">
+            {(['quiz', 'flashcards'] as const).map(t => (
+              <button key={t} onClick={() => setTab(t)} className={`px-3 py-1 rounded-lg ${tab === t ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}>
+                {t === 'quiz' ? `Quiz (${questions.length})` : `Flashcards (${cards.length})`}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {tab === 'quiz' ? (
+            <>
+              {questions.map((q, i) => (
+                <div key={i}>
+                  {editing === i ? (
+                    <QuizItemForm item={q} transcript={transcript} onSave={saveQuestion} onCancel={() => setEditing(null)} />
+                  ) : (
+                    <div className="flex gap-2 items-start p-3 border border-slate-100 rounded-xl">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-700">{q.question}</p>
+                        <p className="text-xs text-green-700">{q.answer}</p>
+                      </div>
+                      <button onClick={() => setEditing(i)} disabled={editing !== null} className="text-xs font-bold text-indigo-600 disabled:opacity-40">Edit</button>
+                      <button onClick={() => setQuestions(prev => prev.filter((_, j) => j !== i))} disabled={editing !== null} className="text-xs font-bold text-slate-400 hover:text-red-500 disabled:opacity-40">Delete</button>
+                    </div>
+                  )}
+                </div>
+              ))}
+              {editing === questions.length
+                ? <QuizItemForm item={BLANK_QUESTION} transcript={transcript} onSave={saveQuestion} onCancel={() => setEditing(null)} />
+                : <button onClick={() => setEditing(questions.length)} disabled={editing !== null} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 disabled:opacity-40">+ Add question</button>}
+            </>
+          ) : (
+            <>
+              {cards.map((card, i) => (
+                <div key={i} className="flex gap-2 items-start">
+                  <textarea value={card.front} onChange={e => changeCard(i, 'front', e.target.value)} rows={2} placeholder="Front" className={INPUT} />
+                  <textarea value={card.back} onChange={e => changeCard(i, 'back', e.target.value)} rows={2} placeholder="Back" className={INPUT} />
+                  <button onClick={() => setCards(prev => prev.filter((_, j) => j !== i))} title="Delete" className="px-2 pt-2 text-slate-400 hover:text-red-500">×</button>
+                </div>
+              ))}
+              <button onClick={() => setCards(prev => [...prev, { front: '', back: '' }])} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">+ Add flashcard</button>
+            </>
+          )}
+        </div>
+        {editing !== null && <p className="text-xs text-amber-600">Save or cancel the open question first.</p>}
+        <EditorButtons
+          onSave={() => onSave(questions, cards.map(c => ({ front: c.front.trim(), back: c.back.trim() })).filter(c => c.front && c.back))}
+          onCancel={onClose}
+          disabled={editing !== null}
+        />
+      </div>
+    </div>
+  );
+};
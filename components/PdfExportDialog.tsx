@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Course, SmartNotes } from '../types';
+import { downloadBlob } from '../utils/download';
+import { DEFAULT_PDF_OPTIONS, generatePDF, PDF_SECTIONS, PdfLayout, PdfSection } from '../utils/pdfGenerator';
+
+const LAYOUTS: { id: PdfLayout; label: string; hint: string }[] = [
+  { id: 'study-guide', label: 'Study guide', hint: 'The sections you pick, with a linked table of contents.' },
+  { id: 'cut-sheets', label: 'Flashcard cut-sheets', hint: 'Eight cards per sheet. Print double-sided, flipping on the long edge, and cut along the dashes.' },
+  { id: 'exam', label: 'Exam + answer key', hint: 'The quiz without answers, followed by an answer key on separate pages.' }
+];
+
+export const PdfExportDialog = ({ note, course, onClose }: {
+  note: SmartNotes,
+  course?: Course,
+  onClose: () => void
+}) => {
+  const [layout, setLayout] = useState<PdfLayout>(DEFAULT_PDF_OPTIONS.layout);
+  const [sections, setSections] = useState<PdfSection[]>(DEFAULT_PDF_OPTIONS.sections);
+  const [includeQuiz, setIncludeQuiz] = useState(DEFAULT_PDF_OPTIONS.includeQuiz);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleSection = (id: PdfSection) =>
+    setSections(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  const cardCount = (note.flashcards?.length || 0) + (includeQuiz ? note.quiz?.length || 0 : 0);
+  const empty = layout === 'study-guide' ? sections.length === 0
+    : layout === 'exam' ? !note.quiz?.length
+    : cardCount === 0;
+
+  const exportPdf = () => {
+    setError(null);
+    try {
+      const { blob, filename } = generatePDF(note, { layout, sections, includeQuiz }, course);
+      downloadBlob(blob, filename);
+      onClose();
+    } catch (err) {
+      console.error("PDF export failed:", err);
+      setError("Could not build the PDF. Please try again.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md p-8 space-y-5" onClick={e => e.stopPropagation()}>
+        <div>
+          <h3 className="text-xl font-black text-slate-900">Export PDF</h3>
+          <p className="text-xs text-slate-400 truncate">{note.title}</p>
+        </div>
+        <div className="space-y-2">
+          {LAYOUTS.map(l => (
+            <button
+              key={l.id}
+              onClick={() => setLayout(l.id)}
+              className={`w-full p-3 text-left rounded-xl border-2 transition-all ${layout === l.id ? 'border-indigo-600 bg-indigo-50' : 'border-slate-100 hover:border-slate-200'}`}
+            >
+              <span className="block text-sm font-bold text-slate-800">{l.label}</span>
+              <span className="block text-[10px] text-slate-500">{l.hint}</span>
+            </button>
+          ))}
+        </div>
+        {layout === 'study-guide' && (
+          <div className="space-y-1">
+            <span className="text-xs font-bold text-slate-500">Sections</span>
+            <div className="grid grid-cols-2 gap-1">
+              {PDF_SECTIONS.map(s => (
+                <label key={s.id} className="flex items-center gap-2 text-sm text-slate-600">
+                  <input type="checkbox" checked={sections.includes(s.id)} onChange={() => toggleSection(s.id)} />
+                  {s.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+        {layout === 'cut-sheets' && (
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={includeQuiz} onChange={e => setIncludeQuiz(e.target.checked)} />
+            Include quiz questions as cards
+          </label>
+        )}
+        {empty && (
+          <p className="text-xs text-amber-600">
+            {layout === 'exam' ? 'This lecture has no quiz yet.' : layout === 'cut-sheets' ? 'This lecture has no flashcards yet.' : 'Pick at least one section.'}
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-slate-500">Cancel</button>
+          <button
+            onClick={exportPdf}
+            disabled={empty}
+            className="px-5 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
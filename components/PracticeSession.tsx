@@ -0,0 +1,168 @@
+import React, { useRef, useState } from 'react';
+import { Flashcard, QuestionResult, QuizItem, ReviewGrade } from '../types';
+import { PracticeItem } from '../utils/practice';
+import { gradeResponse, isResponseComplete, questionType, QUESTION_TYPE_LABELS } from '../utils/quizGrading';
+import { FlipCard, GradeButtons } from './Flashcards';
+import { QuestionInput } from './Quiz';
+
+export interface PracticeResult {
+  noteId: string;
+  result: QuestionResult;
+  variant: boolean;
+  elapsedMs: number;
+}
+
+/**
+ * Works through a mixed weak-spots session: missed questions, fresh
+ * variants of them and hard cards. Cards are graded as they go; question
+ * results are handed to `onComplete` once the last item is done.
+ */
+export const PracticeSession = ({ items, noteTitle, gradeShortAnswer, onShowSource, onGradeCard, onComplete, onRestart }: {
+  items: PracticeItem[],
+  noteTitle: (noteId: string) => string,
+  gradeShortAnswer?: (item: QuizItem, response: string) => Promise<{ correct: boolean; feedback: string }>,
+  onShowSource?: (noteId: string, segmentId: string) => void,
+  // Cards are passed as they were when the session began; the note may have changed since.
+  onGradeCard: (noteId: string, card: Flashcard, grade: ReviewGrade, elapsedMs: number) => void,
+  onComplete: (results: PracticeResult[]) => void,
+  onRestart: () => void
+}) => {
+  const [position, setPosition] = useState(0);
+  const [response, setResponse] = useState<string[]>([]);
+  const [result, setResult] = useState<QuestionResult | null>(null);
+  const [results, setResults] = useState<PracticeResult[]>([]);
+  const [cardGrades, setCardGrades] = useState<ReviewGrade[]>([]);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [gradeError, setGradeError] = useState<string | null>(null);
+  const shownAtRef = useRef(Date.now());
+
+  const current = items[position];
+  const finished = position >= items.length;
+
+  const advance = (all: PracticeResult[]) => {
+    if (position === items.length - 1) onComplete(all);
+    setPosition(p => p + 1);
+    setResponse([]);
+    setResult(null);
+    setIsFlipped(false);
+    shownAtRef.current = Date.now();
+  };
+
+  const check = async (item: QuizItem) => {
+    setGradeError(null);
+    let graded: QuestionResult = { question: item.question, correct: gradeResponse(item, response), response };
+    if (questionType(item) === 'short-answer' && gradeShortAnswer) {
+      setGrading(true);
+      try {
+        const { correct, feedback } = await gradeShortAnswer(item, response[0] || '');
+        graded = { ...graded, correct, ...(feedback && { feedback }) };
+      } catch (err: any) {
+        setGradeError(err.message);
+        return;
+      } finally {
+        setGrading(false);
+      }
+    }
+    setResult(graded);
+  };
+
+  const nextQuestion = () => {
+    if (current?.kind !== 'question' || !result) return;
+    const all = [...results, { noteId: current.noteId, result, variant: current.variant, elapsedMs: Date.now() - shownAtRef.current }];
+    setResults(all);
+    advance(all);
+  };
+
+  const gradeCard = (grade: ReviewGrade) => {
+    if (current?.kind !== 'card') return;
+    onGradeCard(current.noteId, current.card, grade, Date.now() - shownAtRef.current);
+    setCardGrades(g => [...g, grade]);
+    advance(results);
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center p-8 space-y-4">
+        <div className="text-4xl">💪</div>
+        <h4 className="text-2xl font-bold text-slate-800">No weak spots right now</h4>
+        <p className="text-slate-500">Questions you get wrong and cards you mark hard will be gathered here for practice.</p>
+      </div>
+    );
+  }
+
+  if (finished) {
+    const correct = results.filter(r => r.result.correct).length;
+    const recalled = cardGrades.filter(g => g !== 'again').length;
+    return (
+      <div className="text-center p-8 space-y-6">
+        <h4 className="text-2xl font-bold text-slate-800">Practice Finished!</h4>
+        <div className="flex justify-center gap-12">
+          {results.length > 0 && (
+            <div>
+              <p className="text-4xl font-black text-indigo-600">{correct} / {results.length}</p>
+              <p className="text-xs text-slate-400 font-bold uppercase">questions right</p>
+            </div>
+          )}
+          {cardGrades.length > 0 && (
+            <div>
+              <p className="text-4xl font-black text-amber-500">{recalled} / {cardGrades.length}</p>
+              <p className="text-xs text-slate-400 font-bold uppercase">cards recalled</p>
+            </div>
+          )}
+        </div>
+        <button onClick={onRestart} className="text-indigo-600 font-bold underline">Practise again</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center text-xs text-slate-400">
+        <span>
+          {position + 1} of {items.length} · {current.kind === 'card' ? 'Flashcard' : QUESTION_TYPE_LABELS[questionType(current.item)]}
+          {current.kind === 'question' && current.variant && <span className="ml-2 px-2 py-0.5 bg-violet-50 text-violet-600 rounded-full font-bold">✦ New variant</span>}
+        </span>
+        <span className="font-bold truncate max-w-[50%]">{noteTitle(current.noteId)}</span>
+      </div>
+      {current.kind === 'card' ? (
+        <div className="flex flex-col items-center gap-8">
+          <FlipCard card={current.card} isFlipped={isFlipped} onFlip={() => setIsFlipped(!isFlipped)} />
+          {isFlipped
+            ? <GradeButtons card={current.card} onGrade={gradeCard} />
+            : <p className="text-xs text-slate-400">Click the card to reveal the answer</p>}
+        </div>
+      ) : (
+        <>
+          {questionType(current.item) !== 'cloze' && <h4 className="text-lg font-bold text-slate-800">{current.item.question}</h4>}
+          <QuestionInput item={current.item} response={response} setResponse={setResponse} locked={!!result} />
+          {gradeError && <p className="text-sm text-red-600">{gradeError}</p>}
+          {result && (
+            <div className={`p-4 rounded-xl space-y-2 text-sm ${result.correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+              <p className="font-bold">{result.correct ? '✓ Correct' : `✗ Not quite — ${questionType(current.item) === 'short-answer' ? 'a model answer' : 'the answer'}: ${current.item.answer}`}</p>
+              {result.feedback && <p>{result.feedback}</p>}
+              {current.item.explanation && <p className="text-slate-600">{current.item.explanation}</p>}
+              {current.item.excerpt && <blockquote className="pl-3 border-l-2 border-slate-300 italic text-slate-500">“{current.item.excerpt}”</blockquote>}
+              {current.item.segmentId && onShowSource && (
+                <button onClick={() => onShowSource(current.noteId, current.item.segmentId!)} className="text-xs font-bold text-indigo-500 hover:text-indigo-700">📍 See where this came up in the lecture</button>
+              )}
+            </div>
+          )}
+          {result ? (
+            <button onClick={nextQuestion} className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold">
+              {position === items.length - 1 ? 'Finish' : 'Next'}
+            </button>
+          ) : (
+            <button
+              disabled={!isResponseComplete(current.item, response) || grading}
+              onClick={() => check(current.item)}
+              className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold disabled:opacity-50"
+            >
+              {grading ? 'Grading…' : 'Check Answer'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
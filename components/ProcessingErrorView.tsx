@@ -0,0 +1,91 @@
+import React from 'react';
+import { ProcessingError, ProcessingErrorKind } from '../utils/errors';
+
+type Recovery = 'retry' | 'settings' | 'choose-file';
+
+const HELP: Record<Exclude<ProcessingErrorKind, 'cancelled'>, { title: string; hint: string; actions: Recovery[] }> = {
+  auth: {
+    title: 'Provider Not Authorised',
+    hint: 'Check the API key, base URL and model for your AI provider.',
+    actions: ['settings']
+  },
+  quota: {
+    title: 'Rate Limit or Quota Reached',
+    hint: 'We retried a few times already. Wait a minute before trying again, or switch to another provider.',
+    actions: ['retry', 'settings']
+  },
+  unsupported: {
+    title: 'Unsupported File',
+    hint: 'Supported: audio, MP4 video, PDF, PowerPoint (.pptx), Word (.docx), images, text, Markdown, web pages and SRT/VTT subtitles. Convert it to one of these, or pick a provider that accepts this format.',
+    actions: ['choose-file', 'settings']
+  },
+  'too-large': {
+    title: 'File Too Large',
+    hint: 'Split the recording or document into smaller parts, or compress it, then import the parts.',
+    actions: ['choose-file']
+  },
+  'invalid-output': {
+    title: 'Unusable AI Response',
+    hint: 'The model kept returning malformed notes. This is usually a one-off, so try again; Deep Analysis uses a stronger model.',
+    actions: ['retry', 'settings']
+  },
+  network: {
+    title: 'Connection Problem',
+    hint: 'The provider could not be reached after several attempts. Check your connection, then retry.',
+    actions: ['retry']
+  },
+  unknown: {
+    title: 'Processing Error',
+    hint: 'Something unexpected went wrong.',
+    actions: ['retry', 'choose-file']
+  }
+};
+
+const ACTION_LABELS: Record<Recovery, string> = {
+  retry: 'Try Again',
+  settings: 'Open Settings',
+  'choose-file': 'Choose Another File'
+};
+
+export const ProcessingErrorView = ({ error, onRetry, onOpenSettings, onDismiss }: {
+  error: ProcessingError,
+  // Absent when there is nothing to retry (the file is gone).
+  onRetry?: () => void,
+  onOpenSettings: () => void,
+  onDismiss: () => void
+}) => {
+  const help = HELP[error.kind === 'cancelled' ? 'unknown' : error.kind];
+  const handlers: Record<Recovery, (() => void) | undefined> = {
+    retry: onRetry,
+    settings: onOpenSettings,
+    'choose-file': onDismiss
+  };
+  const actions = help.actions.filter(a => handlers[a]);
+
+  return (
+    <div className="max-w-md mx-auto p-8 bg-red-50 text-center space-y-6 rounded-3xl border border-red-100 animate-in shake">
+      <div className="text-4xl">⚠️</div>
+      <div className="space-y-2">
+        <h3 className="text-xl font-bold text-red-800">{help.title}</h3>
+        <p className="text-red-600 text-sm">{error.message}</p>
+        <p className="text-slate-500 text-xs">{help.hint}</p>
+      </div>
+      <div className="flex flex-wrap justify-center gap-3">
+        {actions.map((action, i) => (
+          <button
+            key={action}
+            onClick={handlers[action]}
+            className={i === 0
+              ? 'px-6 py-2 bg-red-600 text-white rounded-full font-bold hover:bg-red-700'
+              : 'px-6 py-2 bg-white border border-red-200 text-red-700 rounded-full font-bold hover:bg-red-100'}
+          >
+            {ACTION_LABELS[action]}
+          </button>
+        ))}
+        {!actions.includes('choose-file') && (
+          <button onClick={onDismiss} className="px-4 py-2 text-sm font-bold text-slate-500">Back</button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import { QuestionResult, QuizAttempt, QuizItem } from '../types';
+import { shuffleOptions } from '../utils/practice';
+import { attemptScore, CLOZE_BLANK, gradeResponse, isResponseComplete, matchesBlank, missedQuestions, questionType, QUESTION_TYPE_LABELS } from '../utils/quizGrading';
+
+export const QuestionInput = ({ item, response, setResponse, locked }: {
+  item: QuizItem,
+  response: string[],
+  setResponse: (response: string[]) => void,
+  locked: boolean
+}) => {
+  const type = questionType(item);
+  const optionClass = (opt: string) => {
+    const chosen = response.includes(opt);
+    if (locked) {
+      const correct = type === 'multi-select' ? (item.answers || []).includes(opt) : opt === item.answer;
+      if (correct) return 'border-green-500 bg-green-50 text-green-700';
+      if (chosen) return 'border-red-400 bg-red-50 text-red-600';
+      return 'border-slate-100 text-slate-400';
+    }
+    return chosen ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-100 hover:border-slate-200';
+  };
+
+  if (type === 'short-answer') {
+    return (
+      <textarea
+        value={response[0] || ''}
+        onChange={e => setResponse([e.target.value])}
+        disabled={locked}
+        rows={3}
+        placeholder="Type your answer…"
+        className="w-full p-4 rounded-xl border-2 border-slate-100 focus:border-indigo-600 outline-none text-sm"
+      />
+    );
+  }
+
+  if (type === 'cloze') {
+    const parts = item.question.split(CLOZE_BLANK);
+    return (
+      <p className="text-lg leading-loose text-slate-700">
+        {parts.map((part, i) => (
+          <React.Fragment key={i}>
+            {part}
+            {i < parts.length - 1 && (
+              <input
+                value={response[i] || ''}
+                onChange={e => { const next = [...response]; next[i] = e.target.value; setResponse(next); }}
+                disabled={locked}
+                className={`mx-1 w-32 px-2 border-b-2 outline-none text-center bg-transparent ${
+                  locked ? (matchesBlank(response[i] || '', item.answers?.[i] || '') ? 'border-green-500 text-green-700' : 'border-red-400 text-red-600') : 'border-indigo-300 focus:border-indigo-600'
+                }`}
+              />
+            )}
+          </React.Fragment>
+        ))}
+      </p>
+    );
+  }
+
+  const toggle = (opt: string) => {
+    if (type !== 'multi-select') return setResponse([opt]);
+    setResponse(response.includes(opt) ? response.filter(r => r !== opt) : [...response, opt]);
+  };
+  return (
+    <div className={type === 'true-false' ? 'grid grid-cols-2 gap-2' : 'space-y-2'}>
+      {item.options.map((opt, i) => (
+        <button
+          key={i}
+          onClick={() => toggle(opt)}
+          disabled={locked}
+          className={`w-full p-4 text-left rounded-xl border-2 transition-all ${optionClass(opt)}`}
+        >
+          {type === 'multi-select' && <span className="mr-2">{response.includes(opt) ? '☑' : '☐'}</span>}
+          {opt}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Runs a quiz one question at a time, showing the explanation and source
+ * after each answer. Finished attempts are handed to `onComplete`; the last
+ * recorded attempt drives "retry the ones I missed".
+ */
+export const QuizComponent = ({ quiz, onShowSource, attempts = [], onComplete, gradeShortAnswer }: {
+  quiz: QuizItem[],
+  onShowSource?: (segmentId: string) => void,
+  attempts?: QuizAttempt[],
+  onComplete?: (attempt: QuizAttempt) => void,
+  // Without a grader, short answers are compared with the reference answer.
+  gradeShortAnswer?: (item: QuizItem, response: string) => Promise<{ correct: boolean; feedback: string }>
+}) => {
+  // Indices of the questions in this run; null runs the whole quiz.
+  const [subset, setSubset] = useState<number[] | null>(null);
+  const [mode, setMode] = useState<QuizAttempt['mode']>('full');
+  const [position, setPosition] = useState(0);
+  const [response, setResponse] = useState<string[]>([]);
+  const [result, setResult] = useState<QuestionResult | null>(null);
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [grading, setGrading] = useState(false);
+  const [gradeError, setGradeError] = useState<string | null>(null);
+  const [finished, setFinished] = useState<QuizAttempt | null>(null);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  // Options are reshuffled on every run, so answers aren't learnt by position.
+  const shuffled = useMemo(() => quiz.map(q => shuffleOptions(q)), [quiz, startedAt]);
+
+  if (quiz.length === 0) {
+    return <p className="text-center text-slate-400 italic">This note has no quiz questions.</p>;
+  }
+
+  const order = subset ?? quiz.map((_, i) => i);
+  const lastAttempt = finished || attempts[attempts.length - 1];
+  const missed = lastAttempt ? missedQuestions(quiz, lastAttempt) : [];
+
+  const start = (indices: number[] | null, nextMode: QuizAttempt['mode']) => {
+    setSubset(indices);
+    setMode(nextMode);
+    setPosition(0);
+    setResponse([]);
+    setResult(null);
+    setResults([]);
+    setFinished(null);
+    setStartedAt(Date.now());
+  };
+
+  const q = shuffled[order[position]] ?? shuffled[0];
+
+  const check = async () => {
+    setGradeError(null);
+    let graded: QuestionResult = { question: q.question, correct: gradeResponse(q, response), response };
+    if (questionType(q) === 'short-answer' && gradeShortAnswer) {
+      setGrading(true);
+      try {
+        const { correct, feedback } = await gradeShortAnswer(q, response[0] || '');
+        graded = { ...graded, correct, ...(feedback && { feedback }) };
+      } catch (err: any) {
+        setGradeError(err.message);
+        return;
+      } finally {
+        setGrading(false);
+      }
+    }
+    setResult(graded);
+  };
+
+  const next = () => {
+    const all = [...results, result!];
+    setResults(all);
+    setResult(null);
+    setResponse([]);
+    if (position < order.length - 1) {
+      setPosition(p => p + 1);
+      return;
+    }
+    const attempt: QuizAttempt = { id: crypto.randomUUID(), timestamp: Date.now(), mode, results: all, startedAt };
+    setFinished(attempt);
+    onComplete?.(attempt);
+  };
+
+  if (finished) {
+    const { correct, total } = attemptScore(finished);
+    const previous = attempts.filter(a => a.id !== finished.id).slice(-5).reverse();
+    return (
+      <div className="text-center p-8 space-y-6">
+        <h4 className="text-2xl font-bold text-slate-800">{mode === 'missed' ? 'Retry Finished!' : 'Quiz Finished!'}</h4>
+        <p className="text-4xl font-black text-indigo-600">{correct} / {total}</p>
+        <div className="flex justify-center gap-6">
+          <button onClick={() => start(null, 'full')} className="text-indigo-600 font-bold underline">Try Again</button>
+          {missed.length > 0 && (
+            <button onClick={() => start(missed, 'missed')} className="text-indigo-600 font-bold underline">Retry the {missed.length} I missed</button>
+          )}
+        </div>
+        {previous.length > 0 && (
+          <div className="pt-6 border-t border-slate-100 text-left">
+            <h5 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-2">Earlier attempts</h5>
+            <ul className="space-y-1 text-xs text-slate-500">
+              {previous.map(a => {
+                const score = attemptScore(a);
+                return (
+                  <li key={a.id} className="flex justify-between">
+                    <span>{new Date(a.timestamp).toLocaleString()}{a.mode === 'missed' && ' · missed only'}{a.mode === 'practice' && ' · weak spots'}</span>
+                    <span className="font-bold">{score.correct} / {score.total}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center text-xs text-slate-400">
+        <span>
+          Question {position + 1} of {order.length} · {QUESTION_TYPE_LABELS[questionType(q)]}
+          {mode === 'missed' && ' · retrying missed'}
+        </span>
+        {position === 0 && !result && mode === 'full' && missed.length > 0 && (
+          <button onClick={() => start(missed, 'missed')} className="font-bold text-indigo-500 hover:text-indigo-700">
+            Retry only the {missed.length} missed last time
+          </button>
+        )}
+      </div>
+      {questionType(q) !== 'cloze' && <h4 className="text-lg font-bold text-slate-800">{q.question}</h4>}
+      <QuestionInput item={q} response={response} setResponse={setResponse} locked={!!result} />
+      {gradeError && <p className="text-sm text-red-600">{gradeError}</p>}
+      {result && (
+        <div className={`p-4 rounded-xl space-y-2 text-sm ${result.correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          <p className="font-bold">{result.correct ? '✓ Correct' : `✗ Not quite — ${questionType(q) === 'short-answer' ? 'a model answer' : 'the answer'}: ${q.answer}`}</p>
+          {result.feedback && <p>{result.feedback}</p>}
+          {q.explanation && <p className="text-slate-600">{q.explanation}</p>}
+          {q.excerpt && <blockquote className="pl-3 border-l-2 border-slate-300 italic text-slate-500">“{q.excerpt}”</blockquote>}
+          {q.segmentId && onShowSource && (
+            <button onClick={() => onShowSource(q.segmentId!)} className="text-xs font-bold text-indigo-500 hover:text-indigo-700">📍 See where this came up in the lecture</button>
+          )}
+        </div>
+      )}
+      {result ? (
+        <button onClick={next} className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold">
+          {position === order.length - 1 ? 'Finish' : 'Next Question'}
+        </button>
+      ) : (
+        <button
+          disabled={!isResponseComplete(q, response) || grading}
+          onClick={check}
+          className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold disabled:opacity-50"
+        >
+          {grading ? 'Grading…' : 'Check Answer'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { formatTimestamp } from '../utils/mediaSegmenter';
+import { AudioRecorder, RecorderState } from '../utils/audioRecorder';
+
+const METER_BARS = 24;
+
+export const RecordingPanel = ({ recorder, onStop, onDiscard }: {
+  recorder: AudioRecorder,
+  onStop: () => void,
+  onDiscard: () => void
+}) => {
+  const [state, setState] = useState<RecorderState>(recorder.state());
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      setElapsed(recorder.elapsedMs());
+      setLevel(recorder.state() === 'recording' ? recorder.level() : 0);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [recorder]);
+
+  const togglePause = () => {
+    if (state === 'recording') recorder.pause();
+    else recorder.resume();
+    setState(recorder.state());
+  };
+
+  const paused = state === 'paused';
+  const lit = Math.round(level * METER_BARS);
+
+  return (
+    <div className="flex flex-col items-center justify-center py-20 space-y-8">
+      <div className="relative">
+        {!paused && <div className="absolute inset-0 bg-red-500 rounded-full animate-ping opacity-20" />}
+        <div className={`w-24 h-24 rounded-full flex items-center justify-center text-white text-4xl shadow-xl relative z-10 ${paused ? 'bg-slate-400' : 'bg-red-500'}`}>🎙️</div>
+      </div>
+      <div className="text-center space-y-4">
+        <h3 className="text-2xl font-bold text-slate-800">{paused ? 'Recording Paused' : 'Listening to Lecture...'}</h3>
+        <p className="text-4xl font-mono font-bold text-slate-900">{formatTimestamp(elapsed / 1000)}</p>
+        <div className="flex items-end justify-center gap-1 h-10" aria-label="Input level">
+          {Array.from({ length: METER_BARS }, (_, i) => (
+            <div
+              key={i}
+              className={`w-2 rounded-sm transition-colors ${i < lit ? (i >= METER_BARS * 0.85 ? 'bg-red-500' : i >= METER_BARS * 0.6 ? 'bg-amber-400' : 'bg-green-500') : 'bg-slate-200'}`}
+              style={{ height: `${30 + (i / METER_BARS) * 70}%` }}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-slate-400">Audio is saved as you record, so nothing is lost if the tab closes.</p>
+        <div className="flex justify-center gap-3 pt-2">
+          <button onClick={togglePause} className="px-6 py-3 bg-white border border-slate-200 text-slate-700 rounded-full font-bold hover:bg-slate-50">
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          <button onClick={onStop} className="px-8 py-3 bg-slate-900 text-white rounded-full font-bold shadow-lg hover:bg-black">Stop & Process</button>
+          <button onClick={onDiscard} className="px-4 py-3 text-sm font-bold text-slate-400 hover:text-red-500">Discard</button>
+        </div>
+      </div>
+    </div>
+  );
+};
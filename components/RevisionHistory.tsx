@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { NoteRevision, SmartNotes } from '../types';
+import { changedFields, CONTENT_FIELD_LABELS, diffContent, DiffPart, noteContent } from '../utils/revisions';
+
+const AUTHOR_STYLES = {
+  ai: { label: '✦ AI', className: 'bg-indigo-50 text-indigo-600' },
+  user: { label: '✎ You', className: 'bg-amber-50 text-amber-700' }
+};
+
+const DiffText = ({ parts, lists }: { parts: DiffPart[], lists: boolean }) => {
+  if (parts.length === 0) return <p className="text-xs text-slate-400 italic">Items were reordered.</p>;
+  if (lists) {
+    return (
+      <ul className="space-y-1 text-xs">
+        {parts.map((p, i) => (
+          <li key={i} className={p.kind === 'added' ? 'text-green-700 bg-green-50 px-2 py-1 rounded' : 'text-red-600 bg-red-50 px-2 py-1 rounded line-through'}>
+            {p.kind === 'added' ? '+ ' : '− '}{p.text}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  return (
+    <p className="text-xs text-slate-600 leading-relaxed whitespace-pre-line">
+      {parts.map((p, i) => (
+        <span key={i} className={p.kind === 'added' ? 'bg-green-100 text-green-800' : p.kind === 'removed' ? 'bg-red-100 text-red-700 line-through' : ''}>{p.text}</span>
+      ))}
+    </p>
+  );
+};
+
+/**
+ * Every saved version of a note, newest first. A version is compared with
+ * the one before it, or with the note as it is now, and can be restored.
+ */
+export const RevisionHistory = ({ note, onRestore, onClose }: {
+  note: SmartNotes,
+  onRestore: (revision: NoteRevision) => void,
+  onClose: () => void
+}) => {
+  const revisions = [...(note.revisions || [])].reverse();
+  const [selectedId, setSelectedId] = useState(revisions[0]?.id);
+  const [againstCurrent, setAgainstCurrent] = useState(false);
+
+  const index = revisions.findIndex(r => r.id === selectedId);
+  const selected = revisions[index];
+  const previous = revisions[index + 1];
+  const current = noteContent(note);
+  const diffs = selected
+    ? againstCurrent ? diffContent(selected.content, current) : previous ? diffContent(previous.content, selected.content) : []
+    : [];
+  const isCurrent = selected && changedFields(selected.content, current).length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col p-8 space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-black text-slate-900">Revision History</h3>
+            <p className="text-xs text-slate-400 truncate">{note.title}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+        {revisions.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">No edits yet. Versions are saved each time the notes change.</p>
+        ) : (
+          <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ul className="space-y-1 overflow-y-auto pr-1">
+              {revisions.map((r, i) => {
+                const before = revisions[i + 1];
+                const fields = before ? changedFields(before.content, r.content) : [];
+                return (
+                  <li key={r.id}>
+                    <button
+                      onClick={() => setSelectedId(r.id)}
+                      className={`w-full p-3 text-left rounded-xl border-2 ${r.id === selectedId ? 'border-indigo-600 bg-indigo-50' : 'border-slate-100 hover:border-slate-200'}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${AUTHOR_STYLES[r.author].className}`}>{AUTHOR_STYLES[r.author].label}</span>
+                        <span className="text-xs font-bold text-slate-700 truncate">{r.label}</span>
+                      </div>
+                      <p className="text-[10px] text-slate-400 mt-1">{new Date(r.timestamp).toLocaleString()}</p>
+                      {fields.length > 0 && <p className="text-[10px] text-slate-500">{fields.map(f => CONTENT_FIELD_LABELS[f]).join(', ')}</p>}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="md:col-span-2 flex flex-col min-h-0 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex bg-slate-100 rounded-xl p-1 text-xs font-bold">
+                  <button onClick={() => setAgainstCurrent(false)} className={`px-3 py-1 rounded-lg ${!againstCurrent ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}>Changes in this version</button>
+                  <button onClick={() => setAgainstCurrent(true)} className={`px-3 py-1 rounded-lg ${againstCurrent ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}>Compared with now</button>
+                </div>
+                <button
+                  onClick={() => selected && onRestore(selected)}
+                  disabled={!selected || isCurrent}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {isCurrent ? 'Current version' : 'Restore this version'}
+                </button>
+              </div>
+              <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+                {diffs.map(d => (
+                  <div key={d.field} className="space-y-1">
+                    <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">{CONTENT_FIELD_LABELS[d.field]}</h4>
+                    <DiffText parts={d.parts} lists={d.field !== 'title' && d.field !== 'summary'} />
+                  </div>
+                ))}
+                {diffs.length === 0 && (
+                  <p className="text-xs text-slate-400 italic">
+                    {againstCurrent ? 'Identical to the notes as they are now.' : previous ? 'No content changes.' : 'The first saved version.'}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { ConceptEntity, SmartNotes, StudyEvent, StudyEventKind } from '../types';
+import { fromISODate, toISODate } from '../utils/actionItems';
+import {
+  accuracyByConcept, accuracyByNote, accuracyRate, Accuracy, retentionForecast, reviewPriorities, studyStreak, timeOnTask, weakestTopics
+} from '../utils/studyStats';
+
+const KIND_STYLES: Record<StudyEventKind, { label: string; className: string }> = {
+  focus: { label: 'Focus', className: 'bg-slate-700' },
+  quiz: { label: 'Quizzes', className: 'bg-indigo-500' },
+  review: { label: 'Flashcards', className: 'bg-amber-400' }
+};
+
+const formatMinutes = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  return `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const shortDay = (iso: string) => fromISODate(iso).toLocaleDateString(undefined, { weekday: 'narrow' });
+
+const AccuracyBar = ({ accuracy }: { accuracy: Accuracy }) => {
+  const rate = accuracyRate(accuracy);
+  return (
+    <div className="flex items-center gap-2 w-40 shrink-0">
+      <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full ${rate < 0.5 ? 'bg-red-400' : rate < 0.8 ? 'bg-amber-400' : 'bg-green-500'}`} style={{ width: percent(rate) }} />
+      </div>
+      <span className="w-16 text-right text-[10px] font-bold text-slate-500">{percent(rate)} · {accuracy.total}</span>
+    </div>
+  );
+};
+
+const Tile = ({ label, value, detail }: { label: string, value: string, detail?: string }) => (
+  <div className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm">
+    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{label}</p>
+    <p className="text-3xl font-black text-slate-900 mt-1">{value}</p>
+    {detail && <p className="text-xs text-slate-400 mt-1">{detail}</p>}
+  </div>
+);
+
+/**
+ * What the study log says: streaks, time spent, how well each note and
+ * concept is going, and how much is likely to be remembered by an exam.
+ */
+export const StatsDashboard = ({ events, notes, conceptIndex, onOpenNote, onOpenConcept }: {
+  events: StudyEvent[],
+  notes: SmartNotes[],
+  conceptIndex: Map<string, ConceptEntity>,
+  onOpenNote: (note: SmartNotes) => void,
+  onOpenConcept: (key: string) => void
+}) => {
+  const [examDate, setExamDate] = useState(() => {
+    const d = new Date();
+    d.setDate(d.getDate() + 7);
+    return toISODate(d);
+  });
+
+  const streak = studyStreak(events);
+  const daily = timeOnTask(events, 14);
+  const forecast = retentionForecast(notes, 14);
+  const byNote = useMemo(() => accuracyByNote(events), [events]);
+  const byConcept = useMemo(() => accuracyByConcept(events, notes, conceptIndex), [events, notes, conceptIndex]);
+  const weakest = weakestTopics(byConcept);
+  const examAt = fromISODate(examDate).getTime() + 9 * 60 * 60 * 1000;
+  const priorities = reviewPriorities(notes, events, examAt).slice(0, 8);
+
+  const weekMinutes = daily.slice(-7).reduce((sum, d) => sum + d.minutes.focus + d.minutes.quiz + d.minutes.review, 0);
+  const overall = byNote.reduce((sum, n) => ({ correct: sum.correct + n.correct, total: sum.total + n.total }), { correct: 0, total: 0 });
+  const busiestDay = Math.max(1, ...daily.map(d => d.minutes.focus + d.minutes.quiz + d.minutes.review));
+  const busiestDue = Math.max(1, ...forecast.map(p => p.due));
+  const titleOf = (id: string) => notes.find(n => n.id === id)?.title || 'Removed lecture';
+
+  if (events.length === 0) {
+    return (
+      <div className="p-12 bg-white border border-slate-100 rounded-[40px] text-center space-y-2">
+        <div className="text-4xl">📊</div>
+        <h3 className="text-xl font-bold text-slate-800">No study sessions yet</h3>
+        <p className="text-sm text-slate-500">Take a quiz, review flashcards or finish a focus session, and your progress shows up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Tile label="Streak" value={`🔥 ${streak.current} day${streak.current === 1 ? '' : 's'}`} detail={`Longest ${streak.longest}${streak.studiedToday ? '' : ' · study today to keep it'}`} />
+        <Tile label="Time this week" value={formatMinutes(weekMinutes)} detail="Focus sessions, quizzes and reviews" />
+        <Tile label="Accuracy" value={overall.total > 0 ? percent(accuracyRate(overall)) : '—'} detail={`${overall.total} answers and reviews`} />
+        <Tile label="Due today" value={String(forecast[0]?.due ?? 0)} detail={forecast[0]?.retention ? `${percent(forecast[0].retention)} expected recall` : 'No cards reviewed yet'} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className="p-8 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-bold text-slate-800">Time on Task</h3>
+            <div className="flex gap-3 text-[10px] font-bold text-slate-500">
+              {(Object.keys(KIND_STYLES) as StudyEventKind[]).map(kind => (
+                <span key={kind} className="flex items-center gap-1"><span className={`w-2.5 h-2.5 rounded-sm ${KIND_STYLES[kind].className}`} />{KIND_STYLES[kind].label}</span>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-end gap-1 h-40">
+            {daily.map(d => {
+              const total = d.minutes.focus + d.minutes.quiz + d.minutes.review;
+              return (
+                <div key={d.day} className="flex-1 h-full flex flex-col items-center gap-1" title={`${d.day}: ${formatMinutes(total)}`}>
+                  <div className="flex-1 w-full flex flex-col justify-end">
+                    {(Object.keys(KIND_STYLES) as StudyEventKind[]).map(kind => d.minutes[kind] > 0 && (
+                      <div key={kind} className={`w-full first:rounded-t ${KIND_STYLES[kind].className}`} style={{ height: `${(d.minutes[kind] / busiestDay) * 100}%` }} />
+                    ))}
+                  </div>
+                  <span className="text-[10px] text-slate-400">{shortDay(d.day)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+
+        <section className="p-8 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-bold text-slate-800">Retention Forecast</h3>
+            <span className="text-[10px] font-bold text-slate-400">Expected recall if you stop reviewing · cards due</span>
+          </div>
+          <div className="flex items-end gap-1 h-40">
+            {forecast.map(p => (
+              <div key={p.day} className="flex-1 h-full flex flex-col items-center gap-1" title={`${p.day}: ${percent(p.retention)} recall, ${p.due} due`}>
+                <span className="text-[10px] font-bold text-amber-600">{p.due > 0 ? p.due : ''}</span>
+                <div className="flex-1 w-full flex flex-col justify-end relative">
+                  <div className="w-full bg-indigo-100 rounded-t" style={{ height: percent(p.retention) }} />
+                  <div className="absolute bottom-0 w-full bg-amber-300/70 rounded-t" style={{ height: `${(p.due / busiestDue) * 30}%` }} />
+                </div>
+                <span className="text-[10px] text-slate-400">{shortDay(p.day)}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className="p-8 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+          <h3 className="text-lg font-bold text-slate-800">Weakest Topics</h3>
+          {weakest.length === 0 ? (
+            <p className="text-xs text-slate-400 italic">Answer a few more questions on each topic to see where you struggle.</p>
+          ) : (
+            <ul className="space-y-2">
+              {weakest.map(c => (
+                <li key={c.key} className="flex items-center justify-between gap-4">
+                  <button onClick={() => onOpenConcept(c.key)} className="text-sm font-medium text-slate-700 hover:text-indigo-600 truncate text-left">{c.term}</button>
+                  <AccuracyBar accuracy={c} />
+                </li>
+              ))}
+            </ul>
+          )}
+          {byConcept.length > weakest.length && (
+            <details className="text-xs">
+              <summary className="cursor-pointer font-bold text-slate-400 hover:text-slate-600">All {byConcept.length} concepts</summary>
+              <ul className="mt-2 space-y-2 max-h-64 overflow-y-auto pr-1">
+                {byConcept.map(c => (
+                  <li key={c.key} className="flex items-center justify-between gap-4">
+                    <button onClick={() => onOpenConcept(c.key)} className="text-slate-600 hover:text-indigo-600 truncate text-left">{c.term}</button>
+                    <AccuracyBar accuracy={c} />
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </section>
+
+        <section className="p-8 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+          <h3 className="text-lg font-bold text-slate-800">Accuracy by Note</h3>
+          <ul className="space-y-3 max-h-80 overflow-y-auto pr-1">
+            {byNote.map(n => {
+              const note = notes.find(h => h.id === n.noteId);
+              return (
+                <li key={n.noteId} className="space-y-1">
+                  <div className="flex items-center justify-between gap-4">
+                    <button onClick={() => note && onOpenNote(note)} disabled={!note} className="text-sm font-bold text-slate-700 hover:text-indigo-600 truncate text-left disabled:text-slate-400">{titleOf(n.noteId)}</button>
+                    <AccuracyBar accuracy={n} />
+                  </div>
+                  <p className="text-[10px] text-slate-400">
+                    {n.quiz.total > 0 && `Quiz ${percent(accuracyRate(n.quiz))} of ${n.quiz.total}`}
+                    {n.quiz.total > 0 && n.recall.total > 0 && ' · '}
+                    {n.recall.total > 0 && `Flashcards ${percent(accuracyRate(n.recall))} of ${n.recall.total}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      </div>
+
+      <section className="p-8 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Review Before the Exam</h3>
+            <p className="text-xs text-slate-400">Least ready first, from expected recall on the day and how your answers have gone.</p>
+          </div>
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+            Exam on
+            <input
+              type="date"
+              value={examDate}
+              min={toISODate(new Date())}
+              onChange={e => e.target.value && setExamDate(e.target.value)}
+              className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs"
+            />
+          </label>
+        </div>
+        <ul className="divide-y divide-slate-100">
+          {priorities.map(p => (
+            <li key={p.note.id} className="flex items-center justify-between gap-4 py-2">
+              <button onClick={() => onOpenNote(p.note)} className="text-sm font-medium text-slate-700 hover:text-indigo-600 truncate text-left">{p.note.title}</button>
+              <span className="shrink-0 text-[10px] font-bold text-slate-500">
+                {p.retention === null && p.accuracy === null
+                  ? 'Not studied yet'
+                  : [p.retention !== null && `${percent(p.retention)} recall`, p.accuracy !== null && `${percent(p.accuracy)} correct`].filter(Boolean).join(' · ')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+
+export const TagEditor = ({ tags, onChange, placeholder = 'Add tag' }: {
+  tags: string[],
+  onChange: (tags: string[]) => void,
+  placeholder?: string
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const tag = draft.trim().replace(/^#/, '');
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map(tag => (
+        <span key={tag} className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs flex items-center gap-1">
+          #{tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="text-slate-400 hover:text-red-500">×</button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); add(); } }}
+        onBlur={add}
+        placeholder={placeholder}
+        className="w-24 px-2 py-0.5 bg-transparent text-xs outline-none text-slate-600"
+      />
+    </div>
+  );
+};
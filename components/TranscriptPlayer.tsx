@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { formatTimestamp } from '../utils/mediaSegmenter';
+import { TextRange } from '../utils/textMatch';
+import { segmentAt, segmentRanges } from '../utils/transcript';
+import { AnnotatedText, TextMark } from './Annotations';
+
+export interface TranscriptFocus {
+  segmentId: string;
+}
+
+export const TranscriptPlayer = ({ segments, mediaUrl, mediaType, highlight, focus, marks = [], onMarkClick }: {
+  segments: TranscriptSegment[],
+  mediaUrl?: string | null,
+  mediaType?: string,
+  // A range of the joined transcription to mark, e.g. a chat citation.
+  highlight?: TextRange | null,
+  // Seek to and reveal a segment; pass a new object to repeat the jump.
+  focus?: TranscriptFocus | null,
+  // Annotations, as ranges of the joined transcription.
+  marks?: TextMark[],
+  onMarkClick?: (annotationId: string) => void
+}) => {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const ranges = useMemo(() => segmentRanges(segments), [segments]);
+  const isTimed = segments.some(s => s.start !== undefined);
+
+  const scrollTo = (id: string) => {
+    listRef.current?.querySelector(`[data-segment="${id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const seek = (segment: TranscriptSegment) => {
+    setActiveId(segment.id);
+    const media = mediaRef.current;
+    if (media && segment.start !== undefined) {
+      media.currentTime = segment.start;
+      media.play().catch(() => {});
+    }
+  };
+
+  useEffect(() => {
+    if (!focus) return;
+    const segment = segments.find(s => s.id === focus.segmentId);
+    if (!segment) return;
+    seek(segment);
+    scrollTo(segment.id);
+  }, [focus]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('mark[data-focus]')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlight]);
+
+  useEffect(() => {
+    if (isPlaying && activeId) scrollTo(activeId);
+  }, [activeId, isPlaying]);
+
+  const onTimeUpdate = () => {
+    const current = segmentAt(segments, mediaRef.current?.currentTime ?? 0);
+    if (current && current.id !== activeId) setActiveId(current.id);
+  };
+
+  const mediaProps = {
+    src: mediaUrl || undefined,
+    controls: true,
+    onTimeUpdate,
+    onPlay: () => setIsPlaying(true),
+    onPause: () => setIsPlaying(false)
+  };
+
+  return (
+    <div className="space-y-4">
+      {mediaUrl && (mediaType?.startsWith('video/')
+        ? <video ref={el => { mediaRef.current = el; }} {...mediaProps} className="w-full rounded-2xl bg-black max-h-80" />
+        : mediaType?.startsWith('audio/') && <audio ref={el => { mediaRef.current = el; }} {...mediaProps} className="w-full" />)}
+      <div ref={listRef} className="bg-slate-50 p-4 rounded-2xl h-80 overflow-y-auto text-sm text-slate-600 leading-relaxed space-y-1">
+        {segments.map((segment, i) => {
+          const range = ranges[i];
+          const local = [...marks, ...(highlight ? [{ ...highlight, focus: true }] : [])]
+            .filter(m => m.start < range.end && m.end > range.start);
+          const isActive = segment.id === activeId;
+          return (
+            <div
+              key={segment.id}
+              data-segment={segment.id}
+              // Finishing a text selection is not a click to seek.
+              onClick={() => { if (window.getSelection()?.isCollapsed !== false) seek(segment); }}
+              className={`flex gap-3 px-2 py-1 rounded-lg transition-colors ${isTimed && mediaUrl ? 'cursor-pointer hover:bg-white' : ''} ${isActive ? 'bg-indigo-100 text-indigo-900' : ''}`}
+            >
+              <span className="w-14 shrink-0 text-[10px] font-mono text-slate-400 pt-1">
+                {segment.start !== undefined ? formatTimestamp(segment.start) : segment.page !== undefined ? `p. ${segment.page}` : ''}
+              </span>
+              <span>
+                {segment.speaker && <span className="font-bold text-slate-500 mr-1">{segment.speaker}:</span>}
+                <AnnotatedText text={segment.text} offset={range.start} marks={local} onMarkClick={onMarkClick} />
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {isTimed && !mediaUrl && (
+        <p className="text-[10px] text-slate-400">The original recording is not stored on this device, so playback is unavailable.</p>
+      )}
+    </div>
+  );
+};
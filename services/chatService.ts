@@ -0,0 +1,103 @@
+import { ChatCitation, ChatMessage, SmartNotes } from "../types";
+import { ValidationResult } from "../utils/notesValidator";
+import { tokenize } from "../utils/searchIndex";
+import { findQuote } from "../utils/textMatch";
+import { JsonSchema, NotesProvider } from "./notesProvider";
+import { generateValidated } from "./notesService";
+
+// Transcripts longer than this are narrowed to the passages most relevant
+// to the question before being sent.
+const FULL_CONTEXT_CHARS = 100000;
+const PASSAGE_CHARS = 1200;
+const MAX_PASSAGES = 40;
+const HISTORY_TURNS = 6;
+
+const ANSWER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    quotes: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['answer', 'quotes']
+};
+
+const selectContext = (transcription: string, question: string): string => {
+  if (transcription.length <= FULL_CONTEXT_CHARS) return transcription;
+  const terms = new Set(tokenize(question));
+  const passages: { text: string; index: number; score: number }[] = [];
+  for (let i = 0; i < transcription.length; i += PASSAGE_CHARS) {
+    const text = transcription.slice(i, i + PASSAGE_CHARS);
+    const score = tokenize(text).filter(t => terms.has(t)).length;
+    passages.push({ text, index: i, score });
+  }
+  return passages
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PASSAGES)
+    .sort((a, b) => a.index - b.index)
+    .map(p => p.text)
+    .join('\n[…]\n');
+};
+
+const validateAnswer = (transcription: string) => (raw: unknown): ValidationResult<{ answer: string; citations: ChatCitation[] }> => {
+  const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const answer = typeof data.answer === 'string' ? data.answer.trim() : '';
+  const quotes = Array.isArray(data.quotes) ? data.quotes.filter((q): q is string => typeof q === 'string') : [];
+  const warnings: string[] = [];
+  const citations: ChatCitation[] = [];
+  quotes.forEach(quote => {
+    const range = findQuote(transcription, quote);
+    if (range) {
+      citations.push({ quote: transcription.slice(range.start, range.end), ...range });
+    } else {
+      warnings.push(`Quote not found in transcription: "${quote}"`);
+    }
+  });
+  return { value: { answer, citations }, warnings, errors: answer ? [] : ['"answer" must be a non-empty string.'] };
+};
+
+/**
+ * Answers a question using only the note's transcription. Quotes the model
+ * offers as evidence are located in the transcription; any that cannot be
+ * found are discarded rather than shown as citations.
+ */
+export const askAboutNote = async (
+  provider: NotesProvider,
+  notes: SmartNotes,
+  thread: ChatMessage[],
+  question: string,
+  deep: boolean = false
+): Promise<ChatMessage> => {
+  const history = thread.slice(-HISTORY_TURNS)
+    .map(m => `${m.role === 'user' ? 'STUDENT' : 'ASSISTANT'}: ${m.text}`)
+    .join('\n    ');
+
+  const prompt = `
+    You are a teaching assistant answering a student's question about one lecture.
+    Answer ONLY from the transcription below. If the transcription does not cover the question,
+    say so plainly instead of using outside knowledge.
+    In "quotes", copy 1-3 short passages (one or two sentences each) VERBATIM from the transcription that support your answer.
+    Leave "quotes" empty if the transcription does not cover the question.
+
+    LECTURE TITLE: ${notes.title}
+    TRANSCRIPTION:
+    """
+    ${selectContext(notes.transcription, question)}
+    """
+    ${history ? `CONVERSATION SO FAR:\n    ${history}` : ''}
+    STUDENT QUESTION: ${question}
+  `;
+
+  const { value } = await generateValidated(provider, {
+    prompt,
+    schema: ANSWER_SCHEMA,
+    deep
+  }, validateAnswer(notes.transcription));
+
+  return {
+    id: crypto.randomUUID(),
+    role: 'assistant',
+    text: value.answer,
+    timestamp: Date.now(),
+    citations: value.citations
+  };
+};
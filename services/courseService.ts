@@ -0,0 +1,96 @@
+import { CourseSynthesis, GlossaryEntry, QuizItem, SmartNotes } from "../types";
+import { normalize } from "../utils/concepts";
+import { buildConceptIndex } from "../utils/knowledgeGraph";
+import { validateList, validateQuizItem, ValidationResult } from "../utils/notesValidator";
+import { JsonSchema, NotesProvider } from "./notesProvider";
+import { generateValidated, NOTES_SCHEMA } from "./notesService";
+
+const EXAM_QUESTIONS = 15;
+
+const SYNTHESIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    studyGuide: { type: 'string' },
+    quiz: NOTES_SCHEMA.properties!.quiz
+  },
+  required: ['studyGuide', 'quiz']
+};
+
+/** One glossary entry per distinct term across the notes, keeping the fullest definition. */
+export const buildGlossary = (notes: SmartNotes[]): GlossaryEntry[] =>
+  [...buildConceptIndex(notes).values()]
+    .map(({ term, definition, mentions }) => ({ term, definition, noteIds: mentions.map(m => m.noteId) }))
+    .sort((a, b) => a.term.localeCompare(b.term));
+
+export const consolidateActionItems = (notes: SmartNotes[]) => {
+  const seen = new Set<string>();
+  return [...notes]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .flatMap(note => note.actionItems.map(({ text }) => ({ text, noteId: note.id })))
+    .filter(({ text }) => {
+      const key = normalize(text);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const validateSynthesis = (raw: unknown): ValidationResult<{ studyGuide: string; quiz: QuizItem[] }> => {
+  const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const warnings: string[] = [];
+  const studyGuide = typeof data.studyGuide === 'string' ? data.studyGuide.trim() : '';
+  const quiz = validateList(data.quiz, 'Quiz', warnings, validateQuizItem);
+  return {
+    value: { studyGuide, quiz },
+    warnings,
+    errors: [
+      ...(studyGuide ? [] : ['"studyGuide" must be a non-empty string.']),
+      ...(quiz.length > 0 ? [] : ['"quiz" must contain valid questions whose answer is one of their options.'])
+    ]
+  };
+};
+
+/**
+ * Builds course-level study material. The glossary and action items are
+ * merged locally; the study guide and the cumulative exam quiz come from one
+ * model call over every lecture's summary and concepts.
+ */
+export const synthesizeCourse = async (
+  provider: NotesProvider,
+  courseName: string,
+  notes: SmartNotes[],
+  deep: boolean = false
+): Promise<CourseSynthesis> => {
+  const lectures = [...notes].sort((a, b) => a.timestamp - b.timestamp);
+
+  const prompt = `
+    You are an expert academic educator preparing students for the final exam of the course "${courseName}".
+    Below are the summaries and key concepts of every lecture in the course, in order.
+
+    1. studyGuide: A structured study guide for the whole course (use headings and bullet points in plain text),
+       connecting ideas across lectures and highlighting what is most likely to be examined.
+    2. quiz: ${EXAM_QUESTIONS} cumulative multiple-choice exam-prep questions (question, options[], answer)
+       spread across all lectures, including some that combine ideas from several lectures.
+       Each answer must be copied exactly from its options. Set type to "multiple-choice", explain each answer,
+       and quote the supporting sentence from the relevant lecture summary as the excerpt.
+
+    ${lectures.map((n, i) => `LECTURE ${i + 1}: ${n.title}
+    SUMMARY: ${n.summary}
+    KEY CONCEPTS: ${n.keyConcepts.join('; ')}`).join('\n\n    ')}
+  `;
+
+  const { value } = await generateValidated(provider, {
+    prompt,
+    schema: SYNTHESIS_SCHEMA,
+    deep
+  }, validateSynthesis);
+
+  return {
+    generatedAt: Date.now(),
+    noteIds: lectures.map(n => n.id),
+    studyGuide: value.studyGuide,
+    glossary: buildGlossary(lectures),
+    actionItems: consolidateActionItems(lectures),
+    quiz: value.quiz
+  };
+};
@@ -0,0 +1,26 @@
+import { Course } from "../types";
+import { STORES, withStore } from "./db";
+
+/** Every course, alphabetically. */
+export const listCourses = async (): Promise<Course[]> => {
+  const courses = await withStore<Course[]>(STORES.courses, 'readonly', store => store.getAll());
+  return courses.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const putCourse = async (course: Course): Promise<void> => {
+  await withStore(STORES.courses, 'readwrite', store => { store.put(course); });
+};
+
+export const putCourses = async (courses: Course[]): Promise<void> => {
+  await withStore(STORES.courses, 'readwrite', store => {
+    courses.forEach(course => store.put(course));
+  });
+};
+
+export const deleteCourse = async (id: string): Promise<void> => {
+  await withStore(STORES.courses, 'readwrite', store => { store.delete(id); });
+};
+
+export const clearCourses = async (): Promise<void> => {
+  await withStore(STORES.courses, 'readwrite', store => { store.clear(); });
+};
@@ -0,0 +1,82 @@
+const DB_NAME = 'smart_notes';
+const DB_VERSION = 6;
+
+export const STORES = {
+  notes: 'notes',
+  courses: 'courses',
+  media: 'media',
+  imports: 'imports',
+  recordings: 'recordings',
+  recordingChunks: 'recordingChunks',
+  studyEvents: 'studyEvents'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.notes)) {
+    const notes = db.createObjectStore(STORES.notes, { keyPath: 'id' });
+    notes.createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains(STORES.courses)) {
+    db.createObjectStore(STORES.courses, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.media)) {
+    db.createObjectStore(STORES.media, { keyPath: 'noteId' });
+  }
+  if (!db.objectStoreNames.contains(STORES.imports)) {
+    db.createObjectStore(STORES.imports, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.recordings)) {
+    db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.recordingChunks)) {
+    db.createObjectStore(STORES.recordingChunks, { keyPath: ['recordingId', 'sequence'] });
+  }
+  if (!db.objectStoreNames.contains(STORES.studyEvents)) {
+    const events = db.createObjectStore(STORES.studyEvents, { keyPath: 'id' });
+    events.createIndex('timestamp', 'timestamp');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `fn` inside a single transaction and resolves once the transaction
+ * commits, with the result of the request `fn` returned (if any).
+ */
+export const withStore = async <T = void>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
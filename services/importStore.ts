@@ -0,0 +1,35 @@
+import { ImportJob } from "../types";
+import { STORES, withStore } from "./db";
+
+/**
+ * Every queued and finished import, oldest first. Jobs that were mid-flight
+ * when the page closed go back to the queue, since their work was lost.
+ */
+export const listImportJobs = async (): Promise<ImportJob[]> => {
+  const jobs = await withStore<ImportJob[]>(STORES.imports, 'readonly', store => store.getAll());
+  return jobs
+    .map(job => (job.status === 'uploading' || job.status === 'processing' ? { ...job, status: 'queued' as const } : job))
+    .sort((a, b) => a.addedAt - b.addedAt);
+};
+
+export const putImportJobs = async (jobs: ImportJob[]): Promise<void> => {
+  await withStore(STORES.imports, 'readwrite', store => {
+    jobs.forEach(job => store.put(job));
+  });
+};
+
+/** Applies `changes` to the stored job, if it is still there. */
+export const updateImportJob = async (id: string, changes: Partial<ImportJob>): Promise<void> => {
+  await withStore(STORES.imports, 'readwrite', store => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, ...changes });
+    };
+  });
+};
+
+export const deleteImportJobs = async (ids: string[]): Promise<void> => {
+  await withStore(STORES.imports, 'readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
@@ -0,0 +1,25 @@
+import { STORES, withStore } from "./db";
+
+interface StoredMedia {
+  noteId: string;
+  blob: Blob;
+}
+
+// Original lecture media, kept for playback. Blobs are stored separately
+// from notes so listing the vault never loads them.
+export const putMedia = async (noteId: string, blob: Blob): Promise<void> => {
+  await withStore(STORES.media, 'readwrite', store => { store.put({ noteId, blob } as StoredMedia); });
+};
+
+export const getMedia = async (noteId: string): Promise<Blob | undefined> => {
+  const record = await withStore<StoredMedia | undefined>(STORES.media, 'readonly', store => store.get(noteId));
+  return record?.blob;
+};
+
+export const deleteMedia = async (noteId: string): Promise<void> => {
+  await withStore(STORES.media, 'readwrite', store => { store.delete(noteId); });
+};
+
+export const clearMedia = async (): Promise<void> => {
+  await withStore(STORES.media, 'readwrite', store => { store.clear(); });
+};
@@ -0,0 +1,146 @@
+import { GroundingSource } from "../types";
+import { cancelledError } from "../utils/errors";
+import { GenerateRequest, JsonSchema, NotesProvider } from "./notesProvider";
+
+// Simulated round-trip so loading states can be exercised in the UI.
+const MOCK_LATENCY_MS = 400;
+
+const FIXTURE: Record<string, unknown> = {
+  title: 'Introduction to Linear Algebra: Eigenvalues and Eigenvectors',
+  summary: 'This lecture introduces eigenvalues and eigenvectors as the directions a linear transformation only stretches. '
+    + 'It derives the characteristic polynomial det(A − λI) = 0 and works through a 2×2 example by hand.\n\n'
+    + 'The second half connects eigen-decomposition to diagonalisation, explains why symmetric matrices have real eigenvalues, '
+    + 'and previews applications in principal component analysis and Markov chains.',
+  keyConcepts: [
+    'Eigenvector: A non-zero vector whose direction is unchanged by a linear transformation.',
+    'Eigenvalue: The scalar λ by which an eigenvector is stretched, satisfying Av = λv.',
+    'Characteristic polynomial: det(A − λI), whose roots are the eigenvalues of A.',
+    'Diagonalisation: Writing A = PDP⁻¹ with D diagonal, possible when A has n independent eigenvectors.'
+  ],
+  // No due fields: the dates are resolved from the text, as for models that omit them.
+  actionItems: [
+    { text: 'Problem set 4 (exercises 5.1–5.3) due Friday' },
+    { text: 'Read chapter 6 on orthogonality before next lecture' }
+  ],
+  segments: [
+    { text: 'Good morning everyone. Today we are going to talk about eigenvalues and eigenvectors.', start: 0, end: 6, speaker: 'Professor' },
+    { text: 'Remember that a matrix represents a linear transformation. Most vectors change direction when we apply it, but some special vectors only get stretched or shrunk.', start: 6, end: 17, speaker: 'Professor' },
+    { text: 'Those are the eigenvectors, and the stretch factor is the eigenvalue.', start: 17, end: 22, speaker: 'Professor' },
+    { text: 'To find them we solve A v equals lambda v, which rearranges to A minus lambda I times v equals zero.', start: 22, end: 30, speaker: 'Professor' },
+    { text: 'For a non-zero solution the determinant of A minus lambda I has to be zero, and that gives us the characteristic polynomial.', start: 30, end: 39, speaker: 'Professor' },
+    { text: 'Problem set four is due on Friday, and please read chapter six before next time.', start: 39, end: 45, speaker: 'Professor' }
+  ],
+  quiz: [
+    {
+      type: 'multiple-choice',
+      question: 'Which equation defines an eigenvector v of A with eigenvalue λ?',
+      options: ['Av = λv', 'Av = v + λ', 'A + λ = v', 'vA = λ'],
+      answer: 'Av = λv',
+      explanation: 'An eigenvector is only scaled by A, so applying A equals multiplying by the scalar λ.',
+      excerpt: 'To find them we solve A v equals lambda v',
+      segment: 3
+    },
+    {
+      type: 'true-false',
+      question: 'Most vectors keep their direction when a matrix is applied to them.',
+      options: ['True', 'False'],
+      answer: 'False',
+      explanation: 'Only the special vectors called eigenvectors keep their direction; most vectors are rotated.',
+      excerpt: 'Most vectors change direction when we apply it',
+      segment: 1
+    },
+    {
+      type: 'multi-select',
+      question: 'Which statements about the characteristic polynomial are true?',
+      options: ['Its roots are the eigenvalues', 'It is det(A − λI)', 'It is the trace of A', 'It is always linear'],
+      answer: 'Its roots are the eigenvalues; It is det(A − λI)',
+      answers: ['Its roots are the eigenvalues', 'It is det(A − λI)'],
+      explanation: 'Setting det(A − λI) to zero gives an equation whose roots are exactly the eigenvalues.',
+      excerpt: 'the determinant of A minus lambda I has to be zero, and that gives us the characteristic polynomial',
+      segment: 4
+    },
+    {
+      type: 'cloze',
+      question: 'The stretch factor of an eigenvector is called the ____.',
+      options: [],
+      answer: 'eigenvalue',
+      answers: ['eigenvalue'],
+      explanation: 'The eigenvalue λ is the scalar by which the eigenvector is stretched.',
+      excerpt: 'Those are the eigenvectors, and the stretch factor is the eigenvalue.',
+      segment: 2
+    },
+    {
+      type: 'short-answer',
+      question: 'Why must det(A − λI) be zero for an eigenvector to exist?',
+      options: [],
+      answer: 'Because (A − λI)v = 0 needs a non-zero solution v, which only happens when A − λI is singular.',
+      explanation: 'A matrix sends a non-zero vector to zero only when it is not invertible, i.e. its determinant is zero.',
+      excerpt: 'For a non-zero solution the determinant of A minus lambda I has to be zero',
+      segment: 4
+    }
+  ],
+  feedback: 'Good reasoning: a non-zero solution requires A − λI to be singular.',
+  answer: 'The professor described eigenvectors as special vectors that a transformation only stretches or shrinks, '
+    + 'with the eigenvalue being the stretch factor. They are found by solving det(A − λI) = 0.',
+  quotes: [
+    'Those are the eigenvectors, and the stretch factor is the eigenvalue.',
+    'For a non-zero solution the determinant of A minus lambda I has to be zero'
+  ],
+  flashcards: [
+    { front: 'What is an eigenvector?', back: 'A non-zero vector whose direction is unchanged by the transformation: Av = λv.' },
+    { front: 'How do you find eigenvalues?', back: 'Solve the characteristic equation det(A − λI) = 0.' },
+    { front: 'What does A = PDP⁻¹ mean?', back: 'A is diagonalised: P holds eigenvectors, D holds eigenvalues.' }
+  ]
+};
+
+const FIXTURE_SOURCES: GroundingSource[] = [
+  { title: 'MIT OpenCourseWare – 18.06 Linear Algebra', uri: 'https://ocw.mit.edu/courses/18-06-linear-algebra-spring-2010/' },
+  { title: '3Blue1Brown – Eigenvectors and eigenvalues', uri: 'https://www.3blue1brown.com/lessons/eigenvalues' }
+];
+
+const matchesType = (value: unknown, schema: JsonSchema) => {
+  switch (schema.type) {
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'number':
+    case 'integer': return typeof value === 'number';
+    default: return typeof value === schema.type;
+  }
+};
+
+/**
+ * Builds a value for `schema`, taking fixture values for fields it knows by
+ * name and deterministic placeholders for everything else. The same request
+ * always yields the same output.
+ */
+const fromSchema = (schema: JsonSchema, name: string, fixture: unknown): unknown => {
+  if (fixture !== undefined && matchesType(fixture, schema)) return fixture;
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, child]) =>
+        [key, fromSchema(child, key, FIXTURE[key])]
+      ));
+    case 'array':
+      return [0, 1, 2].map(i => fromSchema(schema.items!, `${name} ${i + 1}`, undefined));
+    case 'string':
+      return schema.enum?.[0] ?? `Sample ${name}`;
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return true;
+  }
+};
+
+export const createMockProvider = (): NotesProvider => ({
+  id: 'mock',
+  label: 'Offline mock (fixtures)',
+  generateJson: async <T,>({ schema, search = false, signal }: GenerateRequest) => {
+    await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+    if (signal?.aborted) throw cancelledError();
+    return {
+      data: fromSchema(schema, 'value', undefined) as T,
+      sources: search ? FIXTURE_SOURCES : []
+    };
+  }
+});
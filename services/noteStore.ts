@@ -0,0 +1,99 @@
+import { SmartNotes } from "../types";
+import { STORES, withStore } from "./db";
+import { migrateActionItems } from "../utils/actionItems";
+
+const LEGACY_KEY = 'smart_notes_v2';
+
+let migration: Promise<void> | null = null;
+
+/**
+ * One-off import of the pre-IndexedDB vault that lived in localStorage.
+ * The legacy key is only removed once every note has been committed.
+ */
+const migrateLegacyStorage = (): Promise<void> => {
+  if (!migration) {
+    migration = (async () => {
+      const saved = localStorage.getItem(LEGACY_KEY);
+      if (!saved) return;
+      let legacy: SmartNotes[];
+      try {
+        legacy = JSON.parse(saved);
+      } catch (error) {
+        console.error("Legacy vault is unreadable, leaving it in place:", error);
+        return;
+      }
+      if (Array.isArray(legacy) && legacy.length > 0) {
+        await withStore(STORES.notes, 'readwrite', store => {
+          legacy.forEach(note => store.put(note));
+        });
+      }
+      localStorage.removeItem(LEGACY_KEY);
+    })().catch(error => {
+      migration = null;
+      throw error;
+    });
+  }
+  return migration;
+};
+
+const ready = async () => {
+  await migrateLegacyStorage();
+  navigator.storage?.persist?.().catch(() => {});
+};
+
+/** Every note in the vault, newest first. */
+export const listNotes = async (): Promise<SmartNotes[]> => {
+  await ready();
+  const notes = await withStore<SmartNotes[]>(STORES.notes, 'readonly', store => store.getAll());
+  return notes.map(migrateActionItems).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const getNote = async (id: string): Promise<SmartNotes | undefined> => {
+  await ready();
+  const note = await withStore<SmartNotes | undefined>(STORES.notes, 'readonly', store => store.get(id));
+  return note && migrateActionItems(note);
+};
+
+export const putNote = async (note: SmartNotes): Promise<void> => {
+  await ready();
+  await withStore(STORES.notes, 'readwrite', store => { store.put(note); });
+};
+
+export const putNotes = async (notes: SmartNotes[]): Promise<void> => {
+  await ready();
+  await withStore(STORES.notes, 'readwrite', store => {
+    notes.forEach(note => store.put(note));
+  });
+};
+
+export const deleteNote = async (id: string): Promise<void> => {
+  await ready();
+  await withStore(STORES.notes, 'readwrite', store => { store.delete(id); });
+};
+
+export const clearNotes = async (): Promise<void> => {
+  await ready();
+  await withStore(STORES.notes, 'readwrite', store => { store.clear(); });
+};
+
+export interface NoteQuery {
+  from?: number;
+  to?: number;
+  where?: (note: SmartNotes) => boolean;
+  limit?: number;
+}
+
+/**
+ * Notes in a timestamp range (served from the `timestamp` index), optionally
+ * narrowed by an in-memory predicate. Results are newest first.
+ */
+export const queryNotes = async ({ from, to, where, limit }: NoteQuery = {}): Promise<SmartNotes[]> => {
+  await ready();
+  const range = from !== undefined && to !== undefined ? IDBKeyRange.bound(from, to)
+    : from !== undefined ? IDBKeyRange.lowerBound(from)
+    : to !== undefined ? IDBKeyRange.upperBound(to)
+    : undefined;
+  const notes = await withStore<SmartNotes[]>(STORES.notes, 'readonly', store => store.index('timestamp').getAll(range));
+  const matches = notes.reverse().map(migrateActionItems).filter(note => !where || where(note));
+  return limit !== undefined ? matches.slice(0, limit) : matches;
+};
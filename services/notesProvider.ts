@@ -0,0 +1,66 @@
+import { AppSettings, GroundingSource, ProviderId } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAIProvider } from "./openAIProvider";
+
+/** Provider-neutral subset of JSON Schema used to describe model output. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+export interface MediaPart {
+  data: string; // base64
+  mimeType: string;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  schema: JsonSchema;
+  media?: MediaPart[];
+  // Use the provider's stronger (slower) model where it has one.
+  deep?: boolean;
+  // Ground the answer in web search and report the sources used.
+  search?: boolean;
+  // Aborts the request in flight.
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult<T> {
+  data: T;
+  sources: GroundingSource[];
+}
+
+/**
+ * A backend able to answer a prompt (plus optional media) with JSON matching
+ * a schema. Everything model-specific lives behind this interface. HTTP
+ * failures should be reported with `httpError` so they can be retried or
+ * explained; anything else is classified by `toProcessingError`.
+ */
+export interface NotesProvider {
+  id: ProviderId;
+  label: string;
+  generateJson: <T>(request: GenerateRequest) => Promise<GenerateResult<T>>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible endpoint',
+  mock: 'Offline mock (fixtures)'
+};
+
+export const createProvider = (settings: AppSettings): NotesProvider => {
+  switch (settings.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAIProvider(settings.openAI);
+    case 'gemini':
+    default:
+      return createGeminiProvider(process.env.API_KEY);
+  }
+};
@@ -0,0 +1,433 @@
+import { SmartNotes, GroundingSource, ProcessingProgress, TranscriptSegment } from "../types";
+import { MediaSegment, planSegments, SegmentPlan } from "../utils/mediaSegmenter";
+import { mergeSegmentNotes, SegmentNotes } from "../utils/mergeNotes";
+import { linkConcepts } from "../utils/transcript";
+import { createActionItems, toISODate } from "../utils/actionItems";
+import { GeneratedNotes, validateGeneratedNotes, ValidationResult } from "../utils/notesValidator";
+import { cancelledError, ProcessingError, toProcessingError, withRetry } from "../utils/errors";
+import { IngestedContent, ingestFile } from "../utils/ingest";
+import { createRevision, noteContent } from "../utils/revisions";
+import { GenerateRequest, JsonSchema, MediaPart, NotesProvider } from "./notesProvider";
+
+export const NOTES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    summary: { type: 'string' },
+    keyConcepts: { type: 'array', items: { type: 'string' } },
+    actionItems: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          due: { type: 'string', description: 'Due date as YYYY-MM-DD, when one is mentioned' }
+        },
+        required: ["text"]
+      }
+    },
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          start: { type: 'number', description: 'Seconds from the start of the media' },
+          end: { type: 'number', description: 'Seconds from the start of the media' },
+          page: { type: 'integer', description: 'Page number, for documents' },
+          speaker: { type: 'string' }
+        },
+        required: ["text"]
+      }
+    },
+    quiz: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['multiple-choice', 'true-false', 'multi-select', 'short-answer', 'cloze'] },
+          question: { type: 'string', description: 'For cloze questions, the sentence with ____ for each blank' },
+          options: { type: 'array', items: { type: 'string' }, description: 'Empty for short-answer and cloze' },
+          answer: { type: 'string', description: 'The correct option, or the reference answer for short-answer' },
+          answers: { type: 'array', items: { type: 'string' }, description: 'Multi-select: every correct option. Cloze: the word for each blank, in order' },
+          explanation: { type: 'string', description: 'Why the answer is correct' },
+          excerpt: { type: 'string', description: 'A short passage copied verbatim from the transcript that supports the answer' },
+          segment: { type: 'integer', description: 'Index of the transcript segment the question is based on' }
+        },
+        required: ["type", "question", "options", "answer", "explanation", "excerpt"]
+      }
+    },
+    flashcards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string' },
+          back: { type: 'string' }
+        },
+        required: ["front", "back"]
+      }
+    }
+  },
+  required: ["title", "summary", "keyConcepts", "actionItems", "segments", "quiz", "flashcards"]
+};
+
+// For inputs whose text is already known: everything but the transcript.
+const KNOWN_TEXT_SCHEMA: JsonSchema = {
+  ...NOTES_SCHEMA,
+  properties: Object.fromEntries(Object.entries(NOTES_SCHEMA.properties!).filter(([key]) => key !== 'segments')),
+  required: NOTES_SCHEMA.required!.filter(key => key !== 'segments')
+};
+
+const OVERVIEW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    summary: { type: 'string' }
+  },
+  required: ["title", "summary"]
+};
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+interface ValidatedResult<T> {
+  value: T;
+  sources: GroundingSource[];
+  warnings: string[];
+}
+
+/**
+ * Calls the provider and validates the output. Transient failures are
+ * retried with backoff; when the output cannot be repaired locally, the
+ * model is asked again with the list of problems.
+ */
+export const generateValidated = async <T>(
+  provider: NotesProvider,
+  request: GenerateRequest,
+  validate: (raw: unknown) => ValidationResult<T>
+): Promise<ValidatedResult<T>> => {
+  let prompt = request.prompt;
+  let errors: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      const { data, sources } = await withRetry(() => provider.generateJson<unknown>({ ...request, prompt }), request.signal);
+      const result = validate(data);
+      if (result.errors.length === 0) {
+        return { value: result.value, sources, warnings: result.warnings };
+      }
+      errors = result.errors;
+    } catch (error) {
+      if (!(error instanceof ProcessingError && error.kind === 'invalid-output')) throw error;
+      errors = ['Response was not valid JSON.'];
+    }
+    prompt = `${request.prompt}
+
+    YOUR PREVIOUS RESPONSE WAS REJECTED:
+    ${errors.map(e => `- ${e}`).join('\n    ')}
+    Return a complete, corrected response.`;
+  }
+  throw new ProcessingError('invalid-output', `Model output was still invalid after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ${errors.join(' ')}`);
+};
+
+// Tail of the previous segment's transcript, so sentences cut at a window
+// boundary are continued rather than repeated or dropped.
+const CONTINUITY_CHARS = 400;
+
+const segmentContext = (segment: MediaSegment, index: number, total: number, previousTail: string) => {
+  if (total === 1) return '';
+  const position = segment.startPage !== undefined
+    ? `pages ${segment.startPage}-${segment.endPage}`
+    : `the time window ${segment.label}`;
+  return `
+    NOTE: This is part ${index + 1} of ${total} of a longer lecture, covering ${position}.
+    Only transcribe and analyse this part; the parts will be merged afterwards.
+    ${previousTail ? `The previous part ended with: "…${previousTail}". Continue from there without repeating it.` : ''}
+  `;
+};
+
+// The model times (or pages) each part from its own start; shift them so
+// the merged transcript lines up with the original file.
+const offsetSegments = (notes: SegmentNotes, segment: MediaSegment): SegmentNotes => {
+  const seconds = segment.startSeconds || 0;
+  const pages = (segment.startPage || 1) - 1;
+  if (!seconds && !pages) return notes;
+  return {
+    ...notes,
+    segments: notes.segments.map(s => ({
+      ...s,
+      ...(s.start !== undefined && { start: s.start + seconds }),
+      ...(s.end !== undefined && { end: s.end + seconds }),
+      ...(s.page !== undefined && { page: s.page + pages })
+    }))
+  };
+};
+
+interface PartResult {
+  notes: SegmentNotes;
+  warnings: string[];
+}
+
+const analyzeSegment = async (
+  provider: NotesProvider,
+  segment: MediaSegment,
+  context: string,
+  deep: boolean,
+  segmentIdPrefix: string,
+  signal?: AbortSignal,
+  // Further pages sent after the segment's own, e.g. the rest of a set of pictures.
+  morePages: MediaPart[] = []
+): Promise<PartResult> => {
+  const isImage = segment.mimeType.startsWith('image/');
+  const isDocument = isImage || segment.mimeType === 'application/pdf';
+
+  const prompt = `
+    You are an expert academic research assistant and educator. 
+    Analyze the provided lecture ${isImage ? (morePages.length > 0 ? 'images (one page each, in order)' : 'image') : isDocument ? 'document (PDF)' : 'media (audio/video)'} and generate comprehensive study materials.
+    ${context}
+    REQUIRED OUTPUT STRUCTURE (JSON):
+    1. Title: Professional academic title.
+    2. Summary: 2-3 detailed paragraphs.
+    3. Key Concepts: Detailed list of terms and definitions.
+    4. Action Items: Deadlines or homework mentioned, each with its due date (YYYY-MM-DD) when one is given.
+       Today is ${toISODate(new Date())}; resolve relative dates such as "next Friday" against it.
+    5. Segments: The full transcription as clean, punctuated text, split into segments of one or two sentences.
+       ${isDocument
+         ? 'Give the page number each segment comes from.'
+         : 'Give start and end times in seconds from the beginning of this media. Label speakers when more than one person speaks.'}
+    6. Quiz: 6 questions mixing the types multiple-choice, true-false, multi-select, short-answer and cloze.
+       Each needs an explanation of the answer, an excerpt copied verbatim from the transcript that supports it,
+       and the index of the segment it is based on.
+    7. Flashcards: 5 high-impact conceptual flashcards (front, back).
+    8. Search: Find 3-5 high-quality external web resources related to the topic.
+    
+    The response must be strict JSON.
+  `;
+
+  const { value, sources, warnings } = await generateValidated<GeneratedNotes>(provider, {
+    prompt,
+    schema: NOTES_SCHEMA,
+    media: [{ data: segment.data, mimeType: segment.mimeType }, ...morePages],
+    deep,
+    search: true,
+    signal
+  }, raw => validateGeneratedNotes(raw, segmentIdPrefix));
+  return { notes: offsetSegments({ ...value, sources }, segment), warnings };
+};
+
+// Text extracted locally (documents, slides, web pages, subtitles) is sent
+// as numbered segments and becomes the transcript unchanged; the model only
+// writes the study materials. Pictures from the source are attached.
+const analyzeKnownText = async (
+  provider: NotesProvider,
+  description: string,
+  segments: TranscriptSegment[],
+  images: MediaPart[],
+  context: string,
+  deep: boolean,
+  signal?: AbortSignal
+): Promise<PartResult> => {
+  const prompt = `
+    You are an expert academic research assistant and educator. 
+    Analyze the provided lecture ${description} and generate comprehensive study materials.
+    Its text has already been extracted and is given below as numbered segments${images.length > 0 ? '; the pictures it contains are attached' : ''}.
+    ${context}
+    REQUIRED OUTPUT STRUCTURE (JSON):
+    1. Title: Professional academic title.
+    2. Summary: 2-3 detailed paragraphs.
+    3. Key Concepts: Detailed list of terms and definitions.
+    4. Action Items: Deadlines or homework mentioned, each with its due date (YYYY-MM-DD) when one is given.
+       Today is ${toISODate(new Date())}; resolve relative dates such as "next Friday" against it.
+    5. Quiz: 6 questions mixing the types multiple-choice, true-false, multi-select, short-answer and cloze.
+       Each needs an explanation of the answer, an excerpt copied verbatim from the segments that supports it,
+       and the number of the segment it is based on.
+    6. Flashcards: 5 high-impact conceptual flashcards (front, back).
+    7. Search: Find 3-5 high-quality external web resources related to the topic.
+
+    The response must be strict JSON.
+
+    SEGMENTS:
+    ${segments.map((seg, i) => `[${i}]${seg.page !== undefined ? ` (slide ${seg.page})` : ''} ${seg.text}`).join('\n    ')}
+  `;
+
+  const { value, sources, warnings } = await generateValidated<GeneratedNotes>(provider, {
+    prompt,
+    schema: KNOWN_TEXT_SCHEMA,
+    media: images.length > 0 ? images : undefined,
+    deep,
+    search: true,
+    signal
+  }, raw => validateGeneratedNotes(raw, '', segments));
+  return { notes: { ...value, sources }, warnings };
+};
+
+const validateOverview = (raw: unknown): ValidationResult<{ title: string; summary: string }> => {
+  const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const title = typeof data.title === 'string' ? data.title.trim() : '';
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+  return {
+    value: { title, summary },
+    warnings: [],
+    errors: [
+      ...(title ? [] : ['"title" must be a non-empty string.']),
+      ...(summary ? [] : ['"summary" must be a non-empty string.'])
+    ]
+  };
+};
+
+// Per-segment summaries each describe a slice; one short text-only call
+// turns them into a title and summary for the whole lecture.
+const synthesizeOverview = async (
+  provider: NotesProvider,
+  parts: SegmentNotes[],
+  deep: boolean,
+  signal?: AbortSignal
+): Promise<{ title: string; summary: string }> => {
+  const prompt = `
+    The following are summaries of consecutive parts of a single lecture.
+    Write a professional academic title and a 2-3 paragraph summary of the whole lecture.
+
+    ${parts.map((p, i) => `PART ${i + 1} (${p.title}):\n${p.summary}`).join('\n\n')}
+  `;
+
+  const { value } = await generateValidated(provider, {
+    prompt,
+    schema: OVERVIEW_SCHEMA,
+    deep,
+    signal
+  }, validateOverview);
+  return value;
+};
+
+// Extracted text is split into parts of about this many characters.
+const TEXT_CHARS_PER_PART = 60000;
+
+interface AnalysisPlan {
+  labels: string[];
+  analyze: (index: number, previousTail: string) => Promise<PartResult>;
+}
+
+const planMediaAnalysis = async (provider: NotesProvider, file: Blob, deep: boolean, signal?: AbortSignal): Promise<AnalysisPlan> => {
+  const plan: SegmentPlan = await planSegments(file);
+  return {
+    labels: plan.labels,
+    analyze: async (i, previousTail) => {
+      const segment = await plan.load(i);
+      const context = segmentContext(segment, i, plan.labels.length, previousTail);
+      return analyzeSegment(provider, segment, context, deep, `p${i}s`, signal);
+    }
+  };
+};
+
+const planContentAnalysis = (provider: NotesProvider, content: IngestedContent, deep: boolean, signal?: AbortSignal): AnalysisPlan => {
+  // Pictures alone (a photographed whiteboard, a scanned deck) are
+  // transcribed like the pages of a document. Ingestion caps how many there
+  // are, so they all fit in one request.
+  if (content.segments.length === 0) {
+    const [first, ...rest] = content.images;
+    if (!first) throw new ProcessingError('unsupported', "No text or images found in this file.");
+    const label = rest.length > 0 ? 'Images' : 'Image';
+    return {
+      labels: [label],
+      analyze: () => analyzeSegment(
+        provider, { label, data: first.data, mimeType: first.mimeType }, '', deep, 's', signal,
+        rest.map(({ data, mimeType }) => ({ data, mimeType }))
+      )
+    };
+  }
+
+  const chunks: TranscriptSegment[][] = [[]];
+  let size = 0;
+  content.segments.forEach(segment => {
+    if (size > 0 && size + segment.text.length > TEXT_CHARS_PER_PART) {
+      chunks.push([]);
+      size = 0;
+    }
+    chunks[chunks.length - 1].push(segment);
+    size += segment.text.length;
+  });
+  const pages = (chunk: TranscriptSegment[]) => chunk.map(seg => seg.page).filter((page): page is number => page !== undefined);
+  const labels = chunks.map((chunk, i) => {
+    const covered = pages(chunk);
+    return covered.length > 0 ? `Slides ${covered[0]}–${covered[covered.length - 1]}` : `Part ${i + 1}`;
+  });
+
+  return {
+    labels,
+    analyze: async i => {
+      const chunk = chunks[i];
+      const covered = pages(chunk);
+      // Slide pictures go with their slides; other pictures with the first part.
+      const images = content.images
+        .filter(image => (image.page !== undefined && covered.length > 0
+          ? image.page >= covered[0] && image.page <= covered[covered.length - 1]
+          : i === 0))
+        .map(({ data, mimeType }) => ({ data, mimeType }));
+      const context = chunks.length > 1
+        ? `NOTE: This is part ${i + 1} of ${chunks.length} of a longer ${content.description}. Only analyse this part; the parts will be merged afterwards.`
+        : '';
+      return analyzeKnownText(provider, content.description, chunk, images, context, deep, signal);
+    }
+  };
+};
+
+/**
+ * Turns a lecture file into notes. Audio, video and PDFs go to the model as
+ * they are; files too large for a single request are split by
+ * `planSegments`. Other inputs are first reduced to text and pictures by
+ * `ingestFile`. Parts are analysed one at a time and merged.
+ * Aborting `signal` stops at the next request; every failure is thrown as a
+ * `ProcessingError`.
+ */
+export const processLectureFile = async (
+  provider: NotesProvider,
+  file: Blob,
+  deepAnalysis: boolean = false,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<SmartNotes> => {
+  try {
+    onProgress?.({ stage: 'PREPARING', segments: [] });
+    const content = await ingestFile(file);
+    const plan = content
+      ? planContentAnalysis(provider, content, deepAnalysis, signal)
+      : await planMediaAnalysis(provider, file, deepAnalysis, signal);
+    const report = (stage: ProcessingProgress['stage'], current: number) => onProgress?.({
+      stage,
+      segments: plan.labels.map((label, i) => ({ label, status: i < current ? 'done' : i === current ? 'processing' : 'pending' }))
+    });
+
+    const parts: SegmentNotes[] = [];
+    const warnings: string[] = [];
+    for (let i = 0; i < plan.labels.length; i++) {
+      if (signal?.aborted) throw cancelledError();
+      report('ANALYZING', i);
+      const previousTail = parts[i - 1]?.transcription.slice(-CONTINUITY_CHARS) || '';
+      const result = await plan.analyze(i, previousTail);
+      parts.push(result.notes);
+      warnings.push(...result.warnings.map(w => plan.labels.length > 1 ? `${plan.labels[i]}: ${w}` : w));
+    }
+
+    report('MERGING', plan.labels.length);
+    const merged = mergeSegmentNotes(parts);
+    if (parts.length > 1) {
+      Object.assign(merged, await synthesizeOverview(provider, parts, deepAnalysis, signal));
+    }
+
+    const id = crypto.randomUUID();
+    const timestamp = Date.now();
+    const note: SmartNotes = {
+      ...merged,
+      actionItems: createActionItems(merged.actionItems, id, new Date(timestamp)),
+      conceptSegments: linkConcepts(merged.keyConcepts, merged.segments),
+      id,
+      timestamp,
+      ...(!content && file.type && { mediaType: file.type }),
+      ...(warnings.length > 0 && { warnings })
+    };
+    return { ...note, revisions: [createRevision(noteContent(note), 'ai', 'Generated', timestamp)] };
+  } catch (error) {
+    const failure = signal?.aborted ? cancelledError() : toProcessingError(error);
+    if (failure.kind !== 'cancelled') console.error(`${provider.label} Processing Error:`, error);
+    throw failure;
+  }
+};
@@ -0,0 +1,65 @@
+import { AppSettings } from "../types";
+import { httpError, parseRetryAfter, ProcessingError } from "../utils/errors";
+import { GenerateRequest, MediaPart, NotesProvider } from "./notesProvider";
+
+const AUDIO_FORMATS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3'
+};
+
+// Chat-completions content parts; which ones a self-hosted model accepts
+// varies, so anything without a standard encoding is rejected up front.
+const toContentPart = (part: MediaPart) => {
+  if (part.mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+  }
+  if (AUDIO_FORMATS[part.mimeType]) {
+    return { type: 'input_audio', input_audio: { data: part.data, format: AUDIO_FORMATS[part.mimeType] } };
+  }
+  if (part.mimeType === 'application/pdf') {
+    return { type: 'file', file: { filename: 'lecture.pdf', file_data: `data:application/pdf;base64,${part.data}` } };
+  }
+  throw new ProcessingError('unsupported', `The OpenAI-compatible provider cannot send ${part.mimeType || 'this file type'}.`);
+};
+
+export const createOpenAIProvider = (config: AppSettings['openAI']): NotesProvider => ({
+  id: 'openai',
+  label: 'OpenAI-compatible endpoint',
+  generateJson: async <T,>({ prompt, schema, media = [], signal }: GenerateRequest) => {
+    if (!config.baseUrl || !config.model) {
+      throw new ProcessingError('auth', "Set a base URL and model for the OpenAI-compatible provider in Settings.");
+    }
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          { role: 'system', content: 'You respond only with JSON matching the requested schema.' },
+          { role: 'user', content: [{ type: 'text', text: prompt }, ...media.map(toContentPart)] }
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema }
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw httpError(response.status, await response.text(), parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    const body = await response.json();
+    const content: string = body.choices?.[0]?.message?.content || "{}";
+    // Some local servers wrap JSON in a markdown fence despite response_format.
+    const data = JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, '')) as T;
+    return { data, sources: [] };
+  }
+});
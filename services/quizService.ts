@@ -0,0 +1,136 @@
+import { QuizItem } from "../types";
+import { validateQuizItem, ValidationResult } from "../utils/notesValidator";
+import { JsonSchema, NotesProvider } from "./notesProvider";
+import { generateValidated, NOTES_SCHEMA } from "./notesService";
+
+export interface ShortAnswerGrade {
+  correct: boolean;
+  feedback: string;
+}
+
+const GRADE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    correct: { type: 'boolean' },
+    feedback: { type: 'string', description: 'One or two sentences addressed to the student' }
+  },
+  required: ['correct', 'feedback']
+};
+
+const validateGrade = (raw: unknown): ValidationResult<ShortAnswerGrade> => {
+  const data = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const feedback = typeof data.feedback === 'string' ? data.feedback.trim() : '';
+  return {
+    value: { correct: data.correct === true, feedback },
+    warnings: [],
+    errors: typeof data.correct === 'boolean' ? [] : ['"correct" must be true or false.']
+  };
+};
+
+/**
+ * Marks a short answer against the question's reference answer. Answers
+ * that get the substance right are accepted whatever their wording.
+ */
+export const gradeShortAnswer = async (
+  provider: NotesProvider,
+  item: QuizItem,
+  response: string
+): Promise<ShortAnswerGrade> => {
+  const prompt = `
+    You are grading a student's short answer to a lecture quiz question.
+    Mark it correct if it captures the substance of the reference answer, even in different words;
+    mark it incorrect if it is wrong, missing the key point or too vague. Give brief, encouraging feedback.
+
+    QUESTION: ${item.question}
+    REFERENCE ANSWER: ${item.answer}
+    ${item.excerpt ? `SOURCE PASSAGE: ${item.excerpt}` : ''}
+    STUDENT ANSWER: ${response}
+  `;
+  try {
+    const { value } = await generateValidated(provider, { prompt, schema: GRADE_SCHEMA }, validateGrade);
+    return value;
+  } catch (error) {
+    console.error(`${provider.label} Grading Error:`, error);
+    throw new Error("Could not grade this answer. Please try again.");
+  }
+};
+
+export interface VariantSource {
+  // A missed question, or the front of a weak card.
+  prompt: string;
+  answer: string;
+  noteTitle: string;
+}
+
+export interface QuestionVariant {
+  // Index into the sources the variant was written for.
+  source: number;
+  item: QuizItem;
+}
+
+const QUIZ_ITEM_SCHEMA = NOTES_SCHEMA.properties!.quiz.items!;
+
+// Variants are not drawn from a transcript, so they carry no excerpt or segment.
+const VARIANTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    quiz: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...Object.fromEntries(Object.entries(QUIZ_ITEM_SCHEMA.properties!).filter(([key]) => key !== 'excerpt' && key !== 'segment')),
+          source: { type: 'integer', description: 'Index of the item this question is a variant of' }
+        },
+        required: ['type', 'question', 'options', 'answer', 'explanation', 'source']
+      }
+    }
+  },
+  required: ['quiz']
+};
+
+const validateVariants = (count: number) => (raw: unknown): ValidationResult<QuestionVariant[]> => {
+  const list = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>).quiz : undefined;
+  const warnings: string[] = [];
+  const variants: QuestionVariant[] = [];
+  (Array.isArray(list) ? list : []).forEach((entry, i) => {
+    const item = validateQuizItem(entry, i, warnings);
+    if (!item) return;
+    const source = (entry as Record<string, unknown>).source;
+    // A variant without a usable source is paired with the item at its position.
+    const index = Number.isInteger(source) && (source as number) >= 0 && (source as number) < count ? source as number : i % count;
+    variants.push({ source: index, item });
+  });
+  return {
+    value: variants,
+    warnings,
+    errors: variants.length > 0 ? [] : ['"quiz" must contain valid questions whose answer is one of their options.']
+  };
+};
+
+/**
+ * Fresh questions testing the same ideas as questions a student got wrong
+ * and cards they struggle with, so practice isn't just recalling answers
+ * to questions already seen.
+ */
+export const generateVariantQuestions = async (
+  provider: NotesProvider,
+  sources: VariantSource[],
+  signal?: AbortSignal
+): Promise<QuestionVariant[]> => {
+  if (sources.length === 0) return [];
+  const prompt = `
+    You are an expert academic educator helping a student practise their weak spots.
+    Below are questions they answered wrongly and flashcards they found hard. For each item write ONE new question
+    that tests the same underlying concept in a different way: change the wording, the scenario or the direction
+    of the question, and do not reuse its answer options. Mix the types multiple-choice, true-false, multi-select,
+    short-answer and cloze (mark each blank with ____). Choice answers must be copied exactly from the options.
+    Explain each answer and set source to the number of the item it is a variant of.
+
+    ${sources.map((s, i) => `ITEM ${i} (from "${s.noteTitle}")
+    PROMPT: ${s.prompt}
+    ANSWER: ${s.answer}`).join('\n\n    ')}
+  `;
+  const { value } = await generateValidated(provider, { prompt, schema: VARIANTS_SCHEMA, signal }, validateVariants(sources.length));
+  return value;
+};
@@ -0,0 +1,42 @@
+import { RecordingSession } from "../types";
+import { STORES, withStore } from "./db";
+
+interface StoredChunk {
+  recordingId: string;
+  sequence: number;
+  blob: Blob;
+}
+
+const chunkRange = (recordingId: string) => IDBKeyRange.bound([recordingId, 0], [recordingId, Infinity]);
+
+export const putRecording = async (session: RecordingSession): Promise<void> => {
+  await withStore(STORES.recordings, 'readwrite', store => { store.put(session); });
+};
+
+/** Saves one slice of audio and moves the session's duration forward. */
+export const appendRecordingChunk = async (recordingId: string, sequence: number, blob: Blob, durationMs: number): Promise<void> => {
+  await withStore(STORES.recordingChunks, 'readwrite', store => { store.put({ recordingId, sequence, blob } as StoredChunk); });
+  await withStore(STORES.recordings, 'readwrite', store => {
+    const request = store.get(recordingId);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, durationMs, updatedAt: Date.now() });
+    };
+  });
+};
+
+/** Recordings that were never processed, newest first. */
+export const listRecordings = async (): Promise<RecordingSession[]> => {
+  const sessions = await withStore<RecordingSession[]>(STORES.recordings, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/** The saved chunks joined back into one playable file. */
+export const loadRecordingAudio = async (session: RecordingSession): Promise<Blob> => {
+  const chunks = await withStore<StoredChunk[]>(STORES.recordingChunks, 'readonly', store => store.getAll(chunkRange(session.id)));
+  return new Blob(chunks.map(c => c.blob), { type: session.mimeType });
+};
+
+export const deleteRecording = async (id: string): Promise<void> => {
+  await withStore(STORES.recordingChunks, 'readwrite', store => { store.delete(chunkRange(id)); });
+  await withStore(STORES.recordings, 'readwrite', store => { store.delete(id); });
+};
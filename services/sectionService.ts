@@ -0,0 +1,151 @@
+import { Flashcard, QuizItem, SmartNotes } from "../types";
+import { validateActionItem, validateFlashcard, validateList, validateQuizItem, ValidationResult } from "../utils/notesValidator";
+import { ActionItemDraft, reconcileActionItems, toISODate } from "../utils/actionItems";
+import { JsonSchema, NotesProvider } from "./notesProvider";
+import { generateValidated, NOTES_SCHEMA } from "./notesService";
+
+export type SectionAction = 'REGENERATE_SUMMARY' | 'MORE_QUIZ' | 'HARDER_FLASHCARDS' | 'REEXTRACT_ACTIONS';
+
+export const SECTION_ACTION_LABELS: Record<SectionAction, string> = {
+  REGENERATE_SUMMARY: 'Regenerate summary',
+  MORE_QUIZ: '10 more quiz questions',
+  HARDER_FLASHCARDS: 'Harder flashcards',
+  REEXTRACT_ACTIONS: 'Re-extract action items'
+};
+
+const sectionSchema = (key: string): JsonSchema => ({
+  type: 'object',
+  properties: { [key]: NOTES_SCHEMA.properties![key] },
+  required: [key]
+});
+
+const field = (raw: unknown, key: string): unknown =>
+  typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>)[key] : undefined;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const validateSummary = (raw: unknown): ValidationResult<string> => {
+  const value = field(raw, 'summary');
+  const summary = typeof value === 'string' ? value.trim() : '';
+  return { value: summary, warnings: [], errors: summary ? [] : ['"summary" must be a non-empty string.'] };
+};
+
+const validateNewItems = <T>(
+  key: string,
+  validateItem: (item: unknown, position: number, warnings: string[]) => T | null,
+  isDuplicate: (item: T) => boolean
+) => (raw: unknown): ValidationResult<T[]> => {
+  const warnings: string[] = [];
+  const items = validateList(field(raw, key), key, warnings, validateItem);
+  const fresh = items.filter(item => !isDuplicate(item));
+  if (fresh.length < items.length) warnings.push(`Dropped ${items.length - fresh.length} ${key} entries that duplicated existing ones.`);
+  return {
+    value: fresh,
+    warnings,
+    errors: fresh.length === 0 ? [`No new valid ${key} entries were returned.`] : []
+  };
+};
+
+// Segments are numbered so generated quiz questions can point back at them.
+const sourceMaterial = (notes: SmartNotes) => `
+    LECTURE TITLE: ${notes.title}
+    LECTURE TRANSCRIPTION${notes.segments?.length ? ' (numbered segments)' : ''}:
+    """
+    ${notes.segments?.length ? notes.segments.map((seg, i) => `[${i}] ${seg.text}`).join('\n    ') : notes.transcription}
+    """
+  `;
+
+/** Writes a section result into the note as it is when the result arrives. */
+export type SectionUpdate = (current: SmartNotes) => SmartNotes;
+
+/**
+ * Re-runs a single section of a note against its stored transcription. The
+ * result is returned as an update to apply to the latest copy of the note,
+ * so changes made while the request was running are kept. Other sections
+ * are left exactly as they were.
+ */
+export const runSectionAction = async (
+  provider: NotesProvider,
+  notes: SmartNotes,
+  action: SectionAction,
+  deep: boolean = false
+): Promise<SectionUpdate> => {
+  const withWarnings = (change: (current: SmartNotes) => Partial<SmartNotes>, warnings: string[]): SectionUpdate => current => ({
+    ...current,
+    ...change(current),
+    ...(warnings.length > 0 && { warnings: [...(current.warnings || []), ...warnings] })
+  });
+
+  switch (action) {
+    case 'REGENERATE_SUMMARY': {
+      const { value, warnings } = await generateValidated(provider, {
+        prompt: `
+    You are an expert academic educator. Write a fresh 2-3 paragraph summary of this lecture.
+    Take a different angle from the current summary while staying faithful to the transcription.
+    CURRENT SUMMARY: ${notes.summary}
+    ${sourceMaterial(notes)}
+  `,
+        schema: sectionSchema('summary'),
+        deep
+      }, validateSummary);
+      return withWarnings(() => ({ summary: value }), warnings);
+    }
+
+    case 'MORE_QUIZ': {
+      const existing = new Set((notes.quiz || []).map(q => normalize(q.question)));
+      const { value, warnings } = await generateValidated<QuizItem[]>(provider, {
+        prompt: `
+    You are an expert academic educator. Write 10 NEW quiz questions about this lecture, mixing the types
+    multiple-choice, true-false, multi-select, short-answer and cloze (mark each blank with ____).
+    Give each an explanation, an excerpt copied verbatim from the transcript and the index of the segment it is based on.
+    Choice answers must be copied exactly from the options. Do not repeat any of these existing questions:
+    ${(notes.quiz || []).map(q => `- ${q.question}`).join('\n    ')}
+    ${sourceMaterial(notes)}
+  `,
+        schema: sectionSchema('quiz'),
+        deep
+      }, validateNewItems(
+        'quiz',
+        (item, i, w) => validateQuizItem(item, i, w, {
+          segmentIds: (notes.segments || []).map(seg => seg.id),
+          transcript: notes.transcription
+        }),
+        q => existing.has(normalize(q.question))
+      ));
+      return withWarnings(current => ({ quiz: [...(current.quiz || []), ...value] }), warnings);
+    }
+
+    case 'HARDER_FLASHCARDS': {
+      const existing = new Set((notes.flashcards || []).map(c => normalize(c.front)));
+      const { value, warnings } = await generateValidated<Flashcard[]>(provider, {
+        prompt: `
+    You are an expert academic educator. Write 5 NEW flashcards (front, back) that are harder than the existing ones:
+    test application, comparison and edge cases rather than definitions. Existing cards:
+    ${(notes.flashcards || []).map(c => `- ${c.front}`).join('\n    ')}
+    ${sourceMaterial(notes)}
+  `,
+        schema: sectionSchema('flashcards'),
+        deep
+      }, validateNewItems('flashcards', validateFlashcard, c => existing.has(normalize(c.front))));
+      return withWarnings(current => ({ flashcards: [...(current.flashcards || []), ...value] }), warnings);
+    }
+
+    case 'REEXTRACT_ACTIONS': {
+      const lectureDate = new Date(notes.timestamp);
+      const { value, warnings } = await generateValidated<ActionItemDraft[]>(provider, {
+        prompt: `
+    List every action item in this lecture: homework, readings, deadlines, exams and anything students were asked to do.
+    Give each item's due date as YYYY-MM-DD when one is mentioned; the lecture was given on ${toISODate(lectureDate)},
+    so resolve relative dates such as "Friday" against that. Return an empty list if there are none.
+    ${sourceMaterial(notes)}
+  `,
+        schema: sectionSchema('actionItems'),
+        deep
+      }, raw => {
+        const warnings: string[] = [];
+        return { value: validateList(field(raw, 'actionItems'), 'Action items', warnings, validateActionItem), warnings, errors: [] };
+      });
+      return withWarnings(current => ({ actionItems: reconcileActionItems(current.actionItems, value, current.id, lectureDate) }), warnings);
+    }
+  }
+};
@@ -0,0 +1,30 @@
+import { AppSettings } from "../types";
+
+const SETTINGS_KEY = 'smart_notes_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  deepAnalysis: false,
+  openAI: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: '',
+    apiKey: ''
+  }
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      ...DEFAULT_SETTINGS,
+      ...saved,
+      openAI: { ...DEFAULT_SETTINGS.openAI, ...saved.openAI }
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
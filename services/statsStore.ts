@@ -0,0 +1,20 @@
+import { StudyEvent } from "../types";
+import { STORES, withStore } from "./db";
+
+/** The whole study log, oldest first. */
+export const listStudyEvents = async (): Promise<StudyEvent[]> =>
+  withStore<StudyEvent[]>(STORES.studyEvents, 'readonly', store => store.index('timestamp').getAll());
+
+export const putStudyEvent = async (event: StudyEvent): Promise<void> => {
+  await withStore(STORES.studyEvents, 'readwrite', store => { store.put(event); });
+};
+
+export const putStudyEvents = async (events: StudyEvent[]): Promise<void> => {
+  await withStore(STORES.studyEvents, 'readwrite', store => {
+    events.forEach(event => store.put(event));
+  });
+};
+
+export const clearStudyEvents = async (): Promise<void> => {
+  await withStore(STORES.studyEvents, 'readwrite', store => { store.clear(); });
+};
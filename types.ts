@@ -1,31 +1,299 @@
 
+export type QuestionType = 'multiple-choice' | 'true-false' | 'multi-select' | 'short-answer' | 'cloze';
+
 export interface QuizItem {
+  // Questions saved before types existed are multiple-choice.
+  type?: QuestionType;
+  // Cloze questions mark each blank with "____".
   question: string;
+  // Empty for short-answer and cloze questions.
   options: string[];
+  // The correct option, the reference answer, or every correct option / blank
+  // joined for display.
   answer: string;
+  // Multi-select: every correct option. Cloze: the word for each blank, in order.
+  answers?: string[];
+  explanation?: string;
+  // Passage of the transcript that supports the answer.
+  excerpt?: string;
+  // Transcript segment the question was drawn from.
+  segmentId?: string;
+}
+
+export interface QuestionResult {
+  question: string;
+  correct: boolean;
+  // Chosen options, typed answer or blank fills.
+  response: string[];
+  // Grader feedback on a short answer.
+  feedback?: string;
+}
+
+export interface QuizAttempt {
+  id: string;
+  timestamp: number;
+  // A 'missed' attempt only retries the questions missed in the one before;
+  // a 'practice' attempt holds this note's share of a weak-spots session.
+  mode: 'full' | 'missed' | 'practice';
+  results: QuestionResult[];
+  // When the first question was shown.
+  startedAt?: number;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface CardSchedule {
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  due: number; // epoch ms
+  lastReviewed?: number;
+  lastGrade?: ReviewGrade;
 }
 
 export interface Flashcard {
   front: string;
   back: string;
+  schedule?: CardSchedule;
+}
+
+export interface DueCard {
+  noteId: string;
+  noteTitle: string;
+  cardIndex: number;
+  card: Flashcard;
+}
+
+interface StudyEventBase {
+  id: string;
+  // When the activity finished.
+  timestamp: number;
+  // The note studied; a focus session need not be about one.
+  noteId?: string;
+  durationMs: number;
 }
 
+export interface QuizEvent extends StudyEventBase {
+  kind: 'quiz';
+  attemptId: string;
+  results: Pick<QuestionResult, 'question' | 'correct'>[];
+}
+
+export interface ReviewEvent extends StudyEventBase {
+  kind: 'review';
+  // Front of the card reviewed.
+  card: string;
+  grade: ReviewGrade;
+  // Days until the card is next due.
+  interval: number;
+}
+
+export interface FocusEvent extends StudyEventBase {
+  kind: 'focus';
+}
+
+/** One entry in the study log the stats dashboard is built from. */
+export type StudyEvent = QuizEvent | ReviewEvent | FocusEvent;
+
+export type StudyEventKind = StudyEvent['kind'];
+
 export interface GroundingSource {
   title: string;
   uri: string;
 }
 
+export interface TranscriptSegment {
+  id: string;
+  text: string;
+  start?: number; // seconds from the start of the recording
+  end?: number;
+  page?: number;  // for documents
+  speaker?: string;
+}
+
+export interface ChatCitation {
+  quote: string;
+  // Offsets into the note's transcription.
+  start: number;
+  end: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+  citations?: ChatCitation[];
+}
+
+export interface ActionItem {
+  id: string;
+  text: string;
+  // Calendar date the item is due, as YYYY-MM-DD.
+  due?: string;
+  done: boolean;
+  // The note the item was extracted from.
+  noteId: string;
+}
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+  noteIds: string[];
+}
+
+export interface ConceptMention {
+  noteId: string;
+  // How this lecture defines the concept; empty for a bare term.
+  definition: string;
+  // Where the lecture first discusses it.
+  segmentId?: string;
+}
+
+/** A concept as one entity across the vault, identified by its normalised term. */
+export interface ConceptEntity {
+  key: string;
+  term: string;
+  // The fullest definition any lecture gives.
+  definition: string;
+  mentions: ConceptMention[];
+}
+
+export interface CourseSynthesis {
+  generatedAt: number;
+  noteIds: string[];
+  studyGuide: string;
+  glossary: GlossaryEntry[];
+  actionItems: { text: string; noteId: string }[];
+  quiz: QuizItem[];
+}
+
+export interface Course {
+  id: string;
+  name: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt?: number;
+  synthesis?: CourseSynthesis;
+}
+
+export type AnnotationTarget = 'transcription' | 'summary';
+
+// Where an annotation sits. The quote and its surrounding text find it again
+// after the text is edited; the offsets are the last resort.
+export interface TextAnchor {
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start: number;
+  end: number;
+}
+
+/** A highlight on the transcription or summary, optionally with a margin note. */
+export interface Annotation {
+  id: string;
+  target: AnnotationTarget;
+  anchor: TextAnchor;
+  note?: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// The parts of a note a person can edit; what each revision snapshots.
+// Review state (card schedules, action items being done) is not content.
+export interface NoteContent {
+  title: string;
+  summary: string;
+  keyConcepts: string[];
+  actionItems: Pick<ActionItem, 'id' | 'text' | 'due'>[];
+  quiz: QuizItem[];
+  flashcards: Pick<Flashcard, 'front' | 'back'>[];
+}
+
+export type RevisionAuthor = 'ai' | 'user';
+
+export interface NoteRevision {
+  id: string;
+  timestamp: number;
+  author: RevisionAuthor;
+  // What was done, e.g. "Edited summary" or "Regenerate Summary".
+  label: string;
+  content: NoteContent;
+}
+
 export interface SmartNotes {
   id: string;
   timestamp: number;
+  updatedAt?: number;
   title: string;
   summary: string;
   keyConcepts: string[];
-  actionItems: string[];
+  actionItems: ActionItem[];
   transcription: string;
+  // The transcription split into timed (or paged) segments, when available.
+  segments?: TranscriptSegment[];
+  // Segment each key concept is first discussed in, keyed by concept term.
+  conceptSegments?: Record<string, string>;
+  // Original media is kept in the media store under the note's id.
+  mediaType?: string;
   quiz?: QuizItem[];
+  quizAttempts?: QuizAttempt[];
   flashcards?: Flashcard[];
   sources?: GroundingSource[];
+  // Problems found (and repaired or dropped) in the model's output.
+  warnings?: string[];
+  chat?: ChatMessage[];
+  courseId?: string;
+  tags?: string[];
+  // Content after each save, oldest first; the first is the generated note.
+  revisions?: NoteRevision[];
+  annotations?: Annotation[];
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AppSettings {
+  provider: ProviderId;
+  deepAnalysis: boolean;
+  openAI: {
+    baseUrl: string;
+    model: string;
+    apiKey: string;
+  };
+}
+
+export type SegmentStatus = 'pending' | 'processing' | 'done';
+
+export interface ProcessingProgress {
+  stage: 'PREPARING' | 'ANALYZING' | 'MERGING';
+  segments: { label: string; status: SegmentStatus }[];
+}
+
+export type ImportStatus = 'queued' | 'uploading' | 'processing' | 'done' | 'failed';
+
+/** One file waiting in, or finished by, the batch import queue. */
+export interface ImportJob {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  // Dropped once the note is in the vault.
+  file?: Blob;
+  status: ImportStatus;
+  addedAt: number;
+  attempts: number;
+  error?: string;
+  noteId?: string;
+}
+
+/** A microphone recording, saved chunk by chunk while it runs. */
+export interface RecordingSession {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  updatedAt: number;
+  // Recorded time in the saved chunks, excluding pauses.
+  durationMs: number;
 }
 
 export enum AppStatus {
@@ -37,4 +305,4 @@ export enum AppStatus {
   ERROR = 'ERROR'
 }
 
-export type PageView = 'HOME' | 'HISTORY' | 'HOW_IT_WORKS' | 'RESOURCES' | 'SETTINGS' | 'STUDY_MODE';
+export type PageView = 'HOME' | 'HISTORY' | 'HOW_IT_WORKS' | 'RESOURCES' | 'SETTINGS' | 'STUDY_MODE' | 'REVIEW' | 'ASSIGNMENTS' | 'CONCEPTS' | 'STATS' | 'PRACTICE';
@@ -0,0 +1,154 @@
+import { ActionItem, SmartNotes } from "../types";
+import { normalize } from "./concepts";
+
+/** An action item as a model returns it, before it belongs to a note. */
+export type ActionItemDraft = Pick<ActionItem, 'text' | 'due'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A month/day without a year that is further back than this is next year's.
+const PAST_DATE_TOLERANCE_DAYS = 60;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/** Local calendar date as YYYY-MM-DD. */
+export const toISODate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const fromISODate = (iso: string) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const isISODate = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  return toISODate(fromISODate(value)) === value;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const dateIn = (year: number | undefined, month: number, day: number, reference: Date): string | undefined => {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return undefined;
+  let date = new Date(year ?? reference.getFullYear(), month, day);
+  if (date.getMonth() !== month) return undefined;
+  if (year === undefined && reference.getTime() - date.getTime() > PAST_DATE_TOLERANCE_DAYS * DAY_MS) {
+    date = new Date(date.getFullYear() + 1, month, day);
+  }
+  return toISODate(date);
+};
+
+const fullYear = (raw?: string) => {
+  if (!raw) return undefined;
+  const year = Number(raw);
+  return raw.length === 2 ? 2000 + year : year;
+};
+
+/**
+ * Finds a due date in free text such as "due Friday", "by Oct 21st",
+ * "before 3/14" or "2026-11-02". Relative dates resolve against
+ * `reference`, normally when the lecture was processed.
+ */
+export const parseDueDate = (text: string, reference: Date = new Date()): string | undefined => {
+  const today = startOfDay(reference);
+  const lower = text.toLowerCase();
+
+  const iso = lower.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) return dateIn(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]), today);
+
+  const monthDay = lower.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`));
+  if (monthDay) return dateIn(fullYear(monthDay[3]), MONTHS.indexOf(monthDay[1]), Number(monthDay[2]), today);
+
+  const dayMonth = lower.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?`));
+  if (dayMonth) return dateIn(fullYear(dayMonth[3]), MONTHS.indexOf(dayMonth[2]), Number(dayMonth[1]), today);
+
+  // Bare numbers like "1/2" are too often fractions, so a numeric date needs a lead-in.
+  const numeric = lower.match(/\b(?:due|by|on|before|until)\s+(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/);
+  if (numeric) return dateIn(fullYear(numeric[3]), Number(numeric[1]) - 1, Number(numeric[2]), today);
+
+  if (/\b(today|tonight)\b/.test(lower)) return toISODate(today);
+  if (/\btomorrow\b/.test(lower)) return toISODate(addDays(today, 1));
+
+  const inDays = lower.match(/\bin\s+(\d{1,2})\s+(day|week)s?\b/);
+  if (inDays) return toISODate(addDays(today, Number(inDays[1]) * (inDays[2] === 'week' ? 7 : 1)));
+
+  // "Friday" is the next one after today; "next Friday" is read as the one after that.
+  const weekday = lower.match(/\b(next\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/);
+  if (weekday) {
+    const ahead = (WEEKDAYS.indexOf(weekday[2]) - today.getDay() + 7) % 7 || 7;
+    return toISODate(addDays(today, ahead + (weekday[1] ? 7 : 0)));
+  }
+  if (/\bnext\s+week\b/.test(lower)) return toISODate(addDays(today, 7));
+  return undefined;
+};
+
+const toActionItem = (draft: ActionItemDraft, noteId: string, reference: Date): ActionItem => {
+  const due = isISODate(draft.due) ? draft.due : parseDueDate(draft.text, reference);
+  return { id: crypto.randomUUID(), text: draft.text, ...(due && { due }), done: false, noteId };
+};
+
+export const createActionItems = (drafts: ActionItemDraft[], noteId: string, reference: Date = new Date()): ActionItem[] =>
+  drafts.map(draft => toActionItem(draft, noteId, reference));
+
+/**
+ * Replaces a note's action items with a fresh extraction, keeping the id,
+ * done flag and (possibly hand-edited) due date of items that survive.
+ */
+export const reconcileActionItems = (previous: ActionItem[], drafts: ActionItemDraft[], noteId: string, reference: Date): ActionItem[] => {
+  const existing = new Map(previous.map(item => [normalize(item.text), item]));
+  return drafts.map(draft => {
+    const match = existing.get(normalize(draft.text));
+    if (!match) return toActionItem(draft, noteId, reference);
+    const due = match.due ?? toActionItem(draft, noteId, reference).due;
+    return { ...match, text: draft.text, ...(due && { due }) };
+  });
+};
+
+// FNV-1a, as hex.
+const textHash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Upgrades notes saved when action items were plain strings. Runs on every
+ * read until the note is next saved, so ids are derived from the note and
+ * the item rather than random: calendar exports, revisions and backup
+ * merges see the same items each time.
+ */
+export const migrateActionItems = (note: SmartNotes): SmartNotes => {
+  const items: unknown[] = Array.isArray(note.actionItems) ? note.actionItems : [];
+  if (items.every(item => typeof item !== 'string')) return note;
+  const reference = new Date(note.timestamp);
+  return {
+    ...note,
+    actionItems: items.map((item, i) => typeof item === 'string'
+      ? { ...toActionItem({ text: item }, note.id, reference), id: `${note.id}-action-${i}-${textHash(item)}` }
+      : item as ActionItem)
+  };
+};
+
+/** Dated items first, soonest deadline first; undated items keep their order. */
+export const compareByDue = (a: ActionItem, b: ActionItem) => {
+  if (a.due && b.due) return a.due.localeCompare(b.due);
+  return a.due ? -1 : b.due ? 1 : 0;
+};
+
+export type DueStatus = 'overdue' | 'today' | 'soon' | 'later' | 'undated';
+
+const SOON_DAYS = 7;
+
+export const dueStatus = (item: ActionItem, now: Date = new Date()): DueStatus => {
+  if (!item.due) return 'undated';
+  const today = toISODate(now);
+  if (item.due < today) return 'overdue';
+  if (item.due === today) return 'today';
+  return item.due <= toISODate(addDays(startOfDay(now), SOON_DAYS)) ? 'soon' : 'later';
+};
+
+export const formatDue = (due: string) =>
+  fromISODate(due).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
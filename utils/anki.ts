@@ -0,0 +1,173 @@
+import { strToU8, unzipSync, zipSync } from "fflate";
+import type { SqlJsStatic } from "sql.js";
+import { Flashcard } from "../types";
+import { DeckCard } from "./deck";
+// Bundled with the app, so exporting works offline and on the pinned version.
+import sqlWasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJs) {
+    sqlJs = import('sql.js')
+      .then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => sqlWasmUrl }))
+      .catch(error => {
+        sqlJs = null;
+        throw error;
+      });
+  }
+  return sqlJs;
+};
+
+// Fixed so every export shares one note type in the user's collection.
+const MODEL_ID = 1718203417000;
+const FIELD_SEPARATOR = '\x1f';
+
+// The legacy (schema 11) collection layout, which every Anki version imports.
+const SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const sha1Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', strToU8(text));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r?\n/g, '<br>');
+
+const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p)>/gi, '\n'), 'text/html');
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// Deck ids only need to be stable per name; 1 is Anki's "Default" deck.
+const deckId = (name: string) => {
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + ch.codePointAt(0)!) % 2147483647;
+  return 1000000000 + hash;
+};
+
+const model = (did: number, mod: number) => ({
+  id: MODEL_ID,
+  name: 'SmartNotes Basic',
+  type: 0,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did,
+  tmpls: [{
+    name: 'Card 1',
+    ord: 0,
+    qfmt: '{{Front}}',
+    afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}\n\n{{#Lecture}}<div class="lecture">{{Lecture}}</div>{{/Lecture}}',
+    did: null,
+    bqfmt: '',
+    bafmt: ''
+  }],
+  flds: ['Front', 'Back', 'Lecture'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.lecture { margin-top: 1em; font-size: 12px; color: #94a3b8; }',
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  tags: [],
+  vers: [],
+  req: [[0, 'any', [0]]]
+});
+
+const deck = (id: number, name: string, mod: number) => ({
+  id, name, desc: '', mod, usn: -1, collapsed: false, browserCollapsed: false,
+  newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  dyn: 0, conf: 1, extendNew: 10, extendRev: 50
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 }
+  }
+};
+
+/**
+ * Packages cards as an Anki `.apkg`: a zipped SQLite collection holding one
+ * deck of new cards with Front, Back and Lecture fields. Card keys become
+ * note GUIDs, so importing a later export updates cards in place.
+ */
+export const buildApkg = async (cards: DeckCard[], deckName: string): Promise<Blob> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    const now = Date.now();
+    const seconds = Math.floor(now / 1000);
+    const did = deckId(deckName);
+    db.run(SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      seconds, now, now,
+      JSON.stringify({ nextPos: cards.length + 1, estTimes: true, activeDecks: [did], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: did, newSpread: 0, dueCounts: true, curModel: MODEL_ID, collapseTime: 1200 }),
+      JSON.stringify({ [MODEL_ID]: model(did, seconds) }),
+      JSON.stringify({ 1: deck(1, 'Default', seconds), [did]: deck(did, deckName, seconds) }),
+      JSON.stringify(DECK_CONFIG),
+      '{}'
+    ]);
+    for (let i = 0; i < cards.length; i++) {
+      const card = cards[i];
+      const front = escapeHtml(card.front);
+      const guid = (await sha1Hex(card.key)).slice(0, 16);
+      const csum = parseInt((await sha1Hex(card.front)).slice(0, 8), 16);
+      const tags = card.tags.length > 0 ? ` ${card.tags.join(' ')} ` : '';
+      const fields = [front, escapeHtml(card.back), escapeHtml(card.source)].join(FIELD_SEPARATOR);
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [now + i, guid, MODEL_ID, seconds, tags, fields, card.front, csum]);
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [now + i, now + i, did, seconds, i + 1]);
+    }
+    const zipped = zipSync({ 'collection.anki2': db.export(), media: strToU8('{}') });
+    return new Blob([zipped], { type: 'application/apkg' });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Reads the first two fields of every note in an `.apkg` as front and back.
+ * Packages exported only in Anki's newest compressed format are rejected.
+ */
+export const readApkg = async (file: Blob): Promise<Pick<Flashcard, 'front' | 'back'>[]> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error("This file is not a valid Anki package.");
+  }
+  // Newer packages also carry a placeholder collection.anki2 for old clients.
+  if (!entries['collection.anki21'] && entries['collection.anki21b']) {
+    throw new Error("This deck uses Anki's newest format. Re-export it with \"Support older Anki versions\" ticked.");
+  }
+  const collection = entries['collection.anki21'] || entries['collection.anki2'];
+  if (!collection) throw new Error("This Anki package has no collection inside.");
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(collection);
+  try {
+    const [result] = db.exec('SELECT flds FROM notes ORDER BY id');
+    return (result?.values || []).flatMap(([flds]) => {
+      const [front = '', back = ''] = String(flds).split(FIELD_SEPARATOR).map(htmlToText);
+      return front && back ? [{ front, back }] : [];
+    });
+  } catch (error) {
+    console.error("Anki import error:", error);
+    throw new Error("Could not read the cards in this Anki package.");
+  } finally {
+    db.close();
+  }
+};
+
@@ -0,0 +1,97 @@
+import { Annotation, AnnotationTarget, SmartNotes, TextAnchor, TranscriptSegment } from "../types";
+import { findQuote, TextRange } from "./textMatch";
+import { segmentRanges } from "./transcript";
+
+// Context kept either side of a quote, enough to tell repeats apart.
+const CONTEXT_CHARS = 32;
+
+export const annotatedText = (note: SmartNotes, target: AnnotationTarget) =>
+  target === 'summary' ? note.summary : note.transcription;
+
+export const createAnchor = (text: string, range: TextRange): TextAnchor => ({
+  quote: text.slice(range.start, range.end),
+  prefix: text.slice(Math.max(0, range.start - CONTEXT_CHARS), range.start),
+  suffix: text.slice(range.end, range.end + CONTEXT_CHARS),
+  start: range.start,
+  end: range.end
+});
+
+const commonPrefixLength = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+};
+
+export interface ResolvedRange extends TextRange {
+  // The quote itself was not found; the range is a best guess.
+  approximate: boolean;
+}
+
+/**
+ * Finds an anchor in the current text. Every occurrence of the quote is
+ * scored by how much of its context still matches and how close it is to
+ * where it was; if the quote was edited away, the text between its old
+ * context is used, then the old offsets.
+ */
+export const resolveAnchor = (text: string, anchor: TextAnchor): ResolvedRange | null => {
+  let best: { range: TextRange; context: number; score: number } | null = null;
+  for (let from = 0; from < text.length;) {
+    const found = findQuote(text, anchor.quote, from);
+    if (!found || found.start < from) break;
+    const context = commonSuffixLength(text.slice(Math.max(0, found.start - CONTEXT_CHARS), found.start), anchor.prefix)
+      + commonPrefixLength(text.slice(found.end, found.end + CONTEXT_CHARS), anchor.suffix);
+    const score = context - Math.abs(found.start - anchor.start) / Math.max(1, text.length);
+    if (!best || score > best.score) best = { range: found, context, score };
+    from = found.start + 1;
+  }
+  // A short quote can survive elsewhere after its own text was edited, so a
+  // match with little matching context loses to the old context, if found.
+  if (best && best.context * 2 >= anchor.prefix.length + anchor.suffix.length) return { ...best.range, approximate: false };
+
+  const before = anchor.prefix ? text.indexOf(anchor.prefix) : -1;
+  const after = before >= 0 && anchor.suffix ? text.indexOf(anchor.suffix, before + anchor.prefix.length) : -1;
+  if (after >= 0) {
+    const start = before + anchor.prefix.length;
+    if (after > start && after - start <= anchor.quote.length * 2 + CONTEXT_CHARS) return { start, end: after, approximate: true };
+  }
+  if (best) return { ...best.range, approximate: false };
+  if (anchor.start < text.length) return { start: anchor.start, end: Math.min(anchor.end, text.length), approximate: true };
+  return null;
+};
+
+export interface ResolvedAnnotation {
+  annotation: Annotation;
+  // Null when the text has shrunk past the annotation entirely.
+  range: ResolvedRange | null;
+  // The annotated text as it reads now, or the original quote.
+  excerpt: string;
+  // Transcript segment the annotation starts in.
+  segment?: TranscriptSegment;
+}
+
+/** A note's annotations located in its current text, in reading order per target. */
+export const resolveAnnotations = (note: SmartNotes): ResolvedAnnotation[] => {
+  const segments = note.segments || [];
+  const ranges = segmentRanges(segments);
+  return (note.annotations || [])
+    .map(annotation => {
+      const text = annotatedText(note, annotation.target);
+      const range = resolveAnchor(text, annotation.anchor);
+      const index = range && annotation.target === 'transcription' ? ranges.findIndex(r => range.start < r.end + 1) : -1;
+      return {
+        annotation,
+        range,
+        excerpt: range ? text.slice(range.start, range.end) : annotation.anchor.quote,
+        ...(index >= 0 && { segment: segments[index] })
+      };
+    })
+    .sort((a, b) => (a.annotation.target === b.annotation.target
+      ? (a.range?.start ?? Infinity) - (b.range?.start ?? Infinity)
+      : a.annotation.target === 'summary' ? -1 : 1));
+};
@@ -0,0 +1,116 @@
+// Preferred container/codec pairs, best first. Browsers differ: Chrome and
+// Firefox record WebM/Opus or Ogg/Opus, Safari only MP4/AAC.
+const MIME_CANDIDATES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/ogg',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4'
+];
+
+// Chunks are flushed (and persisted) this often while recording.
+const CHUNK_INTERVAL_MS = 5000;
+
+export type RecorderState = 'recording' | 'paused' | 'stopped';
+
+export interface AudioRecorder {
+  // Container type of the recording, without codec parameters.
+  mimeType: string;
+  state: () => RecorderState;
+  // Recorded time so far, excluding pauses.
+  elapsedMs: () => number;
+  // Current input level from 0 (silence) to 1 (clipping).
+  level: () => number;
+  pause: () => void;
+  resume: () => void;
+  // Finishes the recording, releases the microphone and returns the audio.
+  stop: () => Promise<Blob>;
+}
+
+export const pickRecordingMimeType = (): string =>
+  MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+export const baseMimeType = (type: string) => type.split(';')[0].trim();
+
+/**
+ * Starts recording the microphone. `onChunk` receives each slice of audio
+ * as it is flushed, in order, so it can be saved before the recording ends.
+ */
+export const startAudioRecorder = async (
+  onChunk: (chunk: Blob, sequence: number, elapsedMs: number) => void
+): Promise<AudioRecorder> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const requested = pickRecordingMimeType();
+  let recorder: MediaRecorder;
+  try {
+    recorder = new MediaRecorder(stream, requested ? { mimeType: requested } : undefined);
+  } catch (error) {
+    stream.getTracks().forEach(track => track.stop());
+    throw error;
+  }
+  // The recorder reports what it actually chose when nothing was requested.
+  const mimeType = baseMimeType(recorder.mimeType || requested) || 'audio/webm';
+
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  const chunks: Blob[] = [];
+  let sequence = 0;
+  let activeSince: number | null = Date.now();
+  let recordedMs = 0;
+
+  const elapsedMs = () => recordedMs + (activeSince !== null ? Date.now() - activeSince : 0);
+
+  recorder.ondataavailable = event => {
+    if (event.data.size === 0) return;
+    chunks.push(event.data);
+    onChunk(event.data, sequence++, elapsedMs());
+  };
+
+  const stopped = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      audioContext.close().catch(() => {});
+      resolve(new Blob(chunks, { type: mimeType }));
+    };
+    recorder.onerror = event => reject((event as ErrorEvent).error || new Error("Recording failed."));
+  });
+
+  recorder.start(CHUNK_INTERVAL_MS);
+
+  return {
+    mimeType,
+    state: () => (recorder.state === 'inactive' ? 'stopped' : recorder.state),
+    elapsedMs,
+    level: () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const s of samples) sum += s * s;
+      // Speech RMS sits around 0.05-0.2; scale so normal talking fills most of the meter.
+      return Math.min(1, Math.sqrt(sum / samples.length) * 4);
+    },
+    pause: () => {
+      if (recorder.state !== 'recording') return;
+      recorder.pause();
+      recordedMs = elapsedMs();
+      activeSince = null;
+    },
+    resume: () => {
+      if (recorder.state !== 'paused') return;
+      recorder.resume();
+      activeSince = Date.now();
+    },
+    stop: () => {
+      if (recorder.state !== 'inactive') {
+        recordedMs = elapsedMs();
+        activeSince = null;
+        recorder.stop();
+      }
+      return stopped;
+    }
+  };
+};
@@ -0,0 +1,302 @@
+import { Course, SmartNotes, StudyEvent } from "../types";
+import { isISODate, migrateActionItems } from "./actionItems";
+
+export const BACKUP_FORMAT = 'smart-notes-ai/vault';
+// v1: notes only. v2: adds courses. v3: action items are objects with due dates.
+// v4: adds the study log.
+export const BACKUP_SCHEMA_VERSION = 4;
+
+/**
+ * Versioned export envelope. Per-card review schedules travel inside each
+ * note's flashcards, so a restored vault keeps its spaced-repetition progress.
+ */
+export interface VaultBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  notes: SmartNotes[];
+  courses: Course[];
+  stats: StudyEvent[];
+}
+
+export type ConflictPolicy = 'keep-newer' | 'keep-both' | 'overwrite';
+
+export type ImportOutcome = 'added' | 'updated' | 'skipped' | 'rejected';
+
+export interface ImportReportItem {
+  kind: 'note' | 'course' | 'stats';
+  id: string;
+  title: string;
+  outcome: ImportOutcome;
+  reason?: string;
+}
+
+export interface ParsedBackup {
+  notes: unknown[];
+  courses: unknown[];
+  stats: unknown[];
+}
+
+export interface ImportResult {
+  notes: SmartNotes[];
+  courses: Course[];
+  stats: StudyEvent[];
+  report: ImportReportItem[];
+}
+
+export const createBackup = (notes: SmartNotes[], courses: Course[], stats: StudyEvent[]): VaultBackup => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  notes,
+  courses,
+  stats
+});
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Lists every way `raw` deviates from the `SmartNotes` shape. */
+export const validateNoteShape = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['not an object'];
+  const errors: string[] = [];
+  if (!isString(raw.id) || !raw.id) errors.push('missing id');
+  if (typeof raw.timestamp !== 'number' || !isFinite(raw.timestamp)) errors.push('invalid timestamp');
+  if (raw.updatedAt !== undefined && typeof raw.updatedAt !== 'number') errors.push('invalid updatedAt');
+  (['title', 'summary', 'transcription'] as const).forEach(key => {
+    if (!isString(raw[key])) errors.push(`${key} must be a string`);
+  });
+  if (!isStringArray(raw.keyConcepts)) errors.push('keyConcepts must be a list of strings');
+  // Backups before v3 hold action items as plain strings; they are upgraded on import.
+  if (!Array.isArray(raw.actionItems) || !raw.actionItems.every(a => isString(a) || (
+    isObject(a) && isString(a.id) && isString(a.text) && typeof a.done === 'boolean' && (a.due === undefined || isISODate(a.due))
+  ))) {
+    errors.push('actionItems must be a list of strings or action items with id, text, done and an optional YYYY-MM-DD due date');
+  }
+  if (raw.quiz !== undefined) {
+    if (!Array.isArray(raw.quiz) || !raw.quiz.every(q => isObject(q) && isString(q.question) && isStringArray(q.options) && isString(q.answer))) {
+      errors.push('quiz items need question, options and answer');
+    }
+  }
+  if (raw.quizAttempts !== undefined) {
+    if (!Array.isArray(raw.quizAttempts) || !raw.quizAttempts.every(a => isObject(a) && isString(a.id) && typeof a.timestamp === 'number'
+      && Array.isArray(a.results) && a.results.every((r: unknown) => isObject(r) && isString(r.question) && typeof r.correct === 'boolean'))) {
+      errors.push('quiz attempts need id, timestamp and per-question results');
+    }
+  }
+  if (raw.flashcards !== undefined) {
+    if (!Array.isArray(raw.flashcards) || !raw.flashcards.every(c => isObject(c) && isString(c.front) && isString(c.back))) {
+      errors.push('flashcards need front and back');
+    } else if (raw.flashcards.some(c => c.schedule !== undefined && !(isObject(c.schedule) && typeof c.schedule.due === 'number' && typeof c.schedule.ease === 'number'))) {
+      errors.push('invalid flashcard review schedule');
+    }
+  }
+  if (raw.revisions !== undefined) {
+    if (!Array.isArray(raw.revisions) || !raw.revisions.every(r => isObject(r) && isString(r.id) && typeof r.timestamp === 'number'
+      && (r.author === 'ai' || r.author === 'user') && isObject(r.content) && isString(r.content.title) && isString(r.content.summary))) {
+      errors.push('revisions need id, timestamp, author and content');
+    }
+  }
+  if (raw.annotations !== undefined) {
+    if (!Array.isArray(raw.annotations) || !raw.annotations.every(a => isObject(a) && isString(a.id)
+      && (a.target === 'transcription' || a.target === 'summary') && isObject(a.anchor) && isString(a.anchor.quote)
+      && typeof a.anchor.start === 'number' && typeof a.anchor.end === 'number' && (a.note === undefined || isString(a.note)))) {
+      errors.push('annotations need id, target and an anchor with quote and offsets');
+    }
+  }
+  if (raw.courseId !== undefined && !isString(raw.courseId)) errors.push('courseId must be a string');
+  if (raw.tags !== undefined && !isStringArray(raw.tags)) errors.push('tags must be a list of strings');
+  if (raw.sources !== undefined) {
+    if (!Array.isArray(raw.sources) || !raw.sources.every(s => isObject(s) && isString(s.title) && isString(s.uri))) {
+      errors.push('sources need title and uri');
+    }
+  }
+  return errors;
+};
+
+export const validateCourseShape = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['not an object'];
+  const errors: string[] = [];
+  if (!isString(raw.id) || !raw.id) errors.push('missing id');
+  if (!isString(raw.name) || !raw.name.trim()) errors.push('missing name');
+  if (!isStringArray(raw.tags)) errors.push('tags must be a list of strings');
+  if (typeof raw.createdAt !== 'number') errors.push('invalid createdAt');
+  return errors;
+};
+
+const GRADES = ['again', 'hard', 'good', 'easy'];
+
+export const validateStudyEventShape = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['not an object'];
+  const errors: string[] = [];
+  if (!isString(raw.id) || !raw.id) errors.push('missing id');
+  if (typeof raw.timestamp !== 'number' || !isFinite(raw.timestamp)) errors.push('invalid timestamp');
+  if (typeof raw.durationMs !== 'number' || raw.durationMs < 0) errors.push('invalid durationMs');
+  if (raw.noteId !== undefined && !isString(raw.noteId)) errors.push('noteId must be a string');
+  if (raw.kind === 'quiz') {
+    if (!Array.isArray(raw.results) || !raw.results.every(r => isObject(r) && isString(r.question) && typeof r.correct === 'boolean')) {
+      errors.push('quiz results need question and correct');
+    }
+  } else if (raw.kind === 'review') {
+    if (!isString(raw.card) || !GRADES.includes(raw.grade) || typeof raw.interval !== 'number') errors.push('reviews need card, grade and interval');
+  } else if (raw.kind !== 'focus') {
+    errors.push('unknown kind');
+  }
+  return errors;
+};
+
+/**
+ * Reads a backup file into candidate notes and courses, upgrading older
+ * layouts. A bare array is accepted as the legacy localStorage vault dump.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (Array.isArray(data)) return { notes: data, courses: [], stats: [] };
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error("This file is not a SmartNotes backup.");
+  }
+  if (typeof data.schemaVersion !== 'number' || data.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`Unsupported backup version ${data.schemaVersion}. Please update the app.`);
+  }
+  if (!Array.isArray(data.notes)) throw new Error("Backup has no notes list.");
+  return {
+    notes: data.notes,
+    courses: data.schemaVersion >= 2 && Array.isArray(data.courses) ? data.courses : [],
+    stats: data.schemaVersion >= 4 && Array.isArray(data.stats) ? data.stats : []
+  };
+};
+
+interface Mergeable {
+  id: string;
+}
+
+const mergeRecords = <T extends Mergeable>(
+  kind: ImportReportItem['kind'],
+  existing: T[],
+  incoming: unknown[],
+  policy: ConflictPolicy,
+  validate: (raw: unknown) => string[],
+  describe: (record: Record<string, any>) => string,
+  lastModified: (record: T) => number,
+  copy: (record: T) => T
+) => {
+  const current = new Map(existing.map(r => [r.id, r]));
+  const toWrite: T[] = [];
+  const report: ImportReportItem[] = [];
+  const accept = (record: T) => {
+    toWrite.push(record);
+    current.set(record.id, record);
+  };
+
+  incoming.forEach((raw, i) => {
+    const errors = validate(raw);
+    const rawObj = isObject(raw) ? raw : {};
+    const id = isString(rawObj.id) && rawObj.id ? rawObj.id : `#${i + 1}`;
+    const title = describe(rawObj) || 'Untitled';
+    if (errors.length > 0) {
+      report.push({ kind, id, title, outcome: 'rejected', reason: errors.join('; ') });
+      return;
+    }
+
+    const record = raw as T;
+    const match = current.get(record.id);
+    if (!match) {
+      accept(record);
+      report.push({ kind, id, title, outcome: 'added' });
+    } else if (policy === 'overwrite') {
+      accept(record);
+      report.push({ kind, id, title, outcome: 'updated' });
+    } else if (policy === 'keep-both') {
+      const duplicate = copy(record);
+      accept(duplicate);
+      report.push({ kind, id: duplicate.id, title: describe(duplicate), outcome: 'added', reason: `copy of ${id}` });
+    } else if (lastModified(record) > lastModified(match)) {
+      accept(record);
+      report.push({ kind, id, title, outcome: 'updated', reason: 'backup copy is newer' });
+    } else {
+      report.push({ kind, id, title, outcome: 'skipped', reason: 'vault copy is the same or newer' });
+    }
+  });
+
+  return { toWrite, report };
+};
+
+/**
+ * Study events never change once logged, so only those not already in the
+ * vault are taken, whatever the conflict policy. They are summarised in one
+ * report line rather than one per event.
+ */
+const mergeStats = (existing: StudyEvent[], incoming: unknown[]) => {
+  const known = new Set(existing.map(e => e.id));
+  const toWrite: StudyEvent[] = [];
+  let skipped = 0;
+  let rejected = 0;
+  incoming.forEach(raw => {
+    if (validateStudyEventShape(raw).length > 0) {
+      rejected++;
+      return;
+    }
+    const event = raw as StudyEvent;
+    if (known.has(event.id)) {
+      skipped++;
+      return;
+    }
+    known.add(event.id);
+    toWrite.push(event);
+  });
+  const report: ImportReportItem[] = incoming.length === 0 ? [] : [{
+    kind: 'stats',
+    id: 'stats',
+    title: `${toWrite.length} of ${incoming.length} study log entries`,
+    outcome: toWrite.length > 0 ? 'added' : rejected === incoming.length ? 'rejected' : 'skipped',
+    ...((skipped > 0 || rejected > 0) && {
+      reason: [skipped > 0 && `${skipped} already logged`, rejected > 0 && `${rejected} unreadable`].filter(Boolean).join(', ')
+    })
+  }];
+  return { toWrite, report };
+};
+
+/**
+ * Works out which incoming notes and courses to write, reporting the fate
+ * of each. Copies made under "keep both" get fresh ids; a copied course's
+ * notes are re-pointed at the copy.
+ */
+export const mergeBackup = (
+  existing: { notes: SmartNotes[]; courses: Course[]; stats: StudyEvent[] },
+  incoming: ParsedBackup,
+  policy: ConflictPolicy
+): ImportResult => {
+  const courseIdMap = new Map<string, string>();
+  const courses = mergeRecords<Course>(
+    'course', existing.courses, incoming.courses, policy, validateCourseShape,
+    r => r.name, c => c.updatedAt ?? c.createdAt,
+    c => {
+      const duplicate = { ...c, id: crypto.randomUUID(), name: `${c.name} (imported)` };
+      courseIdMap.set(c.id, duplicate.id);
+      return duplicate;
+    }
+  );
+  const notes = mergeRecords<SmartNotes>(
+    'note', existing.notes, incoming.notes, policy, validateNoteShape,
+    r => r.title, n => n.updatedAt ?? n.timestamp,
+    n => {
+      const id = crypto.randomUUID();
+      return { ...n, id, title: `${n.title} (imported)`, actionItems: n.actionItems.map(a => (typeof a === 'string' ? a : { ...a, noteId: id })) };
+    }
+  );
+  const stats = mergeStats(existing.stats, incoming.stats);
+  return {
+    courses: courses.toWrite,
+    notes: notes.toWrite
+      .map(migrateActionItems)
+      .map(n => n.courseId && courseIdMap.has(n.courseId) ? { ...n, courseId: courseIdMap.get(n.courseId) } : n),
+    stats: stats.toWrite,
+    report: [...courses.report, ...notes.report, ...stats.report]
+  };
+};
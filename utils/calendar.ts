@@ -0,0 +1,64 @@
+import { ActionItem } from "../types";
+import { fromISODate, toISODate } from "./actionItems";
+
+export interface CalendarEntry {
+  item: ActionItem;
+  noteTitle: string;
+}
+
+// RFC 5545 text values escape backslashes, semicolons, commas and newlines.
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded onto continuation lines.
+const fold = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const decoder = new TextDecoder();
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length);
+    // Never split a multi-byte character.
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(decoder.decode(bytes.slice(start, end)));
+    start = end;
+  }
+  return parts.join('\r\n ');
+};
+
+const compactDate = (iso: string) => iso.replace(/-/g, '');
+
+const timestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * An iCalendar file with one all-day event per dated, unfinished action
+ * item. UIDs are stable, so re-importing updates events instead of
+ * duplicating them.
+ */
+export const buildCalendar = (entries: CalendarEntry[], now: Date = new Date()): string => {
+  const events = entries
+    .filter(({ item }) => item.due && !item.done)
+    .flatMap(({ item, noteTitle }) => {
+      const next = fromISODate(item.due!);
+      next.setDate(next.getDate() + 1);
+      return [
+        'BEGIN:VEVENT',
+        `UID:${item.id}@smart-notes-ai`,
+        `DTSTAMP:${timestamp(now)}`,
+        `DTSTART;VALUE=DATE:${compactDate(item.due!)}`,
+        `DTEND;VALUE=DATE:${compactDate(toISODate(next))}`,
+        `SUMMARY:${escapeText(item.text)}`,
+        `DESCRIPTION:${escapeText(`From lecture: ${noteTitle}`)}`,
+        'END:VEVENT'
+      ];
+    });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SmartNotes AI//Assignments//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR'
+  ].map(fold).join('\r\n') + '\r\n';
+};
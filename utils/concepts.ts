@@ -0,0 +1,14 @@
+export const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const MAX_TERM_LENGTH = 80;
+
+/** Splits a "Term: definition" concept string; bare terms get an empty definition. */
+export const splitConcept = (concept: string): { term: string; definition: string } => {
+  const match = concept.match(/^(.+?)\s*(?::|\s[–—-]\s)\s*([\s\S]+)$/);
+  if (!match || match[1].length > MAX_TERM_LENGTH) return { term: concept.trim(), definition: '' };
+  return { term: match[1].trim(), definition: match[2].trim() };
+};
+
+/** Identity of a concept across segments and lectures: its normalised term. */
+export const conceptKey = (concept: string) => normalize(splitConcept(concept).term);
@@ -0,0 +1,69 @@
+import { Flashcard, QuizItem, SmartNotes } from "../types";
+import { normalize } from "./concepts";
+import { questionType } from "./quizGrading";
+
+/** One card as it leaves (or enters) the app through a deck file. */
+export interface DeckCard {
+  front: string;
+  back: string;
+  // Title of the lecture the card came from.
+  source: string;
+  tags: string[];
+  // Stable across exports so re-importing into Anki updates the same notes.
+  key: string;
+}
+
+export interface DeckOptions {
+  // Added to every card, alongside each lecture's own tags.
+  tags: string[];
+  includeQuiz: boolean;
+}
+
+export const quizItemToCard = (item: QuizItem): Flashcard => {
+  const type = questionType(item);
+  const choices = type === 'multi-select' || type === 'multiple-choice'
+    ? '\n' + item.options.map((o, i) => `${String.fromCharCode(65 + i)}. ${o}`).join('\n')
+    : '';
+  const prompt = type === 'true-false' ? `True or false: ${item.question}` : item.question;
+  return {
+    front: prompt + choices,
+    back: [item.answer, item.explanation].filter(Boolean).join('\n\n')
+  };
+};
+
+// Anki and Quizlet tags are single words.
+export const toTag = (text: string) => text.trim().replace(/\s+/g, '_');
+
+// Cards are keyed by their prompt, as review state is, so deleting or
+// reordering cards doesn't move an Anki note onto a different card.
+// Repeated prompts in one note get a counter to keep keys unique.
+export const collectDeckCards = (notes: SmartNotes[], options: DeckOptions): DeckCard[] =>
+  notes.flatMap(note => {
+    const tags = [...new Set([...options.tags, ...(note.tags || [])].map(toTag).filter(Boolean))];
+    const cards = [
+      ...(note.flashcards || []).map(card => ({ card, key: `${note.id}:card:${normalize(card.front)}` })),
+      ...(options.includeQuiz ? (note.quiz || []).map(q => ({ card: quizItemToCard(q), key: `${note.id}:quiz:${normalize(q.question)}` })) : [])
+    ];
+    const seen = new Map<string, number>();
+    return cards.map(({ card, key }) => {
+      const count = seen.get(key) || 0;
+      seen.set(key, count + 1);
+      return { front: card.front, back: card.back, source: note.title, tags, key: count > 0 ? `${key}:${count}` : key };
+    });
+  });
+
+/**
+ * Appends imported cards to `existing`, skipping any whose front matches a
+ * card already there. Imported cards start unscheduled.
+ */
+export const mergeImportedCards = (existing: Flashcard[], imported: Pick<Flashcard, 'front' | 'back'>[]) => {
+  const seen = new Set(existing.map(c => normalize(c.front)));
+  const added: Flashcard[] = [];
+  imported.forEach(({ front, back }) => {
+    const key = normalize(front);
+    if (!key || !back.trim() || seen.has(key)) return;
+    seen.add(key);
+    added.push({ front: front.trim(), back: back.trim() });
+  });
+  return { flashcards: [...existing, ...added], added: added.length, skipped: imported.length - added.length };
+};
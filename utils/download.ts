@@ -0,0 +1,13 @@
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const safeFilename = (name: string) =>
+  (name || 'untitled').replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_').slice(0, 100);
@@ -0,0 +1,128 @@
+export type ProcessingErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'unsupported'
+  | 'too-large'
+  | 'invalid-output'
+  | 'network'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * A failure anywhere in the processing pipeline, classified so the UI can
+ * say what went wrong and offer the matching way out. `retryable` errors
+ * (rate limits, server hiccups, dropped connections) are retried with
+ * backoff before they ever reach the user.
+ */
+export class ProcessingError extends Error {
+  readonly kind: ProcessingErrorKind;
+  readonly retryable: boolean;
+  // Server-suggested wait before retrying, when it sent one.
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ProcessingErrorKind, message: string, options: { retryable?: boolean; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ProcessingError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export const cancelledError = () => new ProcessingError('cancelled', "Processing was cancelled.");
+
+export const isCancelled = (error: unknown) =>
+  (error instanceof ProcessingError && error.kind === 'cancelled')
+  || (error instanceof DOMException && error.name === 'AbortError');
+
+/** Maps an HTTP status (and the body the server sent with it) to an error. */
+export const httpError = (status: number, detail: string = '', retryAfterMs?: number): ProcessingError => {
+  // Gemini sends its suggested wait in the error body rather than a header.
+  const suggested = detail.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  const options = { retryAfterMs: retryAfterMs ?? (suggested ? Number(suggested[1]) * 1000 : undefined), cause: detail };
+  // The status decides the kind; a 400 is only narrowed by tight patterns,
+  // since its body often quotes the request back.
+  if (status === 401 || status === 403 || (status === 400 && /api key (not|is) (valid|invalid)|api[_ ]?key_invalid/i.test(detail))) {
+    return new ProcessingError('auth', "The AI provider rejected the API key or credentials.", options);
+  }
+  if (status === 429) {
+    return new ProcessingError('quota', "The AI provider's rate limit or quota was reached.", { ...options, retryable: true });
+  }
+  if (status === 413 || (status === 400 && /request payload size exceeds|request (entity )?too large/i.test(detail))) {
+    return new ProcessingError('too-large', "The file is too large for the AI provider to accept.", options);
+  }
+  if (status === 415 || (status === 400 && /unsupported mime|mime type .*not supported|file type .*not supported/i.test(detail))) {
+    return new ProcessingError('unsupported', "The AI provider does not support this file format.", options);
+  }
+  if (status === 408 || status >= 500) {
+    return new ProcessingError('network', `The AI provider is temporarily unavailable (HTTP ${status}).`, { ...options, retryable: true });
+  }
+  return new ProcessingError('unknown', `The AI provider returned an error (HTTP ${status}).`, options);
+};
+
+/** Classifies anything thrown by a provider, the browser or our own code. */
+export const toProcessingError = (error: unknown): ProcessingError => {
+  if (error instanceof ProcessingError) return error;
+  if (isCancelled(error)) return cancelledError();
+  if (error instanceof SyntaxError) {
+    return new ProcessingError('invalid-output', "The AI returned a response that could not be read.", { cause: error });
+  }
+  // fetch reports network failures (offline, DNS, CORS) as a bare TypeError.
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return new ProcessingError('network', "Could not reach the AI provider. Check your connection.", { retryable: true, cause: error });
+  }
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return httpError(status, error instanceof Error ? error.message : '');
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ProcessingError('unknown', message || "Something went wrong while processing.", { cause: error });
+};
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+const MAX_RETRIES = 4;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `fn`, retrying retryable failures with exponential backoff and
+ * jitter (1s, 2s, 4s, 8s, capped at 30s) or the server's Retry-After.
+ * Everything it throws is a `ProcessingError`; aborting `signal` stops
+ * both the current call and any pending wait.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+    try {
+      return await fn();
+    } catch (raw) {
+      const error = signal?.aborted ? cancelledError() : toProcessingError(raw);
+      if (!error.retryable || attempt >= MAX_RETRIES) throw error;
+      const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+      const delay = error.retryAfterMs ?? backoff * (0.75 + Math.random() * 0.5);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/** Seconds or an HTTP date, as sent in a Retry-After header. */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
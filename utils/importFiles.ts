@@ -0,0 +1,83 @@
+import { ProcessingError } from "./errors";
+import { detectFormat, SUPPORTED_TYPES } from "./ingest";
+
+// What the file input offers; dropped folders are filtered the same way.
+export const IMPORT_ACCEPT = SUPPORTED_TYPES.join(',');
+
+export const isImportable = (file: File) => detectFormat(file) !== null;
+
+const isFileEntry = (entry: FileSystemEntry): entry is FileSystemFileEntry => entry.isFile;
+const isDirectoryEntry = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry => entry.isDirectory;
+
+const readEntry = async (entry: FileSystemEntry): Promise<{ file: File; path: string }[]> => {
+  if (isFileEntry(entry)) {
+    const file = await new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+    return [{ file, path: entry.fullPath }];
+  }
+  if (isDirectoryEntry(entry)) {
+    const reader = entry.createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns at most 100 entries per call.
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    return (await Promise.all(children.map(readEntry))).flat();
+  }
+  return [];
+};
+
+const sortByPath = (found: { file: File; path: string }[]) =>
+  [...found].sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true })).map(f => f.file);
+
+/**
+ * Every importable file in a drop, walking into dropped folders. Files are
+ * sorted by path so a folder of numbered lectures queues in order.
+ */
+export const collectDroppedFiles = async (data: DataTransfer): Promise<File[]> => {
+  const entries = [...data.items]
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  const found = entries.length > 0
+    ? (await Promise.all(entries.map(readEntry))).flat()
+    : [...data.files].map(file => ({ file, path: file.name }));
+  return sortByPath(found).filter(isImportable);
+};
+
+/** Importable files from a file or folder picker, in path order. */
+export const selectedFiles = (list: FileList): File[] =>
+  sortByPath([...list].map(file => ({ file, path: file.webkitRelativePath || file.name }))).filter(isImportable);
+
+const fileNameFor = (url: URL, type: string) => {
+  const last = decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() || '') || url.hostname;
+  return type === 'text/html' && !/\.html?$/i.test(last) ? `${last}.html` : last;
+};
+
+/**
+ * Downloads a link (a web page, or a file such as a PDF or recording) so it
+ * can be queued like a local file. Many sites refuse cross-origin requests
+ * from the browser; that surfaces as a network error suggesting a download.
+ */
+export const fetchUrlAsFile = async (address: string): Promise<File> => {
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:/i.test(address) ? address : `https://${address}`);
+  } catch {
+    throw new ProcessingError('unsupported', "That is not a valid link.");
+  }
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new ProcessingError('network', `${url.hostname} could not be reached or does not allow downloads from other sites. Save the page or file and import it instead.`, { cause: error });
+  }
+  if (!response.ok) {
+    throw new ProcessingError('network', `${url.hostname} returned HTTP ${response.status}.`, { retryable: response.status >= 500 });
+  }
+  const blob = await response.blob();
+  const type = blob.type.split(';')[0] || 'text/html';
+  const file = new File([blob], fileNameFor(url, type), { type });
+  if (!isImportable(file)) throw new ProcessingError('unsupported', `The link points to a file type that cannot be imported (${type}).`);
+  return file;
+};
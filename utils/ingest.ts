@@ -0,0 +1,181 @@
+import { TranscriptSegment } from "../types";
+import { ProcessingError } from "./errors";
+import { blobToBase64 } from "./mediaSegmenter";
+import { EmbeddedImage, extractDocx, extractPptx } from "./officeDocuments";
+import { parseSubtitles } from "./subtitles";
+
+export type InputFormat = 'media' | 'pdf' | 'image' | 'pptx' | 'docx' | 'text' | 'html' | 'subtitles';
+
+const PPTX_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const EXTENSION_FORMATS: Record<string, InputFormat> = {
+  mp3: 'media', m4a: 'media', wav: 'media', ogg: 'media', oga: 'media', flac: 'media', aac: 'media', weba: 'media', webm: 'media', mp4: 'media',
+  pdf: 'pdf',
+  png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', webp: 'image',
+  pptx: 'pptx',
+  docx: 'docx',
+  txt: 'text', md: 'text', markdown: 'text',
+  html: 'html', htm: 'html',
+  srt: 'subtitles', vtt: 'subtitles'
+};
+
+/** MIME types and extensions `ingestFile` and the media path can read, for file pickers. */
+export const SUPPORTED_TYPES = [
+  'audio/*', 'video/mp4', 'application/pdf', 'image/*', PPTX_TYPE, DOCX_TYPE, 'text/plain', 'text/markdown', 'text/html', 'text/vtt',
+  ...Object.keys(EXTENSION_FORMATS).map(ext => `.${ext}`)
+];
+
+/**
+ * Works out how to read a file, trusting the extension over generic types
+ * (subtitles and Markdown often arrive as text/plain or with no type).
+ */
+export const detectFormat = (file: Blob): InputFormat | null => {
+  const name = (file as File).name || '';
+  const byExtension = EXTENSION_FORMATS[name.split('.').pop()?.toLowerCase() || ''];
+  const type = file.type.split(';')[0];
+  if (type.startsWith('audio/') || type.startsWith('video/')) return 'media';
+  if (type === 'application/pdf') return 'pdf';
+  if (type.startsWith('image/')) return 'image';
+  if (type === PPTX_TYPE) return 'pptx';
+  if (type === DOCX_TYPE) return 'docx';
+  if (type === 'text/vtt' || type === 'application/x-subrip') return 'subtitles';
+  if (byExtension) return byExtension;
+  if (type === 'text/html') return 'html';
+  if (type === 'text/plain' || type === 'text/markdown') return 'text';
+  return null;
+};
+
+export interface IngestedImage {
+  data: string; // base64
+  mimeType: string;
+  page?: number;
+}
+
+/** A non-media input, normalised to text segments and images. */
+export interface IngestedContent {
+  // How prompts refer to the material, e.g. "slide deck".
+  description: string;
+  // Text already extracted (or a subtitle transcript), so the model does
+  // not have to transcribe it. Empty when the images carry all the content.
+  segments: TranscriptSegment[];
+  images: IngestedImage[];
+}
+
+// Long photos are scaled down; the models read text well below this size.
+const MAX_IMAGE_SIDE = 2048;
+const IMAGE_PASSTHROUGH_BYTES = 1.5 * 1024 * 1024;
+// Keeps a deck's pictures within one inline request.
+const MAX_IMAGES = 20;
+const MAX_IMAGE_TOTAL_BYTES = 10 * 1024 * 1024;
+// Paragraphs longer than this are split at sentence ends.
+const MAX_PARAGRAPH_CHARS = 800;
+
+const prepareImage = async (blob: Blob, page?: number): Promise<IngestedImage> => {
+  if (blob.size <= IMAGE_PASSTHROUGH_BYTES && /^image\/(png|jpeg|gif|webp)$/.test(blob.type)) {
+    return { data: await blobToBase64(blob), mimeType: blob.type, ...(page !== undefined && { page }) };
+  }
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch (error) {
+    throw new ProcessingError('unsupported', "This image could not be read. Convert it to JPEG or PNG and try again.", { cause: error });
+  }
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const jpeg = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 });
+  return { data: await blobToBase64(jpeg), mimeType: 'image/jpeg', ...(page !== undefined && { page }) };
+};
+
+const prepareEmbeddedImages = async (images: EmbeddedImage[]): Promise<IngestedImage[]> => {
+  const prepared: IngestedImage[] = [];
+  let total = 0;
+  for (const image of images.slice(0, MAX_IMAGES)) {
+    // Decks reuse logos and backgrounds on every slide; unreadable ones are skipped.
+    const result = await prepareImage(new Blob([image.bytes], { type: image.mimeType }), image.page).catch(() => null);
+    if (!result) continue;
+    total += result.data.length * 0.75;
+    if (total > MAX_IMAGE_TOTAL_BYTES) break;
+    prepared.push(result);
+  }
+  return prepared;
+};
+
+const splitParagraph = (text: string): string[] => {
+  if (text.length <= MAX_PARAGRAPH_CHARS) return [text];
+  const sentences = text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [text];
+  const pieces: string[] = [];
+  let current = '';
+  sentences.forEach(sentence => {
+    if (current && current.length + sentence.length > MAX_PARAGRAPH_CHARS) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  });
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+const toSegments = (blocks: { text: string; page?: number }[], idPrefix: string): TranscriptSegment[] =>
+  blocks
+    .flatMap(block => splitParagraph(block.text.replace(/[ \t]+/g, ' ').trim()).map(text => ({ text, page: block.page })))
+    .filter(block => block.text)
+    .map((block, i) => ({ id: `${idPrefix}${i}`, text: block.text, ...(block.page !== undefined && { page: block.page }) }));
+
+const htmlBlocks = (html: string): { title: string; blocks: string[] } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, nav, header, footer, aside, form, svg').forEach(el => el.remove());
+  const root = doc.querySelector('article') || doc.querySelector('main') || doc.body;
+  const blocks = [...root.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, td, figcaption')]
+    // Skip containers whose text is already covered by a nested block.
+    .filter(el => !el.querySelector('p, li, blockquote, pre'))
+    .map(el => (el.textContent || '').trim())
+    .filter(Boolean);
+  return {
+    title: doc.title.trim(),
+    blocks: blocks.length > 0 ? blocks : (root.textContent || '').split(/\n\s*\n/)
+  };
+};
+
+/**
+ * Normalises slides, documents, pictures, web pages and transcripts to text
+ * segments and images for analysis. Audio, video and PDFs are sent to the
+ * model as they are, so they return null.
+ */
+export const ingestFile = async (file: Blob, idPrefix: string = 's'): Promise<IngestedContent | null> => {
+  const format = detectFormat(file);
+  switch (format) {
+    case 'media':
+    case 'pdf':
+      return null;
+    case 'image':
+      return { description: 'photo or image (for example a whiteboard, slide or handout)', segments: [], images: [await prepareImage(file)] };
+    case 'pptx': {
+      const { slides, images } = await extractPptx(file);
+      const blocks = slides.flatMap(slide => [
+        ...slide.text.map(text => ({ text, page: slide.number })),
+        ...slide.notes.map(text => ({ text: `Speaker notes: ${text}`, page: slide.number }))
+      ]);
+      return { description: 'slide deck', segments: toSegments(blocks, idPrefix), images: await prepareEmbeddedImages(images) };
+    }
+    case 'docx': {
+      const { paragraphs, images } = await extractDocx(file);
+      return { description: 'document', segments: toSegments(paragraphs.map(text => ({ text })), idPrefix), images: await prepareEmbeddedImages(images) };
+    }
+    case 'html': {
+      const { title, blocks } = htmlBlocks(await file.text());
+      return { description: title ? `web page "${title}"` : 'web page', segments: toSegments(blocks.map(text => ({ text })), idPrefix), images: [] };
+    }
+    case 'text': {
+      const text = (await file.text()).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+      return { description: 'text notes', segments: toSegments(text.split(/\n\s*\n/).map(p => ({ text: p })), idPrefix), images: [] };
+    }
+    case 'subtitles':
+      return { description: 'lecture transcript (from subtitles)', segments: parseSubtitles(await file.text(), idPrefix), images: [] };
+    default:
+      throw new ProcessingError('unsupported', "This file type is not supported. Import audio, video, PDF, PowerPoint, Word, images, text or subtitle files.");
+  }
+};
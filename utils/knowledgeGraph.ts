@@ -0,0 +1,228 @@
+import { ConceptEntity, SmartNotes } from "../types";
+import { conceptKey, splitConcept } from "./concepts";
+
+/**
+ * Every distinct concept in the notes, merged by normalised term. The most
+ * common spelling of the term and the fullest definition win.
+ */
+export const buildConceptIndex = (notes: SmartNotes[]): Map<string, ConceptEntity> => {
+  const entities = new Map<string, ConceptEntity>();
+  const spellings = new Map<string, Map<string, number>>();
+  notes.forEach(note => {
+    note.keyConcepts.forEach(concept => {
+      const key = conceptKey(concept);
+      if (!key) return;
+      const { term, definition } = splitConcept(concept);
+      const counts = spellings.get(key) || new Map<string, number>();
+      counts.set(term, (counts.get(term) || 0) + 1);
+      spellings.set(key, counts);
+
+      const entity = entities.get(key) || { key, term, definition: '', mentions: [] };
+      if (definition.length > entity.definition.length) entity.definition = definition;
+      if (!entity.mentions.some(m => m.noteId === note.id)) {
+        const segmentId = note.conceptSegments?.[key];
+        entity.mentions.push({ noteId: note.id, definition, ...(segmentId && { segmentId }) });
+      }
+      entities.set(key, entity);
+    });
+  });
+  entities.forEach((entity, key) => {
+    entity.term = [...spellings.get(key)!.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  });
+  return entities;
+};
+
+export interface RelatedNote {
+  note: SmartNotes;
+  // Keys of the concepts both lectures cover.
+  shared: string[];
+  score: number;
+}
+
+/**
+ * Lectures sharing concepts with `note`, best first. Concepts that appear in
+ * many lectures ("introduction") say less about relatedness, so each shared
+ * concept counts by its rarity.
+ */
+export const relatedNotes = (note: SmartNotes, notes: SmartNotes[], index: Map<string, ConceptEntity>, limit: number = 5): RelatedNote[] => {
+  const keys = new Set(note.keyConcepts.map(conceptKey).filter(Boolean));
+  const shared = new Map<string, string[]>();
+  keys.forEach(key => {
+    index.get(key)?.mentions.forEach(m => {
+      if (m.noteId !== note.id) shared.set(m.noteId, [...(shared.get(m.noteId) || []), key]);
+    });
+  });
+  const weight = (key: string) => 1 / Math.log2(1 + (index.get(key)?.mentions.length || 1));
+  return notes
+    .filter(n => shared.has(n.id))
+    .map(n => {
+      const common = shared.get(n.id)!;
+      const union = new Set([...keys, ...n.keyConcepts.map(conceptKey)]).size;
+      return { note: n, shared: common, score: common.reduce((sum, key) => sum + weight(key), 0) / Math.sqrt(union) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Concepts taught alongside `key`, ranked by how many lectures cover both,
+ * then by how rarely they appear elsewhere.
+ */
+export const relatedConcepts = (key: string, notes: SmartNotes[], index: Map<string, ConceptEntity>, limit: number = 8): ConceptEntity[] => {
+  const lectures = new Set(index.get(key)?.mentions.map(m => m.noteId));
+  const together = new Map<string, number>();
+  notes.filter(n => lectures.has(n.id)).forEach(n => {
+    new Set(n.keyConcepts.map(conceptKey)).forEach(other => {
+      if (other && other !== key) together.set(other, (together.get(other) || 0) + 1);
+    });
+  });
+  return [...together.entries()]
+    .map(([other, count]) => ({ entity: index.get(other)!, count }))
+    .filter(r => r.entity)
+    .sort((a, b) => b.count - a.count || a.entity.mentions.length - b.entity.mentions.length || a.entity.term.localeCompare(b.entity.term))
+    .slice(0, limit)
+    .map(r => r.entity);
+};
+
+export type GraphNodeKind = 'concept' | 'note';
+
+export interface GraphNode {
+  id: string; // "c:<concept key>" or "n:<note id>"
+  kind: GraphNodeKind;
+  label: string;
+  // Lectures mentioning a concept, or concepts in a note.
+  degree: number;
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+}
+
+export interface ConceptGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // Concepts left out to keep the map readable and quick to lay out.
+  hiddenConcepts: number;
+}
+
+// The most-mentioned concepts kept on the map.
+export const MAX_GRAPH_CONCEPTS = 150;
+
+/**
+ * Concepts and lectures as a bipartite graph: an edge joins each lecture to
+ * the concepts it covers. Concepts found in fewer than `minMentions`
+ * lectures are left out, as are lectures left without any edges. Only the
+ * `maxConcepts` most-mentioned concepts are kept.
+ */
+export const buildConceptGraph = (
+  notes: SmartNotes[],
+  index: Map<string, ConceptEntity>,
+  minMentions: number = 1,
+  maxConcepts: number = MAX_GRAPH_CONCEPTS
+): ConceptGraph => {
+  const noteIds = new Set(notes.map(n => n.id));
+  const eligible = [...index.values()]
+    .map(c => ({ ...c, mentions: c.mentions.filter(m => noteIds.has(m.noteId)) }))
+    .filter(c => c.mentions.length >= Math.max(1, minMentions))
+    .sort((a, b) => b.mentions.length - a.mentions.length || a.key.localeCompare(b.key));
+  const concepts = eligible.slice(0, maxConcepts);
+  const edges = concepts.flatMap(c => c.mentions.map(m => ({ source: `n:${m.noteId}`, target: `c:${c.key}` })));
+  const degrees = new Map<string, number>();
+  edges.forEach(e => degrees.set(e.source, (degrees.get(e.source) || 0) + 1));
+  const nodes: GraphNode[] = [
+    ...notes.filter(n => degrees.has(`n:${n.id}`)).map(n => ({ id: `n:${n.id}`, kind: 'note' as const, label: n.title, degree: degrees.get(`n:${n.id}`)!, x: 0, y: 0 })),
+    ...concepts.map(c => ({ id: `c:${c.key}`, kind: 'concept' as const, label: c.term, degree: c.mentions.length, x: 0, y: 0 }))
+  ];
+  return { nodes, edges, hiddenConcepts: eligible.length - concepts.length };
+};
+
+// Pull towards the centre, in units of the ideal edge length: just enough to
+// keep unconnected clusters together without crushing the layout. The box
+// clamp is what keeps nodes on the canvas.
+const GRAVITY = 0.01;
+
+// Stable pseudo-random start positions, so the same vault lays out the same way.
+const hash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  return (h >>> 0) / 4294967296;
+};
+
+/**
+ * Fruchterman–Reingold force layout in a `width` × `height` box: nearby
+ * nodes repel, edges pull their ends together, and the step size cools each
+ * round. Repulsion only reaches across neighbouring cells of a grid, so a
+ * round costs about linear time rather than every pair. Returns new nodes;
+ * the input is not changed.
+ */
+export const layoutGraph = (graph: ConceptGraph, width: number, height: number, iterations: number = 150): GraphNode[] => {
+  const nodes = graph.nodes.map(n => ({
+    ...n,
+    x: width * (0.1 + 0.8 * hash(n.id)),
+    y: height * (0.1 + 0.8 * hash(`${n.id}#`))
+  }));
+  if (nodes.length < 2) return nodes.map(n => ({ ...n, x: width / 2, y: height / 2 }));
+  const position = new Map(nodes.map((n, i) => [n.id, i]));
+  const edges = graph.edges
+    .map(e => [position.get(e.source), position.get(e.target)])
+    .filter((e): e is [number, number] => e[0] !== undefined && e[1] !== undefined);
+  const k = Math.sqrt((width * height) / nodes.length);
+  // Beyond this distance repulsion is small enough to ignore.
+  const reach = 2 * k;
+  const columns = Math.ceil(width / reach);
+  const rows = Math.ceil(height / reach);
+  const cellOf = (n: { x: number; y: number }) => [
+    Math.min(columns - 1, Math.floor(n.x / reach)),
+    Math.min(rows - 1, Math.floor(n.y / reach))
+  ];
+  let temperature = width / 10;
+
+  for (let round = 0; round < iterations; round++) {
+    const dx = new Float64Array(nodes.length);
+    const dy = new Float64Array(nodes.length);
+    const grid: number[][] = Array.from({ length: columns * rows }, () => []);
+    nodes.forEach((n, i) => {
+      const [cx, cy] = cellOf(n);
+      grid[cy * columns + cx].push(i);
+    });
+    for (let i = 0; i < nodes.length; i++) {
+      const [cx, cy] = cellOf(nodes[i]);
+      for (let ox = Math.max(0, cx - 1); ox <= Math.min(columns - 1, cx + 1); ox++) {
+        for (let oy = Math.max(0, cy - 1); oy <= Math.min(rows - 1, cy + 1); oy++) {
+          for (const j of grid[oy * columns + ox]) {
+            if (j <= i) continue;
+            const x = nodes[i].x - nodes[j].x;
+            const y = nodes[i].y - nodes[j].y;
+            const distance = Math.max(0.01, Math.hypot(x, y));
+            if (distance > reach) continue;
+            const force = (k * k) / distance;
+            dx[i] += (x / distance) * force; dy[i] += (y / distance) * force;
+            dx[j] -= (x / distance) * force; dy[j] -= (y / distance) * force;
+          }
+        }
+      }
+    }
+    edges.forEach(([a, b]) => {
+      const x = nodes[a].x - nodes[b].x;
+      const y = nodes[a].y - nodes[b].y;
+      const distance = Math.max(0.01, Math.hypot(x, y));
+      const force = (distance * distance) / k;
+      dx[a] -= (x / distance) * force; dy[a] -= (y / distance) * force;
+      dx[b] += (x / distance) * force; dy[b] += (y / distance) * force;
+    });
+    nodes.forEach((n, i) => {
+      // Weaker across the long side, so the layout fills a wide box.
+      dx[i] += (width / 2 - n.x) * GRAVITY * k * (height / width);
+      dy[i] += (height / 2 - n.y) * GRAVITY * k;
+      const length = Math.max(0.01, Math.hypot(dx[i], dy[i]));
+      const step = Math.min(length, temperature);
+      n.x = Math.min(width - 20, Math.max(20, n.x + (dx[i] / length) * step));
+      n.y = Math.min(height - 20, Math.max(20, n.y + (dy[i] / length) * step));
+    });
+    temperature *= 0.97;
+  }
+  return nodes;
+};
@@ -0,0 +1,193 @@
+import { PDFDocument } from "pdf-lib";
+import { ProcessingError } from "./errors";
+
+// Inline requests are capped at ~20MB including base64 overhead.
+const INLINE_LIMIT_BYTES = 14 * 1024 * 1024;
+const AUDIO_WINDOW_SECONDS = 5 * 60;
+const AUDIO_SAMPLE_RATE = 16000;
+const PDF_PAGES_PER_SEGMENT = 30;
+
+// Audio every provider accepts as-is. Anything else (browser recordings in
+// WebM or MP4, for instance) is decoded and re-encoded as WAV.
+const INLINE_AUDIO_TYPES = new Set(['audio/wav', 'audio/x-wav', 'audio/mpeg', 'audio/mp3', 'audio/aac', 'audio/ogg', 'audio/flac', 'audio/aiff']);
+
+export interface MediaSegment {
+  label: string;
+  mimeType: string;
+  data: string; // base64
+  startSeconds?: number;
+  endSeconds?: number;
+  startPage?: number;
+  endPage?: number;
+}
+
+/**
+ * Segments are described up front but only materialised on `load`, so a long
+ * recording never has more than one encoded window in memory at a time.
+ */
+export interface SegmentPlan {
+  kind: 'single' | 'time' | 'pages';
+  labels: string[];
+  load: (index: number) => Promise<MediaSegment>;
+}
+
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const bytesToBase64 = (bytes: Uint8Array) => blobToBase64(new Blob([bytes]));
+
+export const formatTimestamp = (seconds: number) => {
+  const s = Math.floor(seconds);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = (s % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${sec}` : `${m}:${sec}`;
+};
+
+/** 16-bit mono PCM WAV, the most compact lossless format every model accepts. */
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Decoding a long lecture takes hundreds of megabytes, so however many
+// imports run at once, only one recording is decoded at a time.
+let decodeQueue: Promise<unknown> = Promise.resolve();
+
+const oneAtATime = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = decodeQueue.then(task, task);
+  decodeQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Decoding keeps the source's channels; they are mixed down into the first
+// channel in place, so no second full-length copy is made and only that
+// channel outlives this function.
+const decodeToMono = (file: Blob): Promise<Float32Array> => oneAtATime(async () => {
+  const ctx = new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE);
+  const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+  const mono = decoded.getChannelData(0);
+  const channels = decoded.numberOfChannels;
+  for (let c = 1; c < channels; c++) {
+    const channel = decoded.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i];
+  }
+  if (channels > 1) {
+    for (let i = 0; i < mono.length; i++) mono[i] /= channels;
+  }
+  return mono;
+});
+
+// Long video is reduced to its audio track: the spoken lecture is what
+// carries across windows, and frames would blow the inline budget.
+const planTimeWindows = async (file: Blob): Promise<SegmentPlan> => {
+  const samples = await decodeToMono(file);
+  const duration = samples.length / AUDIO_SAMPLE_RATE;
+  const count = Math.max(1, Math.ceil(duration / AUDIO_WINDOW_SECONDS));
+  const bounds = Array.from({ length: count }, (_, i) => [
+    i * AUDIO_WINDOW_SECONDS,
+    Math.min(duration, (i + 1) * AUDIO_WINDOW_SECONDS)
+  ]);
+  const labels = bounds.map(([start, end]) => `${formatTimestamp(start)} – ${formatTimestamp(end)}`);
+  return {
+    kind: 'time',
+    labels,
+    load: async (index) => {
+      const [start, end] = bounds[index];
+      const window = samples.subarray(Math.floor(start * AUDIO_SAMPLE_RATE), Math.floor(end * AUDIO_SAMPLE_RATE));
+      return {
+        label: labels[index],
+        mimeType: 'audio/wav',
+        data: await blobToBase64(encodeWav(window, AUDIO_SAMPLE_RATE)),
+        startSeconds: start,
+        endSeconds: end
+      };
+    }
+  };
+};
+
+const planPageRanges = async (file: Blob): Promise<SegmentPlan | null> => {
+  const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+  if (pageCount <= PDF_PAGES_PER_SEGMENT && file.size <= INLINE_LIMIT_BYTES) return null;
+
+  // Scale the range down for image-heavy PDFs so each part fits inline.
+  const averagePageBytes = file.size / pageCount;
+  const pagesPerSegment = Math.max(1, Math.min(PDF_PAGES_PER_SEGMENT, Math.floor(INLINE_LIMIT_BYTES / averagePageBytes)));
+  const ranges = Array.from({ length: Math.ceil(pageCount / pagesPerSegment) }, (_, i) => [
+    i * pagesPerSegment + 1,
+    Math.min(pageCount, (i + 1) * pagesPerSegment)
+  ]);
+  const labels = ranges.map(([start, end]) => `Pages ${start}–${end}`);
+  return {
+    kind: 'pages',
+    labels,
+    load: async (index) => {
+      const [start, end] = ranges[index];
+      const part = await PDFDocument.create();
+      const pages = await part.copyPages(source, Array.from({ length: end - start + 1 }, (_, i) => start - 1 + i));
+      pages.forEach(page => part.addPage(page));
+      return {
+        label: labels[index],
+        mimeType: 'application/pdf',
+        data: await bytesToBase64(await part.save()),
+        startPage: start,
+        endPage: end
+      };
+    }
+  };
+};
+
+const planSingle = (file: Blob): SegmentPlan => ({
+  kind: 'single',
+  labels: ['Full file'],
+  load: async () => ({ label: 'Full file', mimeType: file.type, data: await blobToBase64(file) })
+});
+
+/**
+ * Splits media that is too large for one inline request: PDFs into page
+ * ranges, audio/video into fixed time windows. Small files pass through
+ * whole, unless their audio format has to be converted first.
+ */
+export const planSegments = async (file: Blob): Promise<SegmentPlan> => {
+  if (file.type === 'application/pdf') {
+    const ranges = await planPageRanges(file).catch(error => {
+      throw new ProcessingError('unsupported', "This PDF could not be read. It may be damaged or not a PDF.", { cause: error });
+    });
+    return ranges || planSingle(file);
+  }
+  const convert = file.type.startsWith('audio/') && !INLINE_AUDIO_TYPES.has(file.type.split(';')[0]);
+  if (file.size <= INLINE_LIMIT_BYTES && !convert) return planSingle(file);
+  if (file.type.startsWith('audio/') || file.type.startsWith('video/')) {
+    return planTimeWindows(file).catch(error => {
+      throw new ProcessingError('unsupported', "The audio in this file could not be decoded.", { cause: error });
+    });
+  }
+  throw new ProcessingError('too-large', "This file is too large to process and cannot be split automatically.");
+};
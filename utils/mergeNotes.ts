@@ -0,0 +1,47 @@
+import { Flashcard, GroundingSource, QuizItem, TranscriptSegment } from "../types";
+import { joinSegments } from "./transcript";
+import { conceptKey, normalize } from "./concepts";
+import { ActionItemDraft } from "./actionItems";
+
+/** The content fields a model returns for one segment of a lecture. */
+export interface SegmentNotes {
+  title: string;
+  summary: string;
+  keyConcepts: string[];
+  actionItems: ActionItemDraft[];
+  transcription: string;
+  segments: TranscriptSegment[];
+  quiz: QuizItem[];
+  flashcards: Flashcard[];
+  sources: GroundingSource[];
+}
+
+const dedupeBy = <T>(items: T[], key: (item: T) => string, prefer?: (a: T, b: T) => T): T[] => {
+  const seen = new Map<string, T>();
+  items.forEach(item => {
+    const k = key(item);
+    if (!k) return;
+    const existing = seen.get(k);
+    seen.set(k, existing && prefer ? prefer(existing, item) : existing ?? item);
+  });
+  return [...seen.values()];
+};
+
+/**
+ * Folds per-segment results into one set of notes: transcript segments are
+ * concatenated in order and list sections are de-duplicated. The title is
+ * taken from the first segment and the summaries are joined; callers
+ * synthesise a better title and summary when there is more than one segment.
+ */
+export const mergeSegmentNotes = (parts: SegmentNotes[]): SegmentNotes => ({
+  title: parts[0]?.title || '',
+  summary: parts.map(p => p.summary).filter(Boolean).join('\n\n'),
+  transcription: joinSegments(parts.flatMap(p => p.segments)),
+  segments: parts.flatMap(p => p.segments),
+  // Segments defining the same term share a concept; the fuller definition wins.
+  keyConcepts: dedupeBy(parts.flatMap(p => p.keyConcepts), conceptKey, (a, b) => (b.length > a.length ? b : a)),
+  actionItems: dedupeBy(parts.flatMap(p => p.actionItems), a => normalize(a.text), (a, b) => (a.due ? a : b)),
+  quiz: dedupeBy(parts.flatMap(p => p.quiz), q => normalize(q.question)),
+  flashcards: dedupeBy(parts.flatMap(p => p.flashcards), c => normalize(c.front)),
+  sources: dedupeBy(parts.flatMap(p => p.sources), s => s.uri)
+});
@@ -0,0 +1,254 @@
+import { strToU8, zipSync } from "fflate";
+import { Course, QuizItem, SmartNotes, TranscriptSegment } from "../types";
+import { toISODate } from "./actionItems";
+import { ResolvedAnnotation, resolveAnnotations } from "./annotations";
+import { splitConcept } from "./concepts";
+import { toTag } from "./deck";
+import { formatTimestamp } from "./mediaSegmenter";
+import { questionType, QUESTION_TYPE_LABELS } from "./quizGrading";
+
+export type NoteExportFormat = 'markdown' | 'html';
+
+const EXTENSIONS: Record<NoteExportFormat, string> = { markdown: 'md', html: 'html' };
+
+// Obsidian takes the note name from the file name, so spaces are kept and
+// only characters that break links or file systems are removed.
+export const vaultFilename = (title: string) =>
+  (title || 'Untitled').replace(/[\\/:*?"<>|#^[\]]+/g, '').replace(/\s+/g, ' ').trim().slice(0, 100) || 'Untitled';
+
+export const segmentLabel = (segment: TranscriptSegment) =>
+  segment.start !== undefined ? formatTimestamp(segment.start)
+  : segment.page !== undefined ? `p. ${segment.page}`
+  : '';
+
+export const annotationLocation = ({ annotation, segment }: ResolvedAnnotation) => {
+  if (annotation.target === 'summary') return 'Summary';
+  const label = segment ? segmentLabel(segment) : '';
+  return label ? `Transcript, ${label}` : 'Transcript';
+};
+
+const choiceLetter = (i: number) => String.fromCharCode(65 + i);
+
+// --- Markdown ---
+
+const yaml = (value: string) => JSON.stringify(value);
+
+const quote = (text: string, depth: number = 1) =>
+  text.split('\n').map(line => `${'> '.repeat(depth)}${line}`.trimEnd()).join('\n');
+
+const frontMatter = (note: SmartNotes, course?: Course) => [
+  '---',
+  `id: ${yaml(note.id)}`,
+  `title: ${yaml(note.title)}`,
+  `date: ${toISODate(new Date(note.timestamp))}`,
+  ...(note.updatedAt ? [`updated: ${new Date(note.updatedAt).toISOString()}`] : []),
+  ...(course ? [`course: ${yaml(course.name)}`] : []),
+  ...(note.tags?.length ? ['tags:', ...note.tags.map(t => `  - ${yaml(toTag(t))}`)] : ['tags: []']),
+  ...(note.sources?.length
+    ? ['sources:', ...note.sources.flatMap(s => [`  - title: ${yaml(s.title)}`, `    url: ${yaml(s.uri)}`])]
+    : ['sources: []']),
+  '---'
+].join('\n');
+
+const quizItemMarkdown = (item: QuizItem, i: number) => {
+  const type = questionType(item);
+  const answer = [
+    `**Answer:** ${item.answer}`,
+    ...(item.explanation ? ['', item.explanation] : []),
+    ...(item.excerpt ? ['', `*“${item.excerpt}”*`] : [])
+  ].join('\n');
+  return [
+    `**${i + 1}. ${item.question}** *(${QUESTION_TYPE_LABELS[type]})*`,
+    ...(item.options.length > 0 && type !== 'true-false' ? item.options.map((o, j) => `- ${choiceLetter(j)}. ${o}`) : []),
+    '',
+    quote(`[!success]- Answer\n${answer}`)
+  ].join('\n');
+};
+
+/**
+ * The complete note as Obsidian-flavoured Markdown: YAML front-matter,
+ * Tasks-style due dates, a folded callout per flashcard and the quiz folded
+ * into one callout with each answer hidden behind its own.
+ */
+export const noteToMarkdown = (note: SmartNotes, course?: Course): string => {
+  const sections: string[] = [frontMatter(note, course), `# ${note.title}`, '## Summary', note.summary];
+
+  if (note.keyConcepts.length > 0) {
+    sections.push('## Key Concepts', note.keyConcepts.map(c => {
+      const { term, definition } = splitConcept(c);
+      return definition ? `- **${term}**: ${definition}` : `- ${term}`;
+    }).join('\n'));
+  }
+  if (note.actionItems.length > 0) {
+    sections.push('## Action Items', note.actionItems
+      .map(a => `- [${a.done ? 'x' : ' '}] ${a.text}${a.due ? ` 📅 ${a.due}` : ''}`)
+      .join('\n'));
+  }
+  if (note.flashcards?.length) {
+    sections.push('## Flashcards', note.flashcards
+      .map(c => quote(`[!question]- ${c.front.replace(/\s*\n\s*/g, ' ')}\n${c.back}`))
+      .join('\n\n'));
+  }
+  if (note.quiz?.length) {
+    sections.push('## Quiz', quote(`[!example]- Quiz (${note.quiz.length} questions)\n${note.quiz.map(quizItemMarkdown).join('\n\n')}`));
+  }
+  if (note.sources?.length) {
+    sections.push('## Sources', note.sources.map(s => `- [${s.title}](${s.uri})`).join('\n'));
+  }
+  const annotations = resolveAnnotations(note);
+  if (annotations.length > 0) {
+    sections.push('## Annotations', annotations.map(a => quote([
+      `[!quote] ${annotationLocation(a)}`,
+      `==${a.excerpt.replace(/\s*\n\s*/g, ' ')}==`,
+      ...(a.annotation.note ? ['', a.annotation.note] : [])
+    ].join('\n'))).join('\n\n'));
+  }
+  sections.push('## Transcription', note.segments?.length
+    ? note.segments.map(s => {
+        const label = segmentLabel(s);
+        return `${label ? `**[${label}]** ` : ''}${s.speaker ? `*${s.speaker}:* ` : ''}${s.text}`;
+      }).join('\n\n')
+    : note.transcription);
+
+  return sections.join('\n\n') + '\n';
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) =>
+  text.split(/\n\s*\n/).filter(p => p.trim()).map(p => `<p>${escapeHtml(p.trim()).replace(/\n/g, '<br>')}</p>`).join('\n');
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Inter', 'Segoe UI', sans-serif; max-width: 760px; margin: 3rem auto; padding: 0 1.5rem; color: #1e293b; line-height: 1.65; }
+  h1 { font-size: 2.2rem; line-height: 1.2; margin-bottom: .25rem; }
+  h2 { margin-top: 2.5rem; padding-bottom: .3rem; border-bottom: 1px solid #e2e8f0; font-size: 1.3rem; }
+  .meta { color: #94a3b8; font-size: .85rem; }
+  .tag { display: inline-block; background: #f1f5f9; color: #475569; border-radius: 999px; padding: 0 .6rem; margin-right: .3rem; font-size: .8rem; }
+  details { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: .75rem; padding: .6rem 1rem; margin: .5rem 0; }
+  details details { background: #fff; }
+  summary { cursor: pointer; font-weight: 600; }
+  blockquote { margin: .5rem 0; padding-left: .8rem; border-left: 3px solid #cbd5e1; color: #64748b; font-style: italic; }
+  .task-done { text-decoration: line-through; color: #94a3b8; }
+  .due { color: #6366f1; font-size: .8rem; font-weight: 600; }
+  .segment { margin: .4rem 0; }
+  .annotation { margin: .75rem 0; }
+  .annotation mark { background: #fef08a; }
+  .segment time { color: #6366f1; font-family: ui-monospace, monospace; font-size: .8rem; margin-right: .5rem; }
+`;
+
+const quizItemHtml = (item: QuizItem, i: number) => {
+  const type = questionType(item);
+  return `<li>
+  <p><strong>${escapeHtml(item.question)}</strong> <em class="meta">${QUESTION_TYPE_LABELS[type]}</em></p>
+  ${item.options.length > 0 && type !== 'true-false' ? `<ol type="A">${item.options.map(o => `<li>${escapeHtml(o)}</li>`).join('')}</ol>` : ''}
+  <details><summary>Answer</summary>
+    <p>${escapeHtml(item.answer)}</p>
+    ${item.explanation ? `<p>${escapeHtml(item.explanation)}</p>` : ''}
+    ${item.excerpt ? `<blockquote>“${escapeHtml(item.excerpt)}”</blockquote>` : ''}
+  </details>
+</li>`;
+};
+
+/** The same content as `noteToMarkdown`, as a self-contained HTML page. */
+export const noteToHtml = (note: SmartNotes, course?: Course): string => {
+  const sections: string[] = [
+    `<h1>${escapeHtml(note.title)}</h1>`,
+    `<p class="meta">${new Date(note.timestamp).toLocaleDateString()}${course ? ` · ${escapeHtml(course.name)}` : ''}</p>`,
+    ...(note.tags?.length ? [`<p>${note.tags.map(t => `<span class="tag">#${escapeHtml(t)}</span>`).join('')}</p>`] : []),
+    '<h2>Summary</h2>',
+    paragraphs(note.summary)
+  ];
+
+  if (note.keyConcepts.length > 0) {
+    sections.push('<h2>Key Concepts</h2>', `<ul>${note.keyConcepts.map(c => {
+      const { term, definition } = splitConcept(c);
+      return `<li><strong>${escapeHtml(term)}</strong>${definition ? `: ${escapeHtml(definition)}` : ''}</li>`;
+    }).join('\n')}</ul>`);
+  }
+  if (note.actionItems.length > 0) {
+    sections.push('<h2>Action Items</h2>', `<ul>${note.actionItems.map(a =>
+      `<li><input type="checkbox" disabled${a.done ? ' checked' : ''}> <span class="${a.done ? 'task-done' : ''}">${escapeHtml(a.text)}</span>${a.due ? ` <span class="due">📅 ${a.due}</span>` : ''}</li>`
+    ).join('\n')}</ul>`);
+  }
+  if (note.flashcards?.length) {
+    sections.push('<h2>Flashcards</h2>', note.flashcards.map(c =>
+      `<details><summary>${escapeHtml(c.front)}</summary>${paragraphs(c.back)}</details>`
+    ).join('\n'));
+  }
+  if (note.quiz?.length) {
+    sections.push('<h2>Quiz</h2>', `<details><summary>Quiz (${note.quiz.length} questions)</summary><ol>${note.quiz.map(quizItemHtml).join('\n')}</ol></details>`);
+  }
+  if (note.sources?.length) {
+    sections.push('<h2>Sources</h2>', `<ul>${note.sources.map(s =>
+      `<li><a href="${escapeHtml(s.uri)}" target="_blank" rel="noopener noreferrer">${escapeHtml(s.title)}</a></li>`
+    ).join('\n')}</ul>`);
+  }
+  const annotations = resolveAnnotations(note);
+  if (annotations.length > 0) {
+    sections.push('<h2>Annotations</h2>', annotations.map(a =>
+      `<div class="annotation"><p class="meta">${escapeHtml(annotationLocation(a))}</p><p><mark>${escapeHtml(a.excerpt)}</mark></p>${a.annotation.note ? paragraphs(a.annotation.note) : ''}</div>`
+    ).join('\n'));
+  }
+  sections.push('<h2>Transcription</h2>', note.segments?.length
+    ? note.segments.map(s => {
+        const label = segmentLabel(s);
+        return `<p class="segment">${label ? `<time>${label}</time>` : ''}${s.speaker ? `<em>${escapeHtml(s.speaker)}:</em> ` : ''}${escapeHtml(s.text)}</p>`;
+      }).join('\n')
+    : paragraphs(note.transcription));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="SmartNotes AI">
+<title>${escapeHtml(note.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+// --- Files ---
+
+const render = (note: SmartNotes, format: NoteExportFormat, course?: Course) =>
+  format === 'markdown' ? noteToMarkdown(note, course) : noteToHtml(note, course);
+
+/**
+ * One note becomes a single file; several become a zip with one file per
+ * note, filed into a folder per course so the zip can be dropped straight
+ * into an Obsidian vault.
+ */
+export const exportNotes = (notes: SmartNotes[], format: NoteExportFormat, courses: Course[] = []): { blob: Blob; filename: string } => {
+  const extension = EXTENSIONS[format];
+  const mimeType = format === 'markdown' ? 'text/markdown' : 'text/html';
+  const courseOf = (note: SmartNotes) => courses.find(c => c.id === note.courseId);
+
+  if (notes.length === 1) {
+    const note = notes[0];
+    return {
+      blob: new Blob([render(note, format, courseOf(note))], { type: `${mimeType};charset=utf-8` }),
+      filename: `${vaultFilename(note.title)}.${extension}`
+    };
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  notes.forEach(note => {
+    const course = courseOf(note);
+    const folder = course ? `${vaultFilename(course.name)}/` : '';
+    const base = `${folder}${vaultFilename(note.title)}`;
+    let path = `${base}.${extension}`;
+    for (let n = 2; files[path]; n++) path = `${base} (${n}).${extension}`;
+    files[path] = strToU8(render(note, format, course));
+  });
+  return {
+    blob: new Blob([zipSync(files)], { type: 'application/zip' }),
+    filename: `smartnotes-${format}-${toISODate(new Date())}.zip`
+  };
+};
@@ -0,0 +1,266 @@
+import { Flashcard, QuestionType, QuizItem, TranscriptSegment } from "../types";
+import { SegmentNotes } from "./mergeNotes";
+import { ActionItemDraft, isISODate } from "./actionItems";
+import { joinSegments } from "./transcript";
+import { findQuote } from "./textMatch";
+import { CLOZE_BLANK } from "./quizGrading";
+
+export type GeneratedNotes = Omit<SegmentNotes, 'sources'>;
+
+export interface ValidationResult<T> {
+  value: T;
+  // Problems that were repaired or dropped; the value is still usable.
+  warnings: string[];
+  // Problems that could not be repaired; the model should be asked again.
+  errors: string[];
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const clean = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+const normalize = (v: string) => v.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const cleanStringList = (raw: unknown, field: string, warnings: string[]): string[] => {
+  if (raw === undefined || raw === null) {
+    warnings.push(`${field} was missing; left empty.`);
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    warnings.push(`${field} was not a list; left empty.`);
+    return [];
+  }
+  const items = raw.map(clean).filter(Boolean);
+  if (items.length < raw.length) warnings.push(`Dropped ${raw.length - items.length} empty or non-text ${field} entries.`);
+  return items;
+};
+
+// Models often answer with the option letter ("B", "b)", "Option C") or with
+// different casing/spacing instead of the exact option text.
+const resolveAnswer = (answer: string, options: string[]): string | null => {
+  if (options.includes(answer)) return answer;
+  const byText = options.find(o => normalize(o) === normalize(answer));
+  if (byText) return byText;
+  const letter = answer.match(/^(?:option\s+)?([a-z])[).:]?$/i)?.[1];
+  if (letter) {
+    const index = letter.toLowerCase().charCodeAt(0) - 97;
+    if (index < options.length) return options[index];
+  }
+  const prefixed = options.find(o => normalize(o).replace(/^[a-z][).:]\s*/, '') === normalize(answer).replace(/^[a-z][).:]\s*/, ''));
+  return prefixed || null;
+};
+
+export interface QuizSource {
+  // Maps the model's `segment` index (into the transcript it was shown) to
+  // a segment id; out-of-range indices just leave the item unlinked.
+  segmentIds?: string[];
+  // Excerpts are kept only when they can be found in this text.
+  transcript?: string;
+}
+
+const QUESTION_TYPES: QuestionType[] = ['multiple-choice', 'true-false', 'multi-select', 'short-answer', 'cloze'];
+const TRUE_FALSE = ['True', 'False'];
+
+export const validateQuizItem = (raw: unknown, position: number, warnings: string[], source: QuizSource = {}): QuizItem | null => {
+  const label = `Quiz question ${position + 1}`;
+  if (!isObject(raw)) {
+    warnings.push(`${label} was malformed and was dropped.`);
+    return null;
+  }
+  let question = clean(raw.question);
+  if (!question) {
+    warnings.push(`${label} had no question text and was dropped.`);
+    return null;
+  }
+  const drop = (reason: string) => {
+    warnings.push(`${label} ("${question}") ${reason} and was dropped.`);
+    return null;
+  };
+  const type: QuestionType = QUESTION_TYPES.includes(raw.type) ? raw.type : 'multiple-choice';
+  let options = Array.isArray(raw.options)
+    ? [...new Set(raw.options.map(clean).filter(Boolean))] as string[]
+    : [];
+  let answer = clean(raw.answer);
+  let answers: string[] | undefined;
+
+  switch (type) {
+    case 'true-false': {
+      const resolved = resolveAnswer(answer, TRUE_FALSE);
+      if (!resolved) return drop('is true/false but its answer is neither');
+      options = TRUE_FALSE;
+      answer = resolved;
+      break;
+    }
+    case 'multi-select': {
+      if (options.length < 2) return drop('had fewer than two options');
+      const listed: string[] = Array.isArray(raw.answers) ? raw.answers.map(clean).filter(Boolean) : [answer];
+      const resolved = [...new Set(listed.map(a => resolveAnswer(a, options)).filter((a): a is string => a !== null))];
+      if (resolved.length === 0) return drop('has no correct answers among its options');
+      if (resolved.length < listed.length) warnings.push(`${label}: ignored correct answers that are not among its options.`);
+      answers = options.filter(o => resolved.includes(o));
+      answer = answers.join('; ');
+      break;
+    }
+    case 'short-answer':
+      if (!answer) return drop('had no reference answer');
+      options = [];
+      break;
+    case 'cloze': {
+      question = question.replace(CLOZE_BLANK, '____');
+      const blanks = question.match(CLOZE_BLANK)?.length || 0;
+      answers = Array.isArray(raw.answers) ? raw.answers.map(clean).filter(Boolean) : [];
+      if (blanks === 0) return drop('is a cloze question without ____ blanks');
+      if (answers.length !== blanks) return drop(`has ${blanks} blanks but ${answers.length} answers`);
+      options = [];
+      answer = answers.join(', ');
+      break;
+    }
+    default: {
+      if (options.length < 2) return drop('had fewer than two options');
+      const resolved = resolveAnswer(answer, options);
+      if (!resolved) return drop('has an answer that is not one of its options');
+      if (resolved !== answer) warnings.push(`${label}: answer "${answer}" was matched to option "${resolved}".`);
+      answer = resolved;
+    }
+  }
+
+  const explanation = clean(raw.explanation);
+  let excerpt = clean(raw.excerpt);
+  if (excerpt && source.transcript) {
+    const range = findQuote(source.transcript, excerpt);
+    if (range) {
+      excerpt = source.transcript.slice(range.start, range.end);
+    } else {
+      warnings.push(`${label}: source excerpt was not found in the transcript and was removed.`);
+      excerpt = '';
+    }
+  }
+  const segmentId = Number.isInteger(raw.segment) ? source.segmentIds?.[raw.segment] : undefined;
+  return {
+    ...(type !== 'multiple-choice' && { type }),
+    question,
+    options,
+    answer,
+    ...(answers && { answers }),
+    ...(explanation && { explanation }),
+    ...(excerpt && { excerpt }),
+    ...(segmentId && { segmentId })
+  };
+};
+
+/** Accepts `{ text, due }` objects, or bare strings from older prompts. */
+export const validateActionItem = (raw: unknown, position: number, warnings: string[]): ActionItemDraft | null => {
+  const text = typeof raw === 'string' ? clean(raw) : isObject(raw) ? clean(raw.text) : '';
+  if (!text) {
+    warnings.push(`Action item ${position + 1} had no text and was dropped.`);
+    return null;
+  }
+  const due = isObject(raw) ? clean(raw.due) : '';
+  if (due && !isISODate(due)) warnings.push(`Action item "${text}": due date "${due}" is not a YYYY-MM-DD date and was ignored.`);
+  return { text, ...(isISODate(due) && { due }) };
+};
+
+export const validateFlashcard = (raw: unknown, position: number, warnings: string[]): Flashcard | null => {
+  const front = isObject(raw) ? clean(raw.front) : '';
+  const back = isObject(raw) ? clean(raw.back) : '';
+  if (!front || !back) {
+    warnings.push(`Flashcard ${position + 1} was missing a side and was dropped.`);
+    return null;
+  }
+  return { front, back };
+};
+
+export const validateList = <T>(
+  raw: unknown,
+  field: string,
+  warnings: string[],
+  validateItem: (item: unknown, position: number, warnings: string[]) => T | null
+): T[] => {
+  if (!Array.isArray(raw)) {
+    warnings.push(`${field} was missing; left empty.`);
+    return [];
+  }
+  return raw.map((item, i) => validateItem(item, i, warnings)).filter((item): item is T => item !== null);
+};
+
+const validTime = (v: unknown): number | undefined =>
+  typeof v === 'number' && isFinite(v) && v >= 0 ? v : undefined;
+
+export const validateSegments = (raw: unknown, idPrefix: string, warnings: string[]): TranscriptSegment[] => {
+  if (!Array.isArray(raw)) return [];
+  const segments: TranscriptSegment[] = [];
+  raw.forEach((item, i) => {
+    const text = isObject(item) ? clean(item.text) : '';
+    if (!text) return;
+    const start = validTime(item.start);
+    let end = validTime(item.end);
+    if (start !== undefined && end !== undefined && end < start) end = undefined;
+    const page = Number.isInteger(item.page) && item.page > 0 ? item.page : undefined;
+    const speaker = clean(item.speaker);
+    segments.push({
+      id: `${idPrefix}${i}`,
+      text,
+      ...(start !== undefined && { start }),
+      ...(end !== undefined && { end }),
+      ...(page !== undefined && { page }),
+      ...(speaker && { speaker })
+    });
+  });
+  if (segments.length < raw.length) warnings.push(`Dropped ${raw.length - segments.length} empty transcript segments.`);
+  return segments;
+};
+
+/**
+ * Checks model output against the notes shape and its invariants (every
+ * quiz answer is one of at least two options, no empty cards or entries).
+ * Fixable problems are repaired or the offending item is dropped, with a
+ * warning; missing core text is reported as an error so the caller can retry.
+ * When the transcript is already known (extracted text, subtitles) it is
+ * passed as `knownSegments` and the model is not expected to return one.
+ */
+export const validateGeneratedNotes = (
+  raw: unknown,
+  segmentIdPrefix: string = 's',
+  knownSegments?: TranscriptSegment[]
+): ValidationResult<GeneratedNotes> => {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const data = isObject(raw) ? raw : {};
+  if (!isObject(raw)) errors.push('Response was not a JSON object.');
+
+  const summary = clean(data.summary);
+  if (!summary) errors.push('"summary" must be a non-empty string.');
+
+  // Providers that ignore the segment schema may still send plain text.
+  let segments = knownSegments || validateSegments(data.segments, segmentIdPrefix, warnings);
+  if (segments.length === 0 && clean(data.transcription)) {
+    segments = [{ id: `${segmentIdPrefix}0`, text: clean(data.transcription) }];
+    warnings.push('Transcript came back without segments; timing links are unavailable.');
+  }
+  if (segments.length === 0) errors.push('"segments" must contain the transcript, split into segments with non-empty text.');
+
+  let title = clean(data.title);
+  if (!title) {
+    title = 'Untitled Lecture';
+    warnings.push('Title was missing; using a placeholder.');
+  }
+
+  const source: QuizSource = { segmentIds: segments.map(seg => seg.id), transcript: joinSegments(segments) };
+  const quiz = validateList(data.quiz, 'Quiz', warnings, (item, i, w) => validateQuizItem(item, i, w, source));
+  if (Array.isArray(data.quiz) && data.quiz.length > 0 && quiz.length === 0) {
+    errors.push('Every quiz question was invalid: choice questions need at least two options and an answer copied exactly from them; cloze questions need one answer per ____ blank.');
+  }
+
+  return {
+    value: {
+      title,
+      summary,
+      transcription: joinSegments(segments),
+      segments,
+      keyConcepts: cleanStringList(data.keyConcepts, 'Key concept', warnings),
+      actionItems: validateList(data.actionItems, 'Action items', warnings, validateActionItem),
+      quiz,
+      flashcards: validateList(data.flashcards, 'Flashcards', warnings, validateFlashcard)
+    },
+    warnings,
+    errors
+  };
+};
@@ -0,0 +1,117 @@
+import { strFromU8, unzipSync } from "fflate";
+import { ProcessingError } from "./errors";
+
+export interface EmbeddedImage {
+  bytes: Uint8Array;
+  mimeType: string;
+  // Slide the image appears on, for decks.
+  page?: number;
+}
+
+export interface Slide {
+  number: number;
+  text: string[];
+  notes: string[];
+}
+
+// Formats the models accept; EMF/WMF clip-art and the like are skipped.
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PRESENTATION_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const imageType = (path: string) => IMAGE_TYPES[path.split('.').pop()?.toLowerCase() || ''];
+
+const unzipOffice = async (file: Blob, kind: string) => {
+  try {
+    return unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    throw new ProcessingError('unsupported', `This ${kind} could not be opened. It may be damaged, password-protected or in the old binary format.`, { cause: error });
+  }
+};
+
+const parseXml = (entries: Record<string, Uint8Array>, path: string): Document | null =>
+  entries[path] ? new DOMParser().parseFromString(strFromU8(entries[path]), 'application/xml') : null;
+
+// Paragraph text from WordprocessingML or DrawingML, with tabs and line
+// breaks kept. Elements are matched by namespace and local name, so files
+// that use other prefixes read the same.
+const paragraphs = (root: Document | Element, ns: string): string[] =>
+  [...root.getElementsByTagNameNS(ns, 'p')]
+    .map(p => [...p.getElementsByTagNameNS(ns, '*')]
+      .map(el => (el.localName === 't' ? el.textContent || '' : el.localName === 'tab' ? '\t' : el.localName === 'br' ? '\n' : ''))
+      .join('')
+      .trim())
+    .filter(Boolean);
+
+// Relationship targets are relative to the part's folder.
+const resolvePath = (from: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = from.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+const relationships = (entries: Record<string, Uint8Array>, partPath: string) => {
+  const folder = partPath.split('/').slice(0, -1).join('/');
+  const name = partPath.split('/').pop();
+  const rels = parseXml(entries, `${folder}/_rels/${name}.rels`);
+  return [...(rels?.getElementsByTagName('Relationship') || [])].map(rel => ({
+    id: rel.getAttribute('Id') || '',
+    type: rel.getAttribute('Type') || '',
+    path: resolvePath(partPath, rel.getAttribute('Target') || '')
+  }));
+};
+
+/** Paragraph text and embedded pictures of a Word (.docx) document. */
+export const extractDocx = async (file: Blob): Promise<{ paragraphs: string[]; images: EmbeddedImage[] }> => {
+  const entries = await unzipOffice(file, 'Word document');
+  const document = parseXml(entries, 'word/document.xml');
+  if (!document) throw new ProcessingError('unsupported', "This file is not a Word document.");
+  const images = Object.keys(entries)
+    .filter(path => path.startsWith('word/media/') && imageType(path))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(path => ({ bytes: entries[path], mimeType: imageType(path) }));
+  return { paragraphs: paragraphs(document, WORD_NS), images };
+};
+
+/** Slide text, speaker notes and pictures of a PowerPoint (.pptx) deck, in presentation order. */
+export const extractPptx = async (file: Blob): Promise<{ slides: Slide[]; images: EmbeddedImage[] }> => {
+  const entries = await unzipOffice(file, 'PowerPoint deck');
+  const presentation = parseXml(entries, 'ppt/presentation.xml');
+  if (!presentation) throw new ProcessingError('unsupported', "This file is not a PowerPoint deck.");
+  const presentationRels = relationships(entries, 'ppt/presentation.xml');
+  const slidePaths = [...presentation.getElementsByTagNameNS(PRESENTATION_NS, 'sldId')]
+    .map(el => presentationRels.find(rel => rel.id === el.getAttributeNS(RELATIONSHIPS_NS, 'id'))?.path)
+    .filter((path): path is string => !!path && !!entries[path]);
+
+  const slides: Slide[] = [];
+  const images: EmbeddedImage[] = [];
+  slidePaths.forEach((path, i) => {
+    const number = i + 1;
+    const rels = relationships(entries, path);
+    const notesPath = rels.find(rel => rel.type.endsWith('/notesSlide'))?.path;
+    const notes = notesPath ? parseXml(entries, notesPath) : null;
+    slides.push({
+      number,
+      text: paragraphs(parseXml(entries, path)!, DRAWING_NS),
+      // Notes slides repeat the slide number in a placeholder; keep the body only.
+      notes: notes ? paragraphs(notes, DRAWING_NS).filter(p => p !== String(number)) : []
+    });
+    rels
+      .filter(rel => rel.type.endsWith('/image') && entries[rel.path] && imageType(rel.path))
+      .forEach(rel => images.push({ bytes: entries[rel.path], mimeType: imageType(rel.path), page: number }));
+  });
+  return { slides, images };
+};
@@ -1,97 +1,428 @@
-
 import { jsPDF } from "jspdf";
-import { SmartNotes } from "../types";
+import { Course, Flashcard, QuizItem, SmartNotes } from "../types";
+import { formatDue } from "./actionItems";
+import { resolveAnnotations } from "./annotations";
+import { splitConcept } from "./concepts";
+import { quizItemToCard } from "./deck";
+import { safeFilename } from "./download";
+import { annotationLocation, segmentLabel } from "./noteExport";
+import { questionType, QUESTION_TYPE_LABELS } from "./quizGrading";
+
+export type PdfLayout = 'study-guide' | 'cut-sheets' | 'exam';
+
+export type PdfSection = 'summary' | 'keyConcepts' | 'actionItems' | 'quiz' | 'flashcards' | 'sources' | 'annotations' | 'transcription';
+
+export interface PdfOptions {
+  layout: PdfLayout;
+  // Study guide only; the other layouts are built from the quiz and cards.
+  sections: PdfSection[];
+  // Cut-sheets only: quiz questions become extra cards.
+  includeQuiz: boolean;
+}
+
+export const PDF_SECTIONS: { id: PdfSection; label: string }[] = [
+  { id: 'summary', label: 'Summary' },
+  { id: 'keyConcepts', label: 'Key Concepts' },
+  { id: 'actionItems', label: 'Action Items' },
+  { id: 'quiz', label: 'Quiz' },
+  { id: 'flashcards', label: 'Flashcards' },
+  { id: 'sources', label: 'Sources' },
+  { id: 'annotations', label: 'Annotations' },
+  { id: 'transcription', label: 'Transcription' }
+];
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  layout: 'study-guide',
+  sections: PDF_SECTIONS.map(s => s.id),
+  includeQuiz: false
+};
+
+const LAYOUT_LABELS: Record<PdfLayout, string> = {
+  'study-guide': 'Study Guide',
+  'cut-sheets': 'Flashcards',
+  exam: 'Exam'
+};
+
+// A4 in millimetres. Content stays clear of the running header and footer.
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = 25;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 20;
 
-export const generatePDF = (notes: SmartNotes) => {
-  const doc = new jsPDF();
-  const margin = 20;
-  let cursorY = 20;
+const LINK_COLOR: [number, number, number] = [79, 70, 229];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+
+const choiceLetter = (i: number) => String.fromCharCode(65 + i);
+
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+interface TextStyle {
+  size?: number;
+  style?: FontStyle;
+  indent?: number;
+  lineHeight?: number;
+  color?: [number, number, number];
+}
+
+/**
+ * Flowing-text writer over a jsPDF document. Every line goes through
+ * `checkPage`, so no block can run off the bottom of a page.
+ */
+const createWriter = (doc: jsPDF) => {
+  let cursorY = CONTENT_TOP;
+  const headings: { title: string; page: number }[] = [];
+
+  const page = () => doc.getNumberOfPages();
+
+  const newPage = () => {
+    doc.addPage();
+    cursorY = CONTENT_TOP;
+  };
 
   const checkPage = (heightNeeded: number) => {
-    if (cursorY + heightNeeded > 280) {
-      doc.addPage();
-      cursorY = 20;
+    if (cursorY + heightNeeded > CONTENT_BOTTOM) {
+      newPage();
       return true;
     }
     return false;
   };
 
-  // Title
-  doc.setFontSize(22);
-  doc.setFont("helvetica", "bold");
-  doc.text(notes.title || "Lecture Notes", margin, cursorY);
-  cursorY += 15;
-
-  // Metadata
-  doc.setFontSize(10);
-  doc.setFont("helvetica", "italic");
-  doc.text(`Generated on: ${new Date(notes.timestamp).toLocaleString()}`, margin, cursorY);
-  cursorY += 15;
-
-  // Summary
-  doc.setFontSize(14);
-  doc.setFont("helvetica", "bold");
-  doc.text("Executive Summary", margin, cursorY);
-  cursorY += 7;
-  doc.setFontSize(11);
-  doc.setFont("helvetica", "normal");
-  const summaryLines = doc.splitTextToSize(notes.summary, 170);
-  doc.text(summaryLines, margin, cursorY);
-  cursorY += (summaryLines.length * 6) + 10;
-
-  // Key Concepts
-  if (notes.keyConcepts.length > 0) {
-    checkPage(20);
-    doc.setFontSize(14);
-    doc.setFont("helvetica", "bold");
-    doc.text("Key Concepts", margin, cursorY);
-    cursorY += 7;
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "normal");
-    notes.keyConcepts.forEach((concept) => {
-      const lines = doc.splitTextToSize(`• ${concept}`, 170);
-      checkPage(lines.length * 6);
-      doc.text(lines, margin, cursorY);
-      cursorY += (lines.length * 6);
+  const setStyle = ({ size = 11, style = 'normal', color = [0, 0, 0] }: TextStyle) => {
+    doc.setFontSize(size);
+    doc.setFont("helvetica", style);
+    doc.setTextColor(...color);
+  };
+
+  const text = (content: string, options: TextStyle = {}) => {
+    const { indent = 0, lineHeight = (options.size || 11) * 0.5 } = options;
+    setStyle(options);
+    const lines: string[] = doc.splitTextToSize(content, CONTENT_WIDTH - indent);
+    lines.forEach(line => {
+      checkPage(lineHeight);
+      doc.text(line, MARGIN + indent, cursorY);
+      cursorY += lineHeight;
     });
-    cursorY += 10;
-  }
+    doc.setTextColor(0, 0, 0);
+  };
 
-  // Grounding Sources
-  if (notes.sources && notes.sources.length > 0) {
-    checkPage(20);
-    doc.setFontSize(14);
-    doc.setFont("helvetica", "bold");
-    doc.text("Supplemental Resources", margin, cursorY);
-    cursorY += 7;
-    doc.setFontSize(10);
-    doc.setTextColor(0, 0, 255);
-    notes.sources.forEach((source) => {
-      const text = `${source.title}: ${source.uri}`;
-      const lines = doc.splitTextToSize(text, 170);
-      checkPage(lines.length * 6);
-      doc.text(lines, margin, cursorY);
-      cursorY += (lines.length * 6);
+  const paragraphs = (content: string, options: TextStyle = {}) => {
+    content.split(/\n\s*\n/).filter(p => p.trim()).forEach(p => {
+      text(p.trim(), options);
+      space(2);
+    });
+  };
+
+  const link = (content: string, url: string, options: TextStyle = {}) => {
+    const { indent = 0, lineHeight = 5 } = options;
+    setStyle({ size: 10, ...options, color: LINK_COLOR });
+    const lines: string[] = doc.splitTextToSize(content, CONTENT_WIDTH - indent);
+    lines.forEach(line => {
+      checkPage(lineHeight);
+      doc.textWithLink(line, MARGIN + indent, cursorY, { url });
+      cursorY += lineHeight;
     });
     doc.setTextColor(0, 0, 0);
-    cursorY += 10;
+  };
+
+  // Keeps a heading with at least the first few lines of what follows it.
+  const heading = (title: string, { startPage = false, level = 1 }: { startPage?: boolean; level?: 1 | 2 } = {}) => {
+    if (startPage && cursorY > CONTENT_TOP) newPage();
+    else checkPage(level === 1 ? 25 : 15);
+    if (level === 1) {
+      headings.push({ title, page: page() });
+      doc.outline.add(null, title, { pageNumber: page() });
+    }
+    text(title, { size: level === 1 ? 14 : 12, style: 'bold', lineHeight: level === 1 ? 8 : 6 });
+    space(level === 1 ? 1 : 0);
+  };
+
+  const rule = () => {
+    checkPage(4);
+    doc.setDrawColor(203, 213, 225);
+    doc.line(MARGIN, cursorY, PAGE_WIDTH - MARGIN, cursorY);
+    cursorY += 4;
+  };
+
+  const space = (mm: number) => { cursorY += mm; };
+
+  return {
+    text, paragraphs, link, heading, rule, space, checkPage, newPage, headings,
+    get y() { return cursorY; }
+  };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+// --- Sections ---
+
+const writeQuizItem = (w: Writer, item: QuizItem, i: number, { answers }: { answers: boolean }) => {
+  const type = questionType(item);
+  w.checkPage(20);
+  w.text(`${i + 1}. ${item.question}`, { style: 'bold' });
+  w.text(QUESTION_TYPE_LABELS[type] + (type === 'multi-select' ? ' — select all that apply' : ''), { size: 8, style: 'italic', indent: 5, color: MUTED_COLOR });
+  w.space(1);
+  if (type === 'true-false') {
+    w.text('(  ) True      (  ) False', { indent: 5 });
+  } else if (item.options.length > 0) {
+    const marker = type === 'multi-select' ? '[  ]' : '(  )';
+    item.options.forEach((o, j) => w.text(`${answers ? '' : `${marker} `}${choiceLetter(j)}. ${o}`, { indent: 5 }));
+  } else if (!answers && type === 'short-answer') {
+    w.space(2);
+    for (let line = 0; line < 3; line++) {
+      w.space(7);
+      w.rule();
+    }
+  }
+  if (answers) {
+    w.space(1);
+    w.text(`Answer: ${answerKey(item)}`, { style: 'bold', indent: 5, color: LINK_COLOR });
+    if (item.explanation) w.text(item.explanation, { size: 10, indent: 5 });
+    if (item.excerpt) w.text(`“${item.excerpt}”`, { size: 9, style: 'italic', indent: 5, color: MUTED_COLOR });
+  }
+  w.space(5);
+};
+
+// Choice questions are keyed by letter so they can be marked at a glance.
+const answerKey = (item: QuizItem) => {
+  const type = questionType(item);
+  if (type !== 'multiple-choice' && type !== 'multi-select') return item.answer;
+  const correct = type === 'multi-select' && item.answers?.length ? item.answers : [item.answer];
+  const letters = correct.map(a => item.options.indexOf(a)).filter(j => j >= 0).map(choiceLetter);
+  return letters.length > 0 ? `${letters.join(', ')} (${item.answer})` : item.answer;
+};
+
+const writeAnswerKeyItem = (w: Writer, item: QuizItem, i: number) => {
+  const answer = answerKey(item);
+  w.text(`${i + 1}. ${answer}`, { style: 'bold' });
+  if (item.explanation) w.text(item.explanation, { size: 9, indent: 5, color: MUTED_COLOR });
+  w.space(3);
+};
+
+const writeSection = (w: Writer, note: SmartNotes, section: PdfSection) => {
+  switch (section) {
+    case 'summary':
+      w.heading('Summary');
+      w.paragraphs(note.summary, { lineHeight: 6 });
+      break;
+    case 'keyConcepts':
+      if (note.keyConcepts.length === 0) return;
+      w.heading('Key Concepts');
+      note.keyConcepts.forEach(c => {
+        const { term, definition } = splitConcept(c);
+        w.text(definition ? `• ${term}: ${definition}` : `• ${term}`, { indent: 2, lineHeight: 6 });
+      });
+      break;
+    case 'actionItems':
+      if (note.actionItems.length === 0) return;
+      w.heading('Action Items');
+      note.actionItems.forEach(a => {
+        w.text(`[${a.done ? 'x' : '  '}] ${a.text}`, { indent: 2, lineHeight: 6, color: a.done ? MUTED_COLOR : undefined });
+        if (a.due) w.text(`Due ${formatDue(a.due)}`, { size: 9, indent: 9, color: LINK_COLOR });
+      });
+      break;
+    case 'quiz':
+      if (!note.quiz?.length) return;
+      w.heading('Quiz');
+      note.quiz.forEach((q, i) => writeQuizItem(w, q, i, { answers: true }));
+      break;
+    case 'flashcards':
+      if (!note.flashcards?.length) return;
+      w.heading('Flashcards');
+      note.flashcards.forEach(c => {
+        w.checkPage(15);
+        w.text(`Q: ${c.front}`, { style: 'bold' });
+        w.text(`A: ${c.back}`, { indent: 5 });
+        w.space(4);
+      });
+      break;
+    case 'sources':
+      if (!note.sources?.length) return;
+      w.heading('Sources');
+      note.sources.forEach(s => {
+        w.link(s.title, s.uri, { style: 'bold' });
+        w.link(s.uri, s.uri, { size: 8, indent: 3 });
+        w.space(2);
+      });
+      break;
+    case 'annotations': {
+      const annotations = resolveAnnotations(note);
+      if (annotations.length === 0) return;
+      w.heading('Annotations');
+      annotations.forEach(a => {
+        w.checkPage(15);
+        w.text(annotationLocation(a), { size: 8, color: MUTED_COLOR });
+        w.text(`“${a.excerpt}”`, { style: 'italic', indent: 3 });
+        if (a.annotation.note) w.text(a.annotation.note, { indent: 3 });
+        w.space(3);
+      });
+      break;
+    }
+    case 'transcription':
+      w.heading('Transcription', { startPage: true });
+      if (note.segments?.length) {
+        note.segments.forEach(s => {
+          const label = segmentLabel(s);
+          w.text(`${label ? `[${label}] ` : ''}${s.speaker ? `${s.speaker}: ` : ''}${s.text}`, { size: 9, lineHeight: 4.5 });
+          w.space(1.5);
+        });
+      } else {
+        w.paragraphs(note.transcription, { size: 9, lineHeight: 4.5 });
+      }
+      break;
   }
+  w.space(8);
+};
+
+// --- Layouts ---
+
+const writeTitle = (w: Writer, note: SmartNotes, course?: Course, prefix: string = '') => {
+  w.text(`${prefix}${note.title || 'Lecture Notes'}`, { size: 22, style: 'bold', lineHeight: 10 });
+  w.space(2);
+  const meta = [new Date(note.timestamp).toLocaleDateString(), course?.name, note.tags?.length ? note.tags.map(t => `#${t}`).join(' ') : '']
+    .filter(Boolean).join('  ·  ');
+  w.text(meta, { size: 10, style: 'italic', color: MUTED_COLOR });
+  w.space(6);
+};
 
-  // Full Transcription
-  doc.addPage();
-  cursorY = 20;
-  doc.setFontSize(14);
-  doc.setFont("helvetica", "bold");
-  doc.text("Transcription", margin, cursorY);
-  cursorY += 10;
-  doc.setFontSize(9);
+/**
+ * Title and contents on the first page, then each chosen section. The
+ * contents are filled in last, once every section's page is known.
+ */
+const buildStudyGuide = (doc: jsPDF, note: SmartNotes, options: PdfOptions, course?: Course) => {
+  const w = createWriter(doc);
+  writeTitle(w, note, course);
+  w.text('Contents', { size: 14, style: 'bold', lineHeight: 8 });
+  const contentsY = w.y;
+
+  w.newPage();
+  PDF_SECTIONS.filter(s => options.sections.includes(s.id)).forEach(s => writeSection(w, note, s.id));
+
+  doc.setPage(1);
+  doc.setFontSize(11);
   doc.setFont("helvetica", "normal");
-  const transcriptLines = doc.splitTextToSize(notes.transcription, 170);
-  transcriptLines.forEach((line: string) => {
-    if (checkPage(5)) {}
-    doc.text(line, margin, cursorY);
-    cursorY += 5;
+  w.headings.slice(0, Math.floor((CONTENT_BOTTOM - contentsY) / 8)).forEach((h, i) => {
+    const y = contentsY + i * 8;
+    doc.setTextColor(...LINK_COLOR);
+    doc.textWithLink(h.title, MARGIN + 2, y, { pageNumber: h.page });
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(String(h.page), PAGE_WIDTH - MARGIN, y, { align: 'right' });
+    doc.link(MARGIN, y - 5, CONTENT_WIDTH, 7, { pageNumber: h.page });
   });
+  doc.setTextColor(0, 0, 0);
+};
+
+/** The questions without answers, then an answer key starting on its own page. */
+const buildExam = (doc: jsPDF, note: SmartNotes, course?: Course) => {
+  const w = createWriter(doc);
+  const quiz = note.quiz || [];
+  writeTitle(w, note, course, 'Exam: ');
+  w.text('Name: ______________________________        Date: ______________', { lineHeight: 10 });
+  w.text(`${quiz.length} questions. Fill in the bubble or box for each choice and write short answers on the lines provided.`, { size: 9, style: 'italic', color: MUTED_COLOR });
+  w.space(6);
+  w.heading('Questions');
+  quiz.forEach((q, i) => writeQuizItem(w, q, i, { answers: false }));
 
-  doc.save(`${notes.title.replace(/\s+/g, '_')}_notes.pdf`);
+  w.heading('Answer Key', { startPage: true });
+  quiz.forEach((q, i) => writeAnswerKeyItem(w, q, i));
+};
+
+const CARD_COLUMNS = 2;
+const CARD_ROWS = 4;
+const CARD_WIDTH = CONTENT_WIDTH / CARD_COLUMNS;
+const CARD_HEIGHT = (CONTENT_BOTTOM - CONTENT_TOP) / CARD_ROWS;
+
+// Shrinks the text until it fits the card, down to a readable minimum.
+const writeCardFace = (doc: jsPDF, content: string, x: number, y: number, style: FontStyle) => {
+  const padding = 6;
+  let size = 13;
+  let lines: string[] = [];
+  doc.setFont("helvetica", style);
+  for (; size >= 7; size--) {
+    doc.setFontSize(size);
+    lines = doc.splitTextToSize(content, CARD_WIDTH - padding * 2);
+    if (lines.length * size * 0.45 <= CARD_HEIGHT - padding * 2) break;
+  }
+  const lineHeight = size * 0.45;
+  const maxLines = Math.floor((CARD_HEIGHT - padding * 2) / lineHeight);
+  if (lines.length > maxLines) lines = [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`];
+  const top = y + (CARD_HEIGHT - lines.length * lineHeight) / 2 + lineHeight * 0.8;
+  lines.forEach((line, i) => doc.text(line, x + CARD_WIDTH / 2, top + i * lineHeight, { align: 'center' }));
+};
+
+/**
+ * Fronts and backs on alternating sheets, with the back sheet's columns
+ * mirrored so duplex printing (flip on long edge) lines each answer up
+ * behind its question. Dashed lines mark where to cut.
+ */
+const buildCutSheets = (doc: jsPDF, note: SmartNotes, options: PdfOptions) => {
+  const cards: Flashcard[] = [
+    ...(note.flashcards || []),
+    ...(options.includeQuiz ? (note.quiz || []).map(quizItemToCard) : [])
+  ];
+  const perSheet = CARD_COLUMNS * CARD_ROWS;
+  const sheets = Math.max(1, Math.ceil(cards.length / perSheet));
+
+  for (let sheet = 0; sheet < sheets; sheet++) {
+    const batch = cards.slice(sheet * perSheet, (sheet + 1) * perSheet);
+    (['front', 'back'] as const).forEach(side => {
+      if (sheet > 0 || side === 'back') doc.addPage();
+      doc.outline.add(null, `Sheet ${sheet + 1} — ${side === 'front' ? 'questions' : 'answers'}`, { pageNumber: doc.getNumberOfPages() });
+      doc.setDrawColor(148, 163, 184);
+      doc.setLineDashPattern([2, 2], 0);
+      batch.forEach((card, i) => {
+        const row = Math.floor(i / CARD_COLUMNS);
+        const column = side === 'front' ? i % CARD_COLUMNS : CARD_COLUMNS - 1 - (i % CARD_COLUMNS);
+        const x = MARGIN + column * CARD_WIDTH;
+        const y = CONTENT_TOP + row * CARD_HEIGHT;
+        doc.rect(x, y, CARD_WIDTH, CARD_HEIGHT);
+        doc.setTextColor(0, 0, 0);
+        writeCardFace(doc, side === 'front' ? card.front : card.back, x, y, side === 'front' ? 'bold' : 'normal');
+        doc.setFontSize(6);
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(...MUTED_COLOR);
+        doc.text(`${sheet * perSheet + i + 1}`, x + CARD_WIDTH - 3, y + CARD_HEIGHT - 3, { align: 'right' });
+      });
+      doc.setLineDashPattern([], 0);
+    });
+  }
+  doc.setTextColor(0, 0, 0);
+};
+
+// Running header on every page but the first, and "Page X of Y" on all.
+const addHeadersAndFooters = (doc: jsPDF, note: SmartNotes, layout: PdfLayout) => {
+  const total = doc.getNumberOfPages();
+  const title = doc.splitTextToSize(note.title || 'Lecture Notes', CONTENT_WIDTH * 0.7)[0];
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(...MUTED_COLOR);
+    doc.setDrawColor(226, 232, 240);
+    if (page > 1 || layout === 'cut-sheets') {
+      doc.text(title, MARGIN, 14);
+      doc.text(LAYOUT_LABELS[layout], PAGE_WIDTH - MARGIN, 14, { align: 'right' });
+      doc.line(MARGIN, 16, PAGE_WIDTH - MARGIN, 16);
+    }
+    doc.line(MARGIN, PAGE_HEIGHT - 14, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 14);
+    doc.text('SmartNotes AI', MARGIN, PAGE_HEIGHT - 9);
+    doc.text(`Page ${page} of ${total}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 9, { align: 'right' });
+  }
+  doc.setTextColor(0, 0, 0);
+};
+
+export const generatePDF = (note: SmartNotes, options: PdfOptions = DEFAULT_PDF_OPTIONS, course?: Course): { blob: Blob; filename: string } => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: note.title, subject: LAYOUT_LABELS[options.layout], creator: 'SmartNotes AI' });
+
+  if (options.layout === 'exam') buildExam(doc, note, course);
+  else if (options.layout === 'cut-sheets') buildCutSheets(doc, note, options);
+  else buildStudyGuide(doc, note, options, course);
+
+  addHeadersAndFooters(doc, note, options.layout);
+  return {
+    blob: doc.output('blob'),
+    filename: `${safeFilename(note.title)}_${options.layout}.pdf`
+  };
 };
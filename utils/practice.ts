@@ -0,0 +1,80 @@
+import { Flashcard, QuizItem, SmartNotes } from "../types";
+import { questionType } from "./quizGrading";
+
+// Cards whose last review was one of these still need work.
+const WEAK_GRADES = ['again', 'hard'];
+
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/**
+ * The question with its options in a new order. True/false keeps its fixed
+ * order; answers are option text, so grading is unaffected.
+ */
+export const shuffleOptions = (item: QuizItem, random: () => number = Math.random): QuizItem => {
+  const type = questionType(item);
+  if (type !== 'multiple-choice' && type !== 'multi-select') return item;
+  return { ...item, options: shuffle(item.options, random) };
+};
+
+export type PracticeItem =
+  | { kind: 'question'; noteId: string; item: QuizItem; variant: boolean }
+  | { kind: 'card'; noteId: string; card: Flashcard };
+
+export interface WeakSpots {
+  questions: Extract<PracticeItem, { kind: 'question' }>[];
+  cards: Extract<PracticeItem, { kind: 'card' }>[];
+}
+
+/**
+ * Every question whose latest answer was wrong and every card last graded
+ * "again" or "hard", across the vault. Answering a question right or
+ * grading a card higher later takes it off the list.
+ */
+export const collectWeakSpots = (notes: SmartNotes[]): WeakSpots => {
+  const questions: WeakSpots['questions'] = [];
+  const cards: WeakSpots['cards'] = [];
+  notes.forEach(note => {
+    const latest = new Map<string, boolean>();
+    [...(note.quizAttempts || [])]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(attempt => attempt.results.forEach(r => latest.set(r.question, r.correct)));
+    (note.quiz || []).forEach(item => {
+      if (latest.get(item.question) === false) questions.push({ kind: 'question', noteId: note.id, item, variant: false });
+    });
+    (note.flashcards || []).forEach(card => {
+      if (card.schedule?.lastGrade && WEAK_GRADES.includes(card.schedule.lastGrade)) {
+        cards.push({ kind: 'card', noteId: note.id, card });
+      }
+    });
+  });
+  return { questions, cards };
+};
+
+/**
+ * A practice run of at most `limit` items, drawn evenly from missed
+ * questions, their variants and weak cards, in random order with every
+ * question's options reshuffled.
+ */
+export const buildPracticeSession = (
+  weak: WeakSpots,
+  variants: Extract<PracticeItem, { kind: 'question' }>[],
+  limit: number = 20,
+  random: () => number = Math.random
+): PracticeItem[] => {
+  const pools = [weak.questions, variants, weak.cards].map(pool => shuffle<PracticeItem>(pool, random));
+  const picked: PracticeItem[] = [];
+  // Round-robin, so one large pool can't crowd out the others.
+  while (picked.length < limit && pools.some(pool => pool.length > 0)) {
+    pools.forEach(pool => {
+      if (picked.length < limit && pool.length > 0) picked.push(pool.shift()!);
+    });
+  }
+  return shuffle(picked, random).map(p => (p.kind === 'question' ? { ...p, item: shuffleOptions(p.item, random) } : p));
+};
@@ -0,0 +1,57 @@
+import { QuestionType, QuizAttempt, QuizItem } from "../types";
+import { normalize } from "./concepts";
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True or false',
+  'multi-select': 'Select all that apply',
+  'short-answer': 'Short answer',
+  'cloze': 'Fill in the blanks'
+};
+
+export const CLOZE_BLANK = /_{3,}/g;
+
+export const questionType = (item: QuizItem): QuestionType => item.type ?? 'multiple-choice';
+
+export const matchesBlank = (given: string, expected: string) => normalize(given) === normalize(expected);
+
+const sameSet = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(x => b.includes(x));
+
+/**
+ * Grades everything that can be checked locally. Short answers need the
+ * model; without one they fall back to a normalised exact match.
+ */
+export const gradeResponse = (item: QuizItem, response: string[]): boolean => {
+  switch (questionType(item)) {
+    case 'multi-select':
+      return sameSet(response, item.answers || [item.answer]);
+    case 'cloze': {
+      const blanks = item.answers || [];
+      return blanks.length > 0 && blanks.every((word, i) => matchesBlank(response[i] || '', word));
+    }
+    case 'short-answer':
+      return matchesBlank(response[0] || '', item.answer);
+    default:
+      return response[0] === item.answer;
+  }
+};
+
+export const isResponseComplete = (item: QuizItem, response: string[]): boolean => {
+  if (questionType(item) === 'cloze') {
+    const blanks = item.question.match(CLOZE_BLANK)?.length || 0;
+    return blanks > 0 && [...Array(blanks).keys()].every(i => !!response[i]?.trim());
+  }
+  return response.some(r => r.trim());
+};
+
+/** Indices into `quiz` of the questions answered wrongly in `attempt`. */
+export const missedQuestions = (quiz: QuizItem[], attempt: QuizAttempt): number[] => {
+  const missed = new Set(attempt.results.filter(r => !r.correct).map(r => r.question));
+  return quiz.map((q, i) => (missed.has(q.question) ? i : -1)).filter(i => i >= 0);
+};
+
+export const attemptScore = (attempt: QuizAttempt) => ({
+  correct: attempt.results.filter(r => r.correct).length,
+  total: attempt.results.length
+});
@@ -0,0 +1,61 @@
+import { Flashcard } from "../types";
+import { DeckCard } from "./deck";
+
+export type QuizletFormat = 'tsv' | 'csv';
+
+const csvField = (text: string) => (/[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+// Quizlet's tab-separated import reads one card per line, so line breaks
+// inside a side are flattened.
+const tsvField = (text: string) => text.replace(/\t/g, ' ').replace(/\r?\n/g, ' / ');
+
+/** Term/definition rows in the layout Quizlet's "Import" box accepts. */
+export const buildQuizletExport = (cards: DeckCard[], format: QuizletFormat): string =>
+  cards
+    .map(c => (format === 'csv' ? `${csvField(c.front)},${csvField(c.back)}` : `${tsvField(c.front)}\t${tsvField(c.back)}`))
+    .join('\n') + '\n';
+
+// RFC 4180 rows, honouring quoted fields that contain separators or newlines.
+const parseDelimited = (text: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === separator) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+/**
+ * Reads a Quizlet (or any two-column) TSV/CSV export. `.csv` files are
+ * comma-separated; anything else is tab-separated if its first line has a tab.
+ */
+export const parseQuizletExport = (text: string, filename: string = ''): Pick<Flashcard, 'front' | 'back'>[] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const separator = !/\.csv$/i.test(filename) && firstLine.includes('\t') ? '\t' : ',';
+  const cards = parseDelimited(text.replace(/^\uFEFF/, ''), separator)
+    .filter(row => row.length >= 2 && row[0].trim() && row[1].trim())
+    .map(([front, back]) => ({ front: front.trim(), back: back.trim() }));
+  if (cards.length === 0) throw new Error("No term/definition pairs were found in this file.");
+  return cards;
+};
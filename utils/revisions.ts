@@ -0,0 +1,164 @@
+import { NoteContent, NoteRevision, QuizItem, RevisionAuthor, SmartNotes } from "../types";
+import { linkConcepts } from "./transcript";
+
+// The generated revision is always kept; after it, only the latest ones.
+const MAX_REVISIONS = 50;
+
+export type ContentField = keyof NoteContent;
+
+export const CONTENT_FIELD_LABELS: Record<ContentField, string> = {
+  title: 'Title',
+  summary: 'Summary',
+  keyConcepts: 'Key concepts',
+  actionItems: 'Action items',
+  quiz: 'Quiz',
+  flashcards: 'Flashcards'
+};
+
+const FIELDS = Object.keys(CONTENT_FIELD_LABELS) as ContentField[];
+
+export const noteContent = (note: SmartNotes): NoteContent => ({
+  title: note.title,
+  summary: note.summary,
+  keyConcepts: [...note.keyConcepts],
+  actionItems: note.actionItems.map(({ id, text, due }) => ({ id, text, ...(due && { due }) })),
+  quiz: [...(note.quiz || [])],
+  flashcards: (note.flashcards || []).map(({ front, back }) => ({ front, back }))
+});
+
+const sameField = (a: NoteContent, b: NoteContent, field: ContentField) =>
+  JSON.stringify(a[field]) === JSON.stringify(b[field]);
+
+/** Fields whose content differs between two snapshots. */
+export const changedFields = (a: NoteContent, b: NoteContent): ContentField[] =>
+  FIELDS.filter(field => !sameField(a, b, field));
+
+export const createRevision = (content: NoteContent, author: RevisionAuthor, label: string, timestamp: number = Date.now()): NoteRevision => ({
+  id: crypto.randomUUID(),
+  timestamp,
+  author,
+  label,
+  content
+});
+
+// Notes saved before revisions existed start from their content as it was,
+// which is the model's output plus any card imports.
+const revisionsOf = (note: SmartNotes): NoteRevision[] =>
+  note.revisions && note.revisions.length > 0
+    ? note.revisions
+    : [createRevision(noteContent(note), 'ai', 'Generated', note.timestamp)];
+
+/**
+ * Records `next` as a new revision of `previous`. Nothing is added when the
+ * content did not change, so review-only updates can go through here too.
+ */
+export const commitRevision = (previous: SmartNotes, next: SmartNotes, author: RevisionAuthor, label: string): SmartNotes => {
+  const revisions = revisionsOf(previous);
+  const content = noteContent(next);
+  if (changedFields(revisions[revisions.length - 1].content, content).length === 0) return { ...next, revisions };
+  const added = [...revisions, createRevision(content, author, label)];
+  return {
+    ...next,
+    revisions: added.length > MAX_REVISIONS ? [added[0], ...added.slice(added.length - MAX_REVISIONS + 1)] : added
+  };
+};
+
+/**
+ * Writes content into a note. Review state is carried over where the item
+ * still exists: action items by id, card schedules by card front.
+ */
+export const applyContent = (note: SmartNotes, content: NoteContent): SmartNotes => {
+  const items = new Map(note.actionItems.map(a => [a.id, a]));
+  const schedules = new Map((note.flashcards || []).map(c => [c.front, c.schedule]));
+  return {
+    ...note,
+    title: content.title,
+    summary: content.summary,
+    keyConcepts: content.keyConcepts,
+    actionItems: content.actionItems.map(a => ({ ...a, done: items.get(a.id)?.done ?? false, noteId: note.id })),
+    quiz: content.quiz,
+    flashcards: content.flashcards.map(c => {
+      const schedule = schedules.get(c.front);
+      return schedule ? { ...c, schedule } : { ...c };
+    }),
+    ...(note.segments && { conceptSegments: linkConcepts(content.keyConcepts, note.segments) })
+  };
+};
+
+/**
+ * Who last changed each field. A field the model wrote and nobody touched
+ * since is 'ai'; one a person edited (or restored) is 'user'.
+ */
+export const fieldAuthors = (note: SmartNotes): Record<ContentField, RevisionAuthor> => {
+  const revisions = revisionsOf(note);
+  const authors = Object.fromEntries(FIELDS.map(field => [field, revisions[0].author])) as Record<ContentField, RevisionAuthor>;
+  revisions.slice(1).forEach((revision, i) => {
+    changedFields(revisions[i].content, revision.content).forEach(field => { authors[field] = revision.author; });
+  });
+  return authors;
+};
+
+export type DiffPart = { kind: 'same' | 'added' | 'removed'; text: string };
+
+// Word-level LCS diff; notes fields are short enough for the quadratic table.
+export const diffText = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart['kind'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push('same', a[i]); i++; j++; }
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) push('removed', a[i++]);
+    else push('added', b[j++]);
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+const quizLine = (q: QuizItem) => `${q.question} → ${q.answer}`;
+
+// One line per list item, so list changes show as added and removed lines.
+const fieldLines = (content: NoteContent, field: ContentField): string[] => {
+  switch (field) {
+    case 'title': return [content.title];
+    case 'summary': return [content.summary];
+    case 'keyConcepts': return content.keyConcepts;
+    case 'actionItems': return content.actionItems.map(a => (a.due ? `${a.text} (due ${a.due})` : a.text));
+    case 'quiz': return content.quiz.map(quizLine);
+    case 'flashcards': return content.flashcards.map(c => `${c.front} — ${c.back}`);
+  }
+};
+
+export interface FieldDiff {
+  field: ContentField;
+  // Word diff for title and summary; line diff for lists.
+  parts: DiffPart[];
+}
+
+/** What changed between two snapshots, field by field. */
+export const diffContent = (before: NoteContent, after: NoteContent): FieldDiff[] =>
+  changedFields(before, after).map(field => {
+    if (field === 'title' || field === 'summary') return { field, parts: diffText(before[field], after[field]) };
+    const old = fieldLines(before, field);
+    const now = fieldLines(after, field);
+    return {
+      field,
+      parts: [
+        ...old.filter(line => !now.includes(line)).map(text => ({ kind: 'removed' as const, text })),
+        ...now.filter(line => !old.includes(line)).map(text => ({ kind: 'added' as const, text }))
+      ]
+    };
+  });
@@ -0,0 +1,203 @@
+import { SmartNotes } from "../types";
+
+export type SearchField = 'title' | 'tags' | 'summary' | 'keyConcepts' | 'annotations' | 'actionItems' | 'transcription';
+
+const FIELDS: { field: SearchField; weight: number; extract: (note: SmartNotes) => string }[] = [
+  { field: 'title', weight: 5, extract: n => n.title || '' },
+  { field: 'tags', weight: 4, extract: n => (n.tags || []).join('\n') },
+  { field: 'keyConcepts', weight: 3, extract: n => (n.keyConcepts || []).join('\n') },
+  { field: 'annotations', weight: 3, extract: n => (n.annotations || []).map(a => [a.anchor.quote, a.note].filter(Boolean).join('\n')).join('\n') },
+  { field: 'summary', weight: 2, extract: n => n.summary || '' },
+  { field: 'actionItems', weight: 1.5, extract: n => (n.actionItems || []).map(a => a.text).join('\n') },
+  { field: 'transcription', weight: 1, extract: n => n.transcription || '' }
+];
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  title: 'Title',
+  tags: 'Tags',
+  summary: 'Summary',
+  keyConcepts: 'Concepts',
+  annotations: 'Annotations',
+  actionItems: 'To-do',
+  transcription: 'Transcript'
+};
+
+// Fields snippets are cut from, in order of preference when scores tie.
+const SNIPPET_FIELDS: SearchField[] = ['summary', 'keyConcepts', 'annotations', 'actionItems', 'transcription', 'tags', 'title'];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'with'
+]);
+
+const SNIPPET_RADIUS = 80;
+
+// Course filter value matching notes that are not in any course.
+export const UNFILED_COURSE = '__unfiled__';
+
+export interface SearchFilters {
+  courseId?: string;
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string;   // yyyy-mm-dd, inclusive
+  hasQuiz?: boolean;
+  hasFlashcards?: boolean;
+  hasSources?: boolean;
+}
+
+export interface Snippet {
+  field: SearchField;
+  text: string;
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  note: SmartNotes;
+  score: number;
+  snippet?: Snippet;
+}
+
+interface Posting {
+  noteId: string;
+  field: SearchField;
+  tf: number;
+}
+
+export interface SearchIndex {
+  notes: Map<string, SmartNotes>;
+  postings: Map<string, Posting[]>;
+  terms: string[];
+}
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+export const buildSearchIndex = (notes: SmartNotes[]): SearchIndex => {
+  const postings = new Map<string, Posting[]>();
+  notes.forEach(note => {
+    FIELDS.forEach(({ field, extract }) => {
+      const counts = new Map<string, number>();
+      tokenize(extract(note)).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+      counts.forEach((tf, term) => {
+        const list = postings.get(term) || [];
+        list.push({ noteId: note.id, field, tf });
+        postings.set(term, list);
+      });
+    });
+  });
+  return {
+    notes: new Map(notes.map(n => [n.id, n])),
+    postings,
+    terms: [...postings.keys()].sort()
+  };
+};
+
+// The term being typed is matched as a prefix so results show up while typing.
+const expandTerm = (index: SearchIndex, term: string, isPrefix: boolean): string[] => {
+  if (!isPrefix) return index.postings.has(term) ? [term] : [];
+  return index.terms.filter(t => t.startsWith(term));
+};
+
+const dayBoundary = (date: string, endOfDay: boolean) => {
+  const d = new Date(`${date}T00:00:00`);
+  if (endOfDay) d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+export const matchesFilters = (note: SmartNotes, filters: SearchFilters) => {
+  if (filters.courseId === UNFILED_COURSE ? !!note.courseId : filters.courseId && note.courseId !== filters.courseId) return false;
+  if (filters.from && note.timestamp < dayBoundary(filters.from, false)) return false;
+  if (filters.to && note.timestamp > dayBoundary(filters.to, true)) return false;
+  if (filters.hasQuiz && !note.quiz?.length) return false;
+  if (filters.hasFlashcards && !note.flashcards?.length) return false;
+  if (filters.hasSources && !note.sources?.length) return false;
+  return true;
+};
+
+const findHighlights = (text: string, queryTerms: string[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text))) {
+    const word = match[0].toLowerCase();
+    if (queryTerms.some(t => word.startsWith(t))) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+  return ranges;
+};
+
+const buildSnippet = (note: SmartNotes, queryTerms: string[], bestField?: SearchField): Snippet | undefined => {
+  const order = bestField ? [bestField, ...SNIPPET_FIELDS.filter(f => f !== bestField)] : SNIPPET_FIELDS;
+  for (const field of order) {
+    const text = FIELDS.find(f => f.field === field)!.extract(note);
+    const highlights = findHighlights(text, queryTerms);
+    if (highlights.length === 0) continue;
+
+    const start = Math.max(0, highlights[0][0] - SNIPPET_RADIUS);
+    const end = Math.min(text.length, highlights[0][1] + SNIPPET_RADIUS);
+    const excerpt = (start > 0 ? '…' : '') + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+    return { field, text: excerpt, highlights: findHighlights(excerpt, queryTerms) };
+  }
+  return undefined;
+};
+
+/**
+ * Ranked full-text search over the vault. Every query term must match
+ * (the last one as a prefix); each match scores idf × field weight with a
+ * saturating term frequency so long transcriptions don't drown out titles.
+ * An empty query returns every note passing the filters, newest first.
+ */
+export const searchNotes = (index: SearchIndex, query: string, filters: SearchFilters = {}): SearchResult[] => {
+  const candidates = [...index.notes.values()].filter(n => matchesFilters(n, filters));
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) {
+    return candidates
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(note => ({ note, score: 0 }));
+  }
+
+  const allowed = new Set(candidates.map(n => n.id));
+  const total = Math.max(1, index.notes.size);
+  let scores: Map<string, { score: number; fieldScores: Map<SearchField, number> }> | null = null;
+
+  queryTerms.forEach((term, i) => {
+    const termScores = new Map<string, { score: number; fieldScores: Map<SearchField, number> }>();
+    expandTerm(index, term, i === queryTerms.length - 1).forEach(expanded => {
+      const postings = index.postings.get(expanded) || [];
+      const docFreq = new Set(postings.map(p => p.noteId)).size;
+      const idf = Math.log(1 + total / docFreq);
+      postings.forEach(({ noteId, field, tf }) => {
+        if (!allowed.has(noteId)) return;
+        const weight = FIELDS.find(f => f.field === field)!.weight;
+        const value = idf * weight * (tf / (tf + 1.2));
+        const entry = termScores.get(noteId) || { score: 0, fieldScores: new Map() };
+        entry.score += value;
+        entry.fieldScores.set(field, (entry.fieldScores.get(field) || 0) + value);
+        termScores.set(noteId, entry);
+      });
+    });
+
+    if (scores === null) {
+      scores = termScores;
+      return;
+    }
+    const merged = new Map<string, { score: number; fieldScores: Map<SearchField, number> }>();
+    scores.forEach((entry, noteId) => {
+      const next = termScores.get(noteId);
+      if (!next) return;
+      next.fieldScores.forEach((v, f) => entry.fieldScores.set(f, (entry.fieldScores.get(f) || 0) + v));
+      merged.set(noteId, { score: entry.score + next.score, fieldScores: entry.fieldScores });
+    });
+    scores = merged;
+  });
+
+  return [...(scores || new Map()).entries()]
+    .map(([noteId, { score, fieldScores }]) => {
+      const note = index.notes.get(noteId)!;
+      const bestField = SNIPPET_FIELDS
+        .filter(f => f !== 'title' && fieldScores.has(f))
+        .sort((a, b) => fieldScores.get(b)! - fieldScores.get(a)!)[0];
+      return { note, score, snippet: buildSnippet(note, queryTerms, bestField) };
+    })
+    .sort((a, b) => b.score - a.score || b.note.timestamp - a.note.timestamp);
+};
@@ -0,0 +1,102 @@
+import { CardSchedule, DueCard, Flashcard, ReviewGrade, SmartNotes } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+// SM-2 response quality (0-5) for each button in the review UI.
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export const newSchedule = (now: number = Date.now()): CardSchedule => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  due: now
+});
+
+const endOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+/**
+ * Applies one SM-2 review to a card schedule. "Again" resets the card and
+ * brings it back within the same session; the other grades grow the interval
+ * by the card's ease factor, with "hard" and "easy" damping or boosting it.
+ */
+export const scheduleReview = (
+  schedule: CardSchedule | undefined,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): CardSchedule => {
+  const current = schedule || newSchedule(now);
+  const q = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, current.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  if (grade === 'again') {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      due: now + RELEARN_DELAY_MS,
+      lastReviewed: now,
+      lastGrade: grade
+    };
+  }
+
+  let interval: number;
+  if (current.repetitions === 0) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (current.repetitions === 1) {
+    interval = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+  } else if (grade === 'hard') {
+    interval = current.interval * 1.2;
+  } else if (grade === 'easy') {
+    interval = current.interval * ease * 1.3;
+  } else {
+    interval = current.interval * ease;
+  }
+  interval = Math.max(1, Math.round(interval));
+
+  return {
+    ease,
+    interval,
+    repetitions: current.repetitions + 1,
+    due: now + interval * DAY_MS,
+    lastReviewed: now,
+    lastGrade: grade
+  };
+};
+
+export const isCardDue = (card: Flashcard, now: number = Date.now()) =>
+  !card.schedule || card.schedule.due <= endOfDay(now);
+
+/**
+ * Collects every card due by the end of today across the whole vault,
+ * most overdue first. Cards that have never been reviewed count as due.
+ */
+export const collectDueCards = (history: SmartNotes[], now: number = Date.now()): DueCard[] => {
+  const due: DueCard[] = [];
+  history.forEach(note => {
+    (note.flashcards || []).forEach((card, cardIndex) => {
+      if (isCardDue(card, now)) {
+        due.push({ noteId: note.id, noteTitle: note.title, cardIndex, card });
+      }
+    });
+  });
+  return due.sort((a, b) => (a.card.schedule?.due ?? 0) - (b.card.schedule?.due ?? 0));
+};
+
+export const formatInterval = (days: number) => {
+  if (days <= 0) return '<10m';
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
@@ -0,0 +1,221 @@
+import { CardSchedule, ConceptEntity, SmartNotes, StudyEvent, StudyEventKind } from "../types";
+import { fromISODate, toISODate } from "./actionItems";
+import { conceptKey, normalize } from "./concepts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A single card or question left open longer than this was not being studied.
+export const MAX_ITEM_MS = 2 * 60 * 1000;
+// SM-2 sets each interval so a card comes due at roughly this chance of recall.
+const RECALL_AT_DUE = 0.9;
+
+export interface Accuracy {
+  correct: number;
+  total: number;
+}
+
+export const accuracyRate = ({ correct, total }: Accuracy) => (total > 0 ? correct / total : 0);
+
+// Starts every tally at one right and one wrong, so a topic answered once
+// isn't ranked weakest or strongest on that alone.
+const smoothedRate = ({ correct, total }: Accuracy) => (correct + 1) / (total + 2);
+
+interface Outcome {
+  noteId?: string;
+  // Question, or card front.
+  prompt: string;
+  kind: 'quiz' | 'review';
+  correct: boolean;
+}
+
+// Every answered question and reviewed card. Only "again" counts as a
+// failed review; "hard" was still recalled.
+const outcomes = (events: StudyEvent[]): Outcome[] => events.flatMap<Outcome>(e =>
+  e.kind === 'quiz' ? e.results.map(r => ({ noteId: e.noteId, prompt: r.question, kind: 'quiz', correct: r.correct }))
+  : e.kind === 'review' ? [{ noteId: e.noteId, prompt: e.card, kind: 'review', correct: e.grade !== 'again' }]
+  : []
+);
+
+const tally = (into: Accuracy, correct: boolean) => {
+  into.total++;
+  if (correct) into.correct++;
+};
+
+export interface NoteAccuracy extends Accuracy {
+  noteId: string;
+  quiz: Accuracy;
+  recall: Accuracy;
+}
+
+/** Quiz and flashcard accuracy for each note studied, weakest first. */
+export const accuracyByNote = (events: StudyEvent[]): NoteAccuracy[] => {
+  const byNote = new Map<string, NoteAccuracy>();
+  outcomes(events).forEach(o => {
+    if (!o.noteId) return;
+    const entry = byNote.get(o.noteId) || { noteId: o.noteId, correct: 0, total: 0, quiz: { correct: 0, total: 0 }, recall: { correct: 0, total: 0 } };
+    tally(entry, o.correct);
+    tally(o.kind === 'quiz' ? entry.quiz : entry.recall, o.correct);
+    byNote.set(o.noteId, entry);
+  });
+  return [...byNote.values()].sort((a, b) => smoothedRate(a) - smoothedRate(b));
+};
+
+export interface ConceptAccuracy extends Accuracy {
+  key: string;
+  term: string;
+}
+
+// Whole-word containment on normalised text.
+const mentions = (text: string, key: string) => ` ${text} `.includes(` ${key} `);
+
+/**
+ * Accuracy per concept. A question or card counts towards each of its
+ * note's key terms that appear in it or in its answer.
+ */
+export const accuracyByConcept = (events: StudyEvent[], notes: SmartNotes[], index: Map<string, ConceptEntity>): ConceptAccuracy[] => {
+  const byId = new Map(notes.map(n => [n.id, n]));
+  const byConcept = new Map<string, ConceptAccuracy>();
+  outcomes(events).forEach(o => {
+    const note = o.noteId ? byId.get(o.noteId) : undefined;
+    if (!note) return;
+    const answer = o.kind === 'quiz'
+      ? note.quiz?.find(q => q.question === o.prompt)?.answer
+      : note.flashcards?.find(c => c.front === o.prompt)?.back;
+    const text = normalize(`${o.prompt} ${answer || ''}`);
+    new Set(note.keyConcepts.map(conceptKey)).forEach(key => {
+      if (!key || !mentions(text, key)) return;
+      const entry = byConcept.get(key) || { key, term: index.get(key)?.term || key, correct: 0, total: 0 };
+      tally(entry, o.correct);
+      byConcept.set(key, entry);
+    });
+  });
+  return [...byConcept.values()].sort((a, b) => smoothedRate(a) - smoothedRate(b));
+};
+
+/** The concepts most often got wrong, among those answered at least `minAnswers` times. */
+export const weakestTopics = (concepts: ConceptAccuracy[], minAnswers: number = 3, limit: number = 5) =>
+  concepts.filter(c => c.total >= minAnswers && c.correct < c.total).slice(0, limit);
+
+export interface Streak {
+  // Consecutive days up to today, or up to yesterday if nothing yet today.
+  current: number;
+  longest: number;
+  studiedToday: boolean;
+}
+
+export const studyStreak = (events: StudyEvent[], now: number = Date.now()): Streak => {
+  const days = new Set(events.map(e => toISODate(new Date(e.timestamp))));
+  const shift = (iso: string, by: number) => {
+    const d = fromISODate(iso);
+    d.setDate(d.getDate() + by);
+    return toISODate(d);
+  };
+  const today = toISODate(new Date(now));
+  const studiedToday = days.has(today);
+  let current = 0;
+  for (let day = studiedToday ? today : shift(today, -1); days.has(day); day = shift(day, -1)) current++;
+
+  let longest = 0;
+  days.forEach(day => {
+    if (days.has(shift(day, -1))) return;
+    let length = 1;
+    while (days.has(shift(day, length))) length++;
+    longest = Math.max(longest, length);
+  });
+  return { current, longest, studiedToday };
+};
+
+export interface DailyTime {
+  day: string; // YYYY-MM-DD
+  minutes: Record<StudyEventKind, number>;
+}
+
+/** Minutes spent on each kind of study per day, for the last `days` days, oldest first. */
+export const timeOnTask = (events: StudyEvent[], days: number = 14, now: number = Date.now()): DailyTime[] => {
+  const series: DailyTime[] = [];
+  const date = new Date(now);
+  date.setDate(date.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    series.push({ day: toISODate(date), minutes: { quiz: 0, review: 0, focus: 0 } });
+    date.setDate(date.getDate() + 1);
+  }
+  const byDay = new Map(series.map(d => [d.day, d]));
+  events.forEach(e => {
+    const entry = byDay.get(toISODate(new Date(e.timestamp)));
+    if (entry) entry.minutes[e.kind] += e.durationMs / 60000;
+  });
+  return series;
+};
+
+/**
+ * Estimated chance of recalling a reviewed card at `at`, decaying
+ * exponentially from the last review so that it reaches the SM-2 target at
+ * the due date. Cards never reviewed have no estimate.
+ */
+export const recallProbability = (schedule: CardSchedule | undefined, at: number): number | null => {
+  if (!schedule?.lastReviewed) return null;
+  const span = Math.max(schedule.due - schedule.lastReviewed, 60 * 1000);
+  return Math.pow(RECALL_AT_DUE, Math.max(0, at - schedule.lastReviewed) / span);
+};
+
+export interface RetentionPoint {
+  day: string; // YYYY-MM-DD
+  // Average recall over reviewed cards at the end of the day.
+  retention: number;
+  // Cards coming due that day; today includes overdue cards.
+  due: number;
+}
+
+/** Expected retention and review load for the next `days` days, starting today. */
+export const retentionForecast = (notes: SmartNotes[], days: number = 14, now: number = Date.now()): RetentionPoint[] => {
+  const cards = notes.flatMap(n => n.flashcards || []);
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  const points: RetentionPoint[] = [];
+  for (let i = 0; i < days; i++) {
+    const end = date.getTime();
+    const recalls = cards.map(c => recallProbability(c.schedule, end)).filter((r): r is number => r !== null);
+    points.push({
+      day: toISODate(date),
+      retention: recalls.length > 0 ? recalls.reduce((sum, r) => sum + r, 0) / recalls.length : 0,
+      due: cards.filter(c => {
+        const due = c.schedule?.due ?? now;
+        return due <= end && (i === 0 || due > end - DAY_MS);
+      }).length
+    });
+    date.setDate(date.getDate() + 1);
+  }
+  return points;
+};
+
+export interface ReviewPriority {
+  note: SmartNotes;
+  // Average expected recall of the note's reviewed cards at the exam.
+  retention: number | null;
+  // Share of the note's questions and cards answered right so far.
+  accuracy: number | null;
+  // Lower needs review sooner.
+  readiness: number;
+}
+
+/**
+ * Notes to revise before `examDate`, least ready first: readiness blends how
+ * much of each note's cards are likely to be remembered on the day with how
+ * well its questions have gone. Notes never studied come first.
+ */
+export const reviewPriorities = (notes: SmartNotes[], events: StudyEvent[], examDate: number): ReviewPriority[] => {
+  const accuracy = new Map(accuracyByNote(events).map(a => [a.noteId, a]));
+  return notes
+    .map(note => {
+      const recalls = (note.flashcards || []).map(c => recallProbability(c.schedule, examDate)).filter((r): r is number => r !== null);
+      const retention = recalls.length > 0 ? recalls.reduce((sum, r) => sum + r, 0) / recalls.length : null;
+      const answered = accuracy.get(note.id);
+      const known = [retention, answered ? smoothedRate(answered) : null].filter((v): v is number => v !== null);
+      return {
+        note,
+        retention,
+        accuracy: answered ? accuracyRate(answered) : null,
+        readiness: known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : 0
+      };
+    })
+    .sort((a, b) => a.readiness - b.readiness);
+};
@@ -0,0 +1,72 @@
+import { TranscriptSegment } from "../types";
+import { ProcessingError } from "./errors";
+
+// Cues are merged into sentence-sized segments, but never past this length.
+const MAX_SEGMENT_CHARS = 300;
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+// "01:02:03,456", "02:03.456" or "02:03"
+const parseTime = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h = '0', m, s, ms = '0'] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, '0')) / 1000;
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+const parseCues = (text: string): Cue[] => {
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: Cue[] = [];
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(l => l.trim());
+    const timing = lines.findIndex(l => l.includes('-->'));
+    if (timing < 0) return; // header, NOTE, STYLE or REGION blocks
+    const [from, to] = lines[timing].split('-->');
+    const start = parseTime(from);
+    // VTT cue settings ("align:start line:0") follow the end time.
+    const end = parseTime(to.trim().split(/\s+/)[0]);
+    if (start === null || end === null) return;
+    const raw = lines.slice(timing + 1).join(' ');
+    const speaker = raw.match(/<v(?:\.[\w.]+)?\s+([^>]+)>/)?.[1]?.trim();
+    const cueText = decodeEntities(raw.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '')).replace(/\s+/g, ' ').trim();
+    if (cueText) cues.push({ start, end, text: cueText, ...(speaker && { speaker }) });
+  });
+  return cues;
+};
+
+/**
+ * Reads an SRT or WebVTT file into timed transcript segments. Subtitle cues
+ * break mid-sentence, so consecutive cues from the same speaker are joined
+ * until a sentence ends.
+ */
+export const parseSubtitles = (text: string, idPrefix: string = 's'): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  let current: Cue | null = null;
+  const flush = () => {
+    if (!current) return;
+    segments.push({
+      id: `${idPrefix}${segments.length}`,
+      text: current.text,
+      start: current.start,
+      end: current.end,
+      ...(current.speaker && { speaker: current.speaker })
+    });
+    current = null;
+  };
+  parseCues(text).forEach(cue => {
+    if (current && (cue.speaker !== current.speaker || current.text.length + cue.text.length > MAX_SEGMENT_CHARS)) flush();
+    current = current ? { ...current, end: cue.end, text: `${current.text} ${cue.text}` } : { ...cue };
+    if (/[.!?…]["')\]]?$/.test(current.text)) flush();
+  });
+  flush();
+  if (segments.length === 0) throw new ProcessingError('unsupported', "No subtitle cues were found in this file.");
+  return segments;
+};
@@ -0,0 +1,46 @@
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Lower-cases and collapses whitespace/quote styles, keeping a map from each
+// normalised character back to its offset in the original string.
+const normalizeWithMap = (text: string) => {
+  let normalized = '';
+  const map: number[] = [];
+  let lastWasSpace = false;
+  for (let i = 0; i < text.length; i++) {
+    let ch = text[i].toLowerCase();
+    if (/\s/.test(ch)) {
+      if (lastWasSpace) continue;
+      ch = ' ';
+      lastWasSpace = true;
+    } else {
+      lastWasSpace = false;
+      if (/[‘’]/.test(ch)) ch = "'";
+      if (/[“”]/.test(ch)) ch = '"';
+    }
+    normalized += ch;
+    map.push(i);
+  }
+  return { normalized, map };
+};
+
+/**
+ * Finds `quote` in `text`, tolerating differences in case, whitespace and
+ * curly quotes. Returns offsets into the original `text`, or null.
+ */
+export const findQuote = (text: string, quote: string, fromIndex: number = 0): TextRange | null => {
+  const trimmed = quote.trim().replace(/^["“'…]+|["”'…]+$/g, '').trim();
+  if (!trimmed) return null;
+
+  const exact = text.indexOf(trimmed, fromIndex);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const hay = normalizeWithMap(text);
+  const needle = normalizeWithMap(trimmed).normalized;
+  const from = hay.map.findIndex(i => i >= fromIndex);
+  const at = hay.normalized.indexOf(needle, Math.max(0, from));
+  if (at === -1) return null;
+  return { start: hay.map[at], end: hay.map[at + needle.length - 1] + 1 };
+};
@@ -0,0 +1,41 @@
+import { TranscriptSegment } from "../types";
+import { conceptKey, normalize, splitConcept } from "./concepts";
+import { TextRange } from "./textMatch";
+
+const SEPARATOR = '\n';
+
+/** The plain transcription for a list of segments; offsets match `segmentRanges`. */
+export const joinSegments = (segments: TranscriptSegment[]) =>
+  segments.map(s => s.text).join(SEPARATOR);
+
+/** Where each segment's text sits inside `joinSegments(segments)`. */
+export const segmentRanges = (segments: TranscriptSegment[]): TextRange[] => {
+  let cursor = 0;
+  return segments.map(s => {
+    const range = { start: cursor, end: cursor + s.text.length };
+    cursor = range.end + SEPARATOR.length;
+    return range;
+  });
+};
+
+/** The segment playing at `time`, if any. */
+export const segmentAt = (segments: TranscriptSegment[], time: number) =>
+  segments.find(s => s.start !== undefined && s.start <= time && (s.end === undefined || time < s.end));
+
+/**
+ * Links each key concept to the first segment mentioning its term. Done
+ * locally rather than by the model so links always point at real text.
+ */
+export const linkConcepts = (keyConcepts: string[], segments: TranscriptSegment[]): Record<string, string> => {
+  const normalized = segments.map(s => ` ${normalize(s.text)} `);
+  const links: Record<string, string> = {};
+  keyConcepts.forEach(concept => {
+    const key = conceptKey(concept);
+    if (!key) return;
+    // Leading boundary only, so "eigenvector" also finds "eigenvectors".
+    const term = ` ${normalize(splitConcept(concept).term)}`;
+    const index = normalized.findIndex(text => text.includes(term));
+    if (index !== -1) links[key] = segments[index].id;
+  });
+  return links;
+};